@@ -1,30 +1,57 @@
 import React, { Suspense, useCallback, useEffect, useMemo, useReducer, useRef, useState } from 'react';
 import CalibrationPanel from './components/CalibrationPanel';
+import CalibrationWizard from './components/CalibrationWizard';
 import HandTracker from './components/HandTracker';
 import HelpPanel from './components/HelpPanel';
 import HUD from './components/HUD';
 import SessionInsightsPanel from './components/SessionInsightsPanel';
+import TrackerSourceControls, { downloadLandmarkRecording } from './components/TrackerSourceControls';
+import { ARENA_MAPS, DEFAULT_ARENA_MAP, getArenaMap } from './config/arenaMaps';
 import {
+  AUTO_PAUSE_GRACE_OPTIONS,
+  DEFAULT_AUTO_PAUSE_GRACE_MS,
   DEFAULT_HAND_STATE,
   DEFAULT_TRACKER_CALIBRATION,
   DIFFICULTY_PROFILES,
+  DEFAULT_LOADOUT,
   HAPTIC_PATTERNS,
+  LOADOUTS,
+  RESUME_COUNTDOWN_SECONDS,
+  WEAPON_PROFILES,
 } from './config/gameConfig';
-import { createInitialState, gameReducer } from './domain/game-state';
+import { migrateTrackerCalibration } from './domain/calibration-migration';
+import {
+  CONTROL_SCHEME_LABELS,
+  createDefaultTrackerCalibration,
+  isControlScheme,
+  mirrorTrackerCalibration,
+} from './domain/control-scheme';
+import { createInitialState, gameReducer, isMatchRunning } from './domain/game-state';
+import { TrackedHands } from './domain/gesture-classifier';
+import { INPUT_MODE_LABELS, INPUT_MODE_SOURCES, InputMode, isInputMode } from './domain/input-state';
+import { LandmarkRecording } from './domain/landmark-recording';
 import {
   appendSessionHistory,
   deriveSessionInsights,
   isSessionHistory,
   SessionSnapshot,
 } from './domain/session-analytics';
+import { World } from './domain/simulation';
 import { formatDuration } from './domain/time';
+import { getActiveAmmo } from './domain/weapons';
 import { usePersistentState } from './hooks/usePersistentState';
+import { useInputSources } from './hooks/useInputSources';
+import { useTrackingAutoPause } from './hooks/useTrackingAutoPause';
+import { createGamepadSource, createKeyboardMouseSource, createPushInputSource } from './services/input-sources';
 import {
   CombatGesture,
+  ControlScheme,
   DifficultyLevel,
+  EnemyHit,
   GameStatus,
-  HandState,
+  LoadoutId,
   MovementGesture,
+  PickupKind,
   TrackerCalibration,
 } from './types';
 
@@ -33,13 +60,22 @@ const GameContainer = React.lazy(() => import('./components/GameContainer'));
 
 const STORAGE_KEYS = {
   difficulty: 'gesturestrike:settings:difficulty',
+  arenaMap: 'gesturestrike:settings:arenaMap',
+  loadout: 'gesturestrike:settings:loadout',
   haptics: 'gesturestrike:settings:haptics',
   reduceMotion: 'gesturestrike:settings:reduceMotion',
   performanceMode: 'gesturestrike:settings:performanceMode',
+  freeAim: 'gesturestrike:settings:freeAim',
   calibration: 'gesturestrike:settings:calibration',
+  controlScheme: 'gesturestrike:settings:controlScheme',
+  autoPauseGraceMs: 'gesturestrike:settings:autoPauseGraceMs',
+  inputMode: 'gesturestrike:settings:inputMode',
+  gestureDiagnostics: 'gesturestrike:settings:gestureDiagnostics',
   sessionHistory: 'gesturestrike:analytics:sessionHistory',
 } as const;
 
+type LandmarkListener = (hands: TrackedHands) => void;
+
 interface UXToast {
   id: number;
   tone: 'info' | 'success';
@@ -50,10 +86,20 @@ interface UXToast {
 const isDifficultyLevel = (value: unknown): value is DifficultyLevel =>
   value === 'EASY' || value === 'CASUAL' || value === 'TACTICAL' || value === 'INSANE';
 
+const isLoadoutId = (value: unknown): value is LoadoutId => typeof value === 'string' && value in LOADOUTS;
+
+const isArenaMapId = (value: unknown): value is string => ARENA_MAPS.some((map) => map.id === value);
+
+const isAutoPauseGrace = (value: unknown): value is number =>
+  AUTO_PAUSE_GRACE_OPTIONS.some((option) => option === value);
+
+const formatGracePeriod = (ms: number) => (ms === 0 ? 'Desligada' : `${(ms / 1000).toLocaleString('pt-BR')} s`);
+
 const isTrackerCalibration = (value: unknown): value is TrackerCalibration => {
   if (!value || typeof value !== 'object') return false;
   const calibration = value as Record<string, unknown>;
   return (
+    typeof calibration.calibrationVersion === 'number' &&
     typeof calibration.movementCenterX === 'number' &&
     typeof calibration.movementCenterY === 'number' &&
     typeof calibration.movementDeadzone === 'number' &&
@@ -61,10 +107,32 @@ const isTrackerCalibration = (value: unknown): value is TrackerCalibration => {
     typeof calibration.indexExtendedThreshold === 'number' &&
     typeof calibration.fireCurlThreshold === 'number' &&
     typeof calibration.openHandThreshold === 'number' &&
-    typeof calibration.smoothingFrames === 'number'
+    typeof calibration.smoothingFrames === 'number' &&
+    typeof calibration.lookCenterX === 'number' &&
+    typeof calibration.lookCenterY === 'number' &&
+    typeof calibration.lookDeadzone === 'number' &&
+    typeof calibration.lookSensitivity === 'number' &&
+    typeof calibration.lookPitchSensitivity === 'number' &&
+    typeof calibration.aimCenterX === 'number' &&
+    typeof calibration.aimCenterY === 'number' &&
+    typeof calibration.aimRange === 'number' &&
+    typeof calibration.aimSmoothing === 'number' &&
+    typeof calibration.filterMinCutoff === 'number' &&
+    typeof calibration.filterBeta === 'number' &&
+    typeof calibration.filterDerivativeCutoff === 'number' &&
+    typeof calibration.fireEnterFrames === 'number' &&
+    typeof calibration.fireExitFrames === 'number' &&
+    typeof calibration.movementEnterFrames === 'number' &&
+    typeof calibration.movementExitFrames === 'number' &&
+    typeof calibration.pinchThreshold === 'number' &&
+    typeof calibration.meleeSwipeSpeed === 'number' &&
+    typeof calibration.grenadeHandGap === 'number'
   );
 };
 
+const deserializeTrackerCalibration = (raw: string): TrackerCalibration =>
+  migrateTrackerCalibration(JSON.parse(raw) as Partial<TrackerCalibration>);
+
 const App: React.FC = () => {
   const [selectedDifficulty, setSelectedDifficulty] = usePersistentState<DifficultyLevel>(
     STORAGE_KEYS.difficulty,
@@ -72,11 +140,36 @@ const App: React.FC = () => {
     { validate: isDifficultyLevel },
   );
   const [gameState, dispatch] = useReducer(gameReducer, selectedDifficulty, createInitialState);
-  const [handState, setHandState] = useState<HandState>(DEFAULT_HAND_STATE);
+  const [arenaMapId, setArenaMapId] = usePersistentState<string>(STORAGE_KEYS.arenaMap, DEFAULT_ARENA_MAP.id, {
+    validate: isArenaMapId,
+  });
+  const arenaMap = getArenaMap(arenaMapId);
+  const [selectedLoadout, setSelectedLoadout] = usePersistentState<LoadoutId>(STORAGE_KEYS.loadout, DEFAULT_LOADOUT, {
+    validate: isLoadoutId,
+  });
+  const [inputMode, setInputMode] = usePersistentState<InputMode>(STORAGE_KEYS.inputMode, 'HAND', {
+    validate: isInputMode,
+  });
+  const inputSources = useMemo(
+    () => ({
+      HAND: createPushInputSource('HAND'),
+      KEYBOARD_MOUSE: createKeyboardMouseSource(),
+      GAMEPAD: createGamepadSource(),
+    }),
+    [],
+  );
+  const handState = useInputSources(inputMode, inputSources);
+  const pushTrackedHands = inputSources.HAND.push;
+  const isHandTrackingEnabled = INPUT_MODE_SOURCES[inputMode].includes('HAND');
   const [trackerCalibration, setTrackerCalibration] = usePersistentState<TrackerCalibration>(
     STORAGE_KEYS.calibration,
     DEFAULT_TRACKER_CALIBRATION,
-    { validate: isTrackerCalibration },
+    { validate: isTrackerCalibration, deserialize: deserializeTrackerCalibration },
+  );
+  const [controlScheme, setControlScheme] = usePersistentState<ControlScheme>(
+    STORAGE_KEYS.controlScheme,
+    'RIGHT_HANDED',
+    { validate: isControlScheme },
   );
   const [sessionHistory, setSessionHistory] = usePersistentState<SessionSnapshot[]>(
     STORAGE_KEYS.sessionHistory,
@@ -88,6 +181,7 @@ const App: React.FC = () => {
   const [isCinematicOpen, setIsCinematicOpen] = useState(false);
   const [isCalibrationOpen, setIsCalibrationOpen] = useState(false);
   const [isHelpOpen, setIsHelpOpen] = useState(false);
+  const [isWizardOpen, setIsWizardOpen] = useState(false);
   const [hapticsEnabled, setHapticsEnabled] = usePersistentState<boolean>(STORAGE_KEYS.haptics, true);
   const [reduceMotion, setReduceMotion] = usePersistentState<boolean>(
     STORAGE_KEYS.reduceMotion,
@@ -96,13 +190,25 @@ const App: React.FC = () => {
       : false,
   );
   const [performanceMode, setPerformanceMode] = usePersistentState<boolean>(STORAGE_KEYS.performanceMode, false);
+  const [freeAim, setFreeAim] = usePersistentState<boolean>(STORAGE_KEYS.freeAim, true);
+  const [showGestureDiagnostics, setShowGestureDiagnostics] = usePersistentState<boolean>(STORAGE_KEYS.gestureDiagnostics, false);
+  const [autoPauseGraceMs, setAutoPauseGraceMs] = usePersistentState<number>(
+    STORAGE_KEYS.autoPauseGraceMs,
+    DEFAULT_AUTO_PAUSE_GRACE_MS,
+    { validate: isAutoPauseGrace },
+  );
   const [clockNow, setClockNow] = useState(Date.now());
+  const worldRef = useRef<World | null>(null);
+  const [hudWorld, setHudWorld] = useState<World | null>(null);
   const [isDamageFlashVisible, setIsDamageFlashVisible] = useState(false);
   const [uxToast, setUxToast] = useState<UXToast | null>(null);
+  const [landmarkReplay, setLandmarkReplay] = useState<LandmarkRecording | null>(null);
+  const [isRecordingLandmarks, setIsRecordingLandmarks] = useState(false);
   const stepCycleRef = useRef(0);
   const reloadTimeoutRef = useRef<number | null>(null);
   const firstRenderRef = useRef(true);
   const persistedSessionRef = useRef<number | null>(null);
+  const landmarkListenersRef = useRef(new Set<LandmarkListener>());
 
   const triggerHaptic = useCallback(
     (pattern: number | readonly number[]) => {
@@ -142,23 +248,115 @@ const App: React.FC = () => {
     [pushToast, setHapticsEnabled, setPerformanceMode, setReduceMotion],
   );
 
+  const handleRecordingComplete = useCallback(
+    (recording: LandmarkRecording) => {
+      downloadLandmarkRecording(recording);
+      pushToast(
+        'success',
+        'Gravação concluída',
+        `${recording.frames.length} quadros em ${(recording.durationMs / 1000).toFixed(1)}s exportados em JSON.`,
+      );
+    },
+    [pushToast],
+  );
+
+  const handleReplayChange = useCallback(
+    (recording: LandmarkRecording | null) => {
+      setIsRecordingLandmarks(false);
+      setLandmarkReplay(recording);
+      setCameraError(null);
+      if (recording) {
+        pushToast('info', 'Replay carregado', 'Os gestos gravados substituem a câmera até você voltar ao modo ao vivo.');
+      }
+    },
+    [pushToast],
+  );
+
+  const handleReplayError = useCallback(
+    (message: string) => pushToast('info', 'Replay não carregado', message),
+    [pushToast],
+  );
+
+  const changeControlScheme = useCallback(
+    (scheme: ControlScheme) => {
+      if (scheme === controlScheme) return;
+      setControlScheme(scheme);
+      setTrackerCalibration((previous) => mirrorTrackerCalibration(previous));
+      pushTrackedHands(DEFAULT_HAND_STATE);
+      const labels = CONTROL_SCHEME_LABELS[scheme];
+      pushToast(
+        'success',
+        scheme === 'LEFT_HANDED' ? 'Esquema canhoto ativado' : 'Esquema destro ativado',
+        `${labels.movementHand} move, ${labels.combatHand.toLowerCase()} combate. Centros de calibração espelhados.`,
+      );
+    },
+    [controlScheme, pushToast, pushTrackedHands, setControlScheme, setTrackerCalibration],
+  );
+
+  const changeInputMode = useCallback(
+    (mode: InputMode) => {
+      setInputMode(mode);
+      pushTrackedHands(DEFAULT_HAND_STATE);
+      if (!INPUT_MODE_SOURCES[mode].includes('HAND')) setCameraError(null);
+    },
+    [pushTrackedHands, setInputMode],
+  );
+
+  const handleLandmarks = useCallback((hands: TrackedHands) => {
+    landmarkListenersRef.current.forEach((listener) => listener(hands));
+  }, []);
+
+  const subscribeLandmarks = useCallback((listener: LandmarkListener) => {
+    const listeners = landmarkListenersRef.current;
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }, []);
+
+  const openCalibrationWizard = useCallback(() => {
+    dispatch({ type: 'PAUSE_MATCH' });
+    setIsCalibrationOpen(false);
+    setIsHelpOpen(false);
+    setIsWizardOpen(true);
+  }, []);
+
+  const applyWizardCalibration = useCallback(
+    (calibration: TrackerCalibration) => {
+      setTrackerCalibration(calibration);
+      setIsWizardOpen(false);
+      pushToast('success', 'Calibração salva', 'Limites recalculados a partir das suas poses.');
+    },
+    [pushToast, setTrackerCalibration],
+  );
+
   const startMatch = useCallback(() => {
-    dispatch({ type: 'START_MATCH', difficulty: selectedDifficulty, startedAt: Date.now() });
+    dispatch({ type: 'START_MATCH', difficulty: selectedDifficulty, loadout: selectedLoadout, startedAt: Date.now() });
     setCameraError(null);
     setIsHelpOpen(false);
-  }, [selectedDifficulty]);
+  }, [selectedDifficulty, selectedLoadout]);
 
   const returnToMenu = useCallback(() => {
-    dispatch({ type: 'RETURN_MENU', difficulty: selectedDifficulty });
+    dispatch({ type: 'RETURN_MENU', difficulty: selectedDifficulty, loadout: selectedLoadout });
     setIsCalibrationOpen(false);
     setIsCinematicOpen(false);
     setIsHelpOpen(false);
-    setHandState(DEFAULT_HAND_STATE);
-  }, [selectedDifficulty]);
+    pushTrackedHands(DEFAULT_HAND_STATE);
+  }, [pushTrackedHands, selectedDifficulty, selectedLoadout]);
 
   const pauseMatch = useCallback(() => dispatch({ type: 'PAUSE_MATCH' }), []);
   const resumeMatch = useCallback(() => dispatch({ type: 'RESUME_MATCH' }), []);
 
+  const handleAutoPause = useCallback(() => {
+    dispatch({ type: 'PAUSE_MATCH' });
+    pushToast(
+      'info',
+      'Partida pausada automaticamente',
+      'Nenhuma mão foi detectada. Volte as duas mãos para a câmera para retomar.',
+    );
+  }, [pushToast]);
+
+  const { reloadMs } = WEAPON_PROFILES[gameState.weapon];
   const handleReload = useCallback(() => {
     if (reloadTimeoutRef.current) return;
     dispatch({ type: 'RELOAD_START' });
@@ -166,8 +364,18 @@ const App: React.FC = () => {
     reloadTimeoutRef.current = window.setTimeout(() => {
       dispatch({ type: 'RELOAD_COMPLETE' });
       reloadTimeoutRef.current = null;
-    }, 1400);
-  }, [triggerHaptic]);
+    }, reloadMs);
+  }, [reloadMs, triggerHaptic]);
+
+  // Drawing another weapon abandons the reload in progress, so its timer must not refill the new one.
+  useEffect(
+    () => () => {
+      if (!reloadTimeoutRef.current) return;
+      window.clearTimeout(reloadTimeoutRef.current);
+      reloadTimeoutRef.current = null;
+    },
+    [gameState.weapon],
+  );
 
   const handleShoot = useCallback(
     (didHit: boolean) => {
@@ -177,14 +385,18 @@ const App: React.FC = () => {
     [triggerHaptic],
   );
 
-  const handleEnemyDefeated = useCallback((points: number) => {
-    dispatch({ type: 'ENEMY_DEFEATED', points });
+  const handleEnemyDefeated = useCallback((points: number, hit: EnemyHit) => {
+    dispatch({ type: 'ENEMY_DEFEATED', points, hit });
   }, []);
 
   const handleWaveChange = useCallback((wave: number) => {
     dispatch({ type: 'SET_WAVE', wave, at: Date.now() });
   }, []);
 
+  const handleWaveCleared = useCallback((wave: number, nextWave: number, bossIncoming: boolean) => {
+    dispatch({ type: 'WAVE_CLEARED', wave, nextWave, bossIncoming });
+  }, []);
+
   const handleTakeDamage = useCallback(
     (amount: number) => {
       dispatch({ type: 'TAKE_DAMAGE', amount, at: Date.now() });
@@ -193,14 +405,40 @@ const App: React.FC = () => {
     [triggerHaptic],
   );
 
+  const handleMelee = useCallback(
+    (didHit: boolean) => {
+      if (didHit) triggerHaptic(HAPTIC_PATTERNS.MELEE);
+    },
+    [triggerHaptic],
+  );
+
+  const handleGrenadeThrown = useCallback(() => {
+    triggerHaptic(HAPTIC_PATTERNS.GRENADE);
+  }, [triggerHaptic]);
+
+  const handlePickup = useCallback(
+    (kind: PickupKind) => {
+      dispatch({ type: 'COLLECT_PICKUP', kind });
+      triggerHaptic(HAPTIC_PATTERNS.PICKUP);
+    },
+    [triggerHaptic],
+  );
+
   useEffect(() => {
-    if (gameState.status !== GameStatus.PLAYING) return;
+    if (!isMatchRunning(gameState.status)) return;
     if (handState.combat !== CombatGesture.RELOAD) return;
     handleReload();
   }, [gameState.status, handState.combat, handleReload]);
 
   useEffect(() => {
-    if (gameState.status !== GameStatus.PLAYING || handState.movement === MovementGesture.STOP || isCinematicOpen) return;
+    if (!isMatchRunning(gameState.status)) return;
+    if (handState.combat !== CombatGesture.SWITCH_WEAPON) return;
+    dispatch({ type: 'SWITCH_WEAPON', at: Date.now() });
+    triggerHaptic(HAPTIC_PATTERNS.SWITCH_WEAPON);
+  }, [gameState.status, handState.combat, triggerHaptic]);
+
+  useEffect(() => {
+    if (!isMatchRunning(gameState.status) || handState.movement === MovementGesture.STOP || isCinematicOpen) return;
     const interval = window.setInterval(() => {
       stepCycleRef.current += 1;
       const onHardSurface = stepCycleRef.current % 12 > 8;
@@ -210,8 +448,13 @@ const App: React.FC = () => {
   }, [gameState.status, handState.movement, triggerHaptic, isCinematicOpen]);
 
   useEffect(() => {
-    if (gameState.status !== GameStatus.PLAYING && gameState.status !== GameStatus.PAUSED) return;
-    const interval = window.setInterval(() => setClockNow(Date.now()), 500);
+    if (!isMatchRunning(gameState.status) && gameState.status !== GameStatus.PAUSED) return;
+    const tick = () => {
+      setClockNow(Date.now());
+      setHudWorld(worldRef.current);
+    };
+    tick();
+    const interval = window.setInterval(tick, 500);
     return () => window.clearInterval(interval);
   }, [gameState.status]);
 
@@ -226,15 +469,22 @@ const App: React.FC = () => {
       if (isTypingContext) return;
 
       if (event.key.toLowerCase() === 'p') {
-        if (gameState.status === GameStatus.PLAYING) pauseMatch();
+        if (isMatchRunning(gameState.status)) pauseMatch();
         else if (gameState.status === GameStatus.PAUSED) resumeMatch();
       }
 
-      if (event.key.toLowerCase() === 'c' && gameState.status === GameStatus.PLAYING) {
+      const slot = Number(event.key) - 1;
+      const slotWeapon = LOADOUTS[gameState.loadout].weapons[slot];
+      if (isMatchRunning(gameState.status) && slotWeapon && slotWeapon !== gameState.weapon) {
+        dispatch({ type: 'SELECT_WEAPON', weapon: slotWeapon, at: Date.now() });
+        triggerHaptic(HAPTIC_PATTERNS.SWITCH_WEAPON);
+      }
+
+      if (event.key.toLowerCase() === 'c' && isMatchRunning(gameState.status)) {
         setIsCalibrationOpen((previous) => !previous);
       }
 
-      if (event.key.toLowerCase() === 'v' && gameState.status === GameStatus.PLAYING) {
+      if (event.key.toLowerCase() === 'v' && isMatchRunning(gameState.status)) {
         setIsCinematicOpen(true);
       }
 
@@ -243,6 +493,7 @@ const App: React.FC = () => {
       }
 
       if (event.key === 'Escape') {
+        setIsWizardOpen(false);
         setIsCinematicOpen(false);
         setIsCalibrationOpen(false);
         setIsHelpOpen(false);
@@ -250,7 +501,7 @@ const App: React.FC = () => {
     };
     window.addEventListener('keydown', keyHandler);
     return () => window.removeEventListener('keydown', keyHandler);
-  }, [gameState.status, pauseMatch, resumeMatch]);
+  }, [gameState.loadout, gameState.status, gameState.weapon, pauseMatch, resumeMatch, triggerHaptic]);
 
   useEffect(() => {
     if (firstRenderRef.current) {
@@ -296,10 +547,20 @@ const App: React.FC = () => {
 
   const selectedProfile = DIFFICULTY_PROFILES[selectedDifficulty];
   const isMenu = gameState.status === GameStatus.MENU;
-  const isPlaying = gameState.status === GameStatus.PLAYING;
+  const isPlaying = isMatchRunning(gameState.status);
   const isPaused = gameState.status === GameStatus.PAUSED;
   const isGameOver = gameState.status === GameStatus.GAMEOVER;
 
+  const { isAutoPaused, countdown: resumeCountdown } = useTrackingAutoPause({
+    isPlaying,
+    isPaused,
+    anyHandTracked: handState.leftHandPresent || handState.rightHandPresent,
+    bothHandsTracked: handState.leftHandPresent && handState.rightHandPresent,
+    graceMs: autoPauseGraceMs,
+    onAutoPause: handleAutoPause,
+    onAutoResume: resumeMatch,
+  });
+
   useEffect(() => {
     if (!isPlaying) return;
     persistedSessionRef.current = null;
@@ -349,25 +610,39 @@ const App: React.FC = () => {
   const showDifficultyRecommendation =
     sessionInsights.totalSessions >= 3 && sessionInsights.recommendedDifficulty !== selectedDifficulty;
 
+  const activeAmmo = getActiveAmmo(gameState);
   const accessibilityStatus = useMemo(() => {
     if (cameraError) return `Erro de câmera: ${cameraError}`;
     if (isMenu) return `Menu inicial ativo. Dificuldade selecionada: ${DIFFICULTY_PROFILES[selectedDifficulty].label}.`;
+    if (isPaused && resumeCountdown !== null) return `Retomando em ${resumeCountdown}.`;
+    if (isPaused && isAutoPaused) return 'Partida pausada: mãos fora do quadro.';
     if (isPaused) return 'Partida pausada.';
     if (isGameOver) return `Fim de partida. Pontuação ${gameState.score}.`;
+    if (gameState.intermission) {
+      const { clearedWave, nextWave, bossIncoming } = gameState.intermission;
+      return `Onda ${clearedWave} concluída. Onda ${nextWave} em instantes${bossIncoming ? ', com chefe' : ''}.`;
+    }
     if (isPlaying) {
-      return `Jogando. Onda ${gameState.wave}. Vida ${gameState.health} por cento. Munição ${gameState.ammo}.`;
+      const weapon = WEAPON_PROFILES[gameState.weapon].label;
+      return `Jogando. Onda ${gameState.wave}. Vida ${gameState.health} por cento. ${weapon}, munição ${
+        activeAmmo === null ? 'ilimitada' : activeAmmo
+      }.`;
     }
     return 'Aplicação em execução.';
   }, [
+    activeAmmo,
     cameraError,
-    gameState.ammo,
     gameState.health,
+    gameState.intermission,
     gameState.score,
+    gameState.weapon,
     gameState.wave,
+    isAutoPaused,
     isGameOver,
     isMenu,
     isPaused,
     isPlaying,
+    resumeCountdown,
     selectedDifficulty,
   ]);
 
@@ -384,12 +659,19 @@ const App: React.FC = () => {
         <GameContainer
           handState={handState}
           gameState={gameState}
+          arenaMap={arenaMap}
           isMotionReduced={reduceMotion}
           isPerformanceMode={performanceMode}
+          isFreeAim={freeAim}
           onShoot={handleShoot}
           onEnemyDefeated={handleEnemyDefeated}
           onTakeDamage={handleTakeDamage}
           onWaveChange={handleWaveChange}
+          onWaveCleared={handleWaveCleared}
+          onMelee={handleMelee}
+          onGrenadeThrown={handleGrenadeThrown}
+          onPickup={handlePickup}
+          worldRef={worldRef}
         />
       </Suspense>
 
@@ -427,17 +709,40 @@ const App: React.FC = () => {
         </nav>
       ) : null}
 
-      <aside className="tracker-dock" aria-label="Pré-visualização do rastreamento das mãos">
-        <HandTracker
-          onUpdate={setHandState}
-          onError={setCameraError}
-          calibration={trackerCalibration}
-          isPaused={!isPlaying}
-        />
-      </aside>
+      {isHandTrackingEnabled || isWizardOpen ? (
+        <aside className="tracker-dock" aria-label="Pré-visualização do rastreamento das mãos">
+          <HandTracker
+            onUpdate={pushTrackedHands}
+            onError={setCameraError}
+            calibration={trackerCalibration}
+            controlScheme={controlScheme}
+            isPaused={!isPlaying && !isWizardOpen && !isAutoPaused}
+            replay={landmarkReplay}
+            isRecording={isRecordingLandmarks}
+            onRecordingComplete={handleRecordingComplete}
+            onLandmarks={handleLandmarks}
+            showDiagnostics={showGestureDiagnostics}
+          />
+          <TrackerSourceControls
+            replay={landmarkReplay}
+            isRecording={isRecordingLandmarks}
+            onToggleRecording={() => setIsRecordingLandmarks((previous) => !previous)}
+            onReplayChange={handleReplayChange}
+            onError={handleReplayError}
+            showDiagnostics={showGestureDiagnostics}
+            onToggleDiagnostics={() => setShowGestureDiagnostics((previous) => !previous)}
+          />
+        </aside>
+      ) : null}
 
       {isPlaying ? (
-        <HUD gameState={gameState} handState={handState} sessionDurationMs={sessionDurationMs} />
+        <HUD
+          gameState={gameState}
+          handState={handState}
+          controlScheme={controlScheme}
+          sessionDurationMs={sessionDurationMs}
+          world={hudWorld}
+        />
       ) : null}
 
       {isPlaying && isDamageFlashVisible ? <div className="damage-flash" /> : null}
@@ -445,13 +750,24 @@ const App: React.FC = () => {
       {isCalibrationOpen ? (
         <CalibrationPanel
           calibration={trackerCalibration}
+          controlScheme={controlScheme}
           onChange={setTrackerCalibration}
-          onReset={() => setTrackerCalibration(DEFAULT_TRACKER_CALIBRATION)}
+          onReset={() => setTrackerCalibration(createDefaultTrackerCalibration(controlScheme))}
+          onStartWizard={openCalibrationWizard}
           onClose={() => setIsCalibrationOpen(false)}
         />
       ) : null}
 
-      {isHelpOpen ? <HelpPanel onClose={() => setIsHelpOpen(false)} /> : null}
+      {isWizardOpen ? (
+        <CalibrationWizard
+          baseCalibration={trackerCalibration}
+          subscribe={subscribeLandmarks}
+          onApply={applyWizardCalibration}
+          onClose={() => setIsWizardOpen(false)}
+        />
+      ) : null}
+
+      {isHelpOpen ? <HelpPanel controlScheme={controlScheme} onClose={() => setIsHelpOpen(false)} /> : null}
 
       {isCinematicOpen ? (
         <Suspense
@@ -474,14 +790,19 @@ const App: React.FC = () => {
             <p>Falha de câmera</p>
             <h2 id="camera-error-title">Não foi possível iniciar o rastreamento.</h2>
             <p>{cameraError}</p>
-            <button type="button" className="primary-btn" onClick={() => window.location.reload()}>
-              Recarregar aplicação
-            </button>
+            <div className="button-row">
+              <button type="button" className="primary-btn" onClick={() => window.location.reload()}>
+                Recarregar aplicação
+              </button>
+              <button type="button" className="secondary-btn" onClick={() => changeInputMode('KEYBOARD_MOUSE')}>
+                Jogar com teclado e mouse
+              </button>
+            </div>
           </div>
         </section>
       ) : null}
 
-      {isMenu ? (
+      {isMenu && !isWizardOpen ? (
         <section className="overlay-root" role="dialog" aria-modal="true" aria-labelledby="menu-title">
           <div className="overlay-card menu-card">
             <div className="menu-layout">
@@ -489,8 +810,9 @@ const App: React.FC = () => {
                 <p>GestureStrike Neural Arena</p>
                 <h1 id="menu-title">Controle FPS por Gestos</h1>
                 <p>
-                  Mão esquerda para deslocamento, mão direita para combate. Configure o perfil e entre na missão com
-                  rastreamento calibrado.
+                  {CONTROL_SCHEME_LABELS[controlScheme].movementHand} para deslocamento,{' '}
+                  {CONTROL_SCHEME_LABELS[controlScheme].combatHand.toLowerCase()} para combate. Configure o perfil e
+                  entre na missão com rastreamento calibrado.
                 </p>
 
                 <div className="menu-highlights">
@@ -593,6 +915,80 @@ const App: React.FC = () => {
                 />
                 Modo performance
               </label>
+              <label className="toggle-item">
+                <input
+                  type="checkbox"
+                  checked={freeAim}
+                  onChange={(event) => setFreeAim(event.target.checked)}
+                  aria-label="Mira livre pelo dedo indicador"
+                />
+                Mira livre (indicador)
+              </label>
+              <label className="toggle-item">
+                Equipamento
+                <select
+                  value={selectedLoadout}
+                  onChange={(event) => setSelectedLoadout(event.target.value as LoadoutId)}
+                  aria-label="Equipamento de armas da partida"
+                >
+                  {Object.values(LOADOUTS).map((loadout) => (
+                    <option key={loadout.id} value={loadout.id}>
+                      {loadout.label}: {loadout.weapons.map((weapon) => WEAPON_PROFILES[weapon].label).join(' + ')}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="toggle-item">
+                Mapa
+                <select
+                  value={arenaMap.id}
+                  onChange={(event) => setArenaMapId(event.target.value)}
+                  aria-label="Mapa da arena"
+                >
+                  {ARENA_MAPS.map((map) => (
+                    <option key={map.id} value={map.id}>
+                      {map.name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="toggle-item">
+                Controle
+                <select
+                  value={inputMode}
+                  onChange={(event) => changeInputMode(event.target.value as InputMode)}
+                  aria-label="Fonte de entrada dos controles"
+                >
+                  {(Object.keys(INPUT_MODE_LABELS) as InputMode[]).map((mode) => (
+                    <option key={mode} value={mode}>
+                      {INPUT_MODE_LABELS[mode]}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="toggle-item">
+                Pausa sem mãos
+                <select
+                  value={autoPauseGraceMs}
+                  onChange={(event) => setAutoPauseGraceMs(Number(event.target.value))}
+                  aria-label="Tempo sem mãos detectadas antes da pausa automática"
+                >
+                  {AUTO_PAUSE_GRACE_OPTIONS.map((option) => (
+                    <option key={option} value={option}>
+                      {formatGracePeriod(option)}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="toggle-item">
+                <input
+                  type="checkbox"
+                  checked={controlScheme === 'LEFT_HANDED'}
+                  onChange={(event) => changeControlScheme(event.target.checked ? 'LEFT_HANDED' : 'RIGHT_HANDED')}
+                  aria-label="Esquema canhoto: trocar funções das mãos"
+                />
+                Esquema canhoto
+              </label>
             </fieldset>
 
             <div className="preset-row" aria-label="Presets de experiência">
@@ -602,6 +998,9 @@ const App: React.FC = () => {
               <button type="button" className="secondary-btn" onClick={() => applyPreset('COMFORT')}>
                 Preset conforto
               </button>
+              <button type="button" className="secondary-btn" onClick={openCalibrationWizard}>
+                Calibração guiada
+              </button>
             </div>
 
             <button type="button" className="primary-btn" onClick={startMatch}>
@@ -611,11 +1010,20 @@ const App: React.FC = () => {
         </section>
       ) : null}
 
-      {isPaused ? (
+      {isPaused && !isWizardOpen ? (
         <section className="overlay-root" role="dialog" aria-modal="true" aria-labelledby="paused-title">
           <div className="overlay-card compact">
-            <p>Sessão pausada</p>
-            <h2 id="paused-title">Telemetria congelada</h2>
+            <p>{isAutoPaused ? 'Pausa automática' : 'Sessão pausada'}</p>
+            <h2 id="paused-title">{isAutoPaused ? 'Mãos fora do quadro' : 'Telemetria congelada'}</h2>
+            {isAutoPaused ? (
+              resumeCountdown !== null ? (
+                <strong className="resume-countdown" aria-live="assertive">
+                  {resumeCountdown}
+                </strong>
+              ) : (
+                <p>Mostre as duas mãos para a câmera e a partida retoma após uma contagem de {RESUME_COUNTDOWN_SECONDS}.</p>
+              )
+            ) : null}
             <p>
               Tempo {formatDuration(sessionDurationMs)} • Precisão {matchAccuracy.toFixed(1)}%
             </p>
@@ -657,6 +1065,10 @@ const App: React.FC = () => {
                 <span>Melhor sequência</span>
                 <strong>{gameState.stats.bestStreak}</strong>
               </div>
+              <div>
+                <span>Abates no olho</span>
+                <strong>{gameState.stats.weakSpotKills}</strong>
+              </div>
               <div>
                 <span>Duração</span>
                 <strong>{formatDuration(sessionDurationMs)}</strong>
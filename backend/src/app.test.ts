@@ -115,6 +115,69 @@ describe('GestureStrike Backend API', () => {
     await app.close();
   });
 
+  it('stores calibration and migrates legacy payloads', async () => {
+    const app = await buildApp({ config: await createConfig(), logger: false });
+    await app.ready();
+
+    const register = await app.inject({
+      method: 'POST',
+      url: '/api/v1/auth/register',
+      payload: {
+        email: 'tuner@example.com',
+        displayName: 'Tuner',
+        password: 'StrongPass1!',
+      },
+    });
+    const token = register.json().accessToken as string;
+
+    const update = await app.inject({
+      method: 'PUT',
+      url: '/api/v1/profile/calibration',
+      headers: { authorization: `Bearer ${token}` },
+      payload: {
+        movementCenterX: 0.25,
+        movementCenterY: 0.5,
+        movementDeadzone: 0.085,
+        fistStopThreshold: 0.14,
+        indexExtendedThreshold: 0.3,
+        fireCurlThreshold: 0.12,
+        openHandThreshold: 0.31,
+        smoothingFrames: 2,
+      },
+    });
+    expect(update.statusCode).toBe(200);
+    expect(update.json().calibration.lookCenterX).toBe(0.75);
+    expect(update.json().calibration.calibrationVersion).toBe(2);
+    expect(update.json().calibration.fistStopThreshold).toBeCloseTo(0.875);
+    expect(update.json().calibration.fireExitFrames).toBe(3);
+
+    const resaved = await app.inject({
+      method: 'PUT',
+      url: '/api/v1/profile/calibration',
+      headers: { authorization: `Bearer ${token}` },
+      payload: update.json().calibration,
+    });
+    expect(resaved.json().calibration.indexExtendedThreshold).toBeCloseTo(1.875);
+
+    const invalid = await app.inject({
+      method: 'PUT',
+      url: '/api/v1/profile/calibration',
+      headers: { authorization: `Bearer ${token}` },
+      payload: { ...update.json().calibration, lookSensitivity: 42 },
+    });
+    expect(invalid.statusCode).toBe(422);
+
+    const invalidFilter = await app.inject({
+      method: 'PUT',
+      url: '/api/v1/profile/calibration',
+      headers: { authorization: `Bearer ${token}` },
+      payload: { ...update.json().calibration, fireEnterFrames: 0 },
+    });
+    expect(invalidFilter.statusCode).toBe(422);
+
+    await app.close();
+  });
+
   it('rejects protected routes without token', async () => {
     const app = await buildApp({ config: await createConfig(), logger: false });
     await app.ready();
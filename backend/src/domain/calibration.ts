@@ -0,0 +1,29 @@
+import { CalibrationSettings } from './types.js';
+
+export const CALIBRATION_VERSION = 2;
+
+/** Hand size, in image units, that version 1 image-space thresholds were tuned for. */
+const REFERENCE_HAND_SCALE = 0.16;
+
+const HAND_SCALE_FIELDS = [
+  'fistStopThreshold',
+  'indexExtendedThreshold',
+  'fireCurlThreshold',
+  'openHandThreshold',
+] as const;
+
+type VersionedCalibration = Omit<CalibrationSettings, 'calibrationVersion'> & { calibrationVersion?: number };
+
+/**
+ * Converts version 1 finger thresholds (raw image distances) into hand-scale
+ * units, matching the client migration, so old clients and stored records stay usable.
+ */
+export const migrateCalibration = <T extends VersionedCalibration>(calibration: T): T & CalibrationSettings => {
+  const migrated = { ...calibration, calibrationVersion: CALIBRATION_VERSION };
+  if ((calibration.calibrationVersion ?? 1) < 2) {
+    HAND_SCALE_FIELDS.forEach((field) => {
+      migrated[field] = Number((calibration[field] / REFERENCE_HAND_SCALE).toFixed(3));
+    });
+  }
+  return migrated;
+};
@@ -21,14 +21,34 @@ export const loginSchema = z.object({
 });
 
 export const calibrationSchema = z.object({
+  calibrationVersion: z.number().int().min(1).max(2).default(1),
   movementCenterX: z.number().min(0).max(1),
   movementCenterY: z.number().min(0).max(1),
   movementDeadzone: z.number().min(0).max(1),
-  fistStopThreshold: z.number().min(0).max(1),
-  indexExtendedThreshold: z.number().min(0).max(1),
-  fireCurlThreshold: z.number().min(0).max(1),
-  openHandThreshold: z.number().min(0).max(1),
+  fistStopThreshold: z.number().min(0).max(5),
+  indexExtendedThreshold: z.number().min(0).max(5),
+  fireCurlThreshold: z.number().min(0).max(5),
+  openHandThreshold: z.number().min(0).max(5),
   smoothingFrames: z.number().int().min(1).max(10),
+  lookCenterX: z.number().min(0).max(1).default(0.75),
+  lookCenterY: z.number().min(0).max(1).default(0.5),
+  lookDeadzone: z.number().min(0).max(1).default(0.07),
+  lookSensitivity: z.number().min(0).max(6).default(1.6),
+  lookPitchSensitivity: z.number().min(0).max(6).default(0),
+  aimCenterX: z.number().min(0).max(1).default(0.7),
+  aimCenterY: z.number().min(0).max(1).default(0.42),
+  aimRange: z.number().min(0.01).max(1).default(0.16),
+  aimSmoothing: z.number().min(0).max(0.95).default(0.35),
+  filterMinCutoff: z.number().min(0.05).max(10).default(1.5),
+  filterBeta: z.number().min(0).max(100).default(8),
+  filterDerivativeCutoff: z.number().min(0.05).max(10).default(1),
+  fireEnterFrames: z.number().int().min(1).max(10).default(1),
+  fireExitFrames: z.number().int().min(1).max(20).default(3),
+  movementEnterFrames: z.number().int().min(1).max(10).default(2),
+  movementExitFrames: z.number().int().min(1).max(20).default(3),
+  pinchThreshold: z.number().min(0.05).max(2).default(0.35),
+  meleeSwipeSpeed: z.number().min(1).max(100).default(12),
+  grenadeHandGap: z.number().min(0.5).max(10).default(2.2),
 });
 
 export const matchSubmissionSchema = z.object({
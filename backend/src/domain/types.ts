@@ -2,6 +2,7 @@ export type UserRole = 'PLAYER' | 'ADMIN';
 export type DifficultyLevel = 'CASUAL' | 'TACTICAL' | 'INSANE';
 
 export interface CalibrationSettings {
+  calibrationVersion: number;
   movementCenterX: number;
   movementCenterY: number;
   movementDeadzone: number;
@@ -10,6 +11,25 @@ export interface CalibrationSettings {
   fireCurlThreshold: number;
   openHandThreshold: number;
   smoothingFrames: number;
+  lookCenterX: number;
+  lookCenterY: number;
+  lookDeadzone: number;
+  lookSensitivity: number;
+  lookPitchSensitivity: number;
+  aimCenterX: number;
+  aimCenterY: number;
+  aimRange: number;
+  aimSmoothing: number;
+  filterMinCutoff: number;
+  filterBeta: number;
+  filterDerivativeCutoff: number;
+  fireEnterFrames: number;
+  fireExitFrames: number;
+  movementEnterFrames: number;
+  movementExitFrames: number;
+  pinchThreshold: number;
+  meleeSwipeSpeed: number;
+  grenadeHandGap: number;
 }
 
 export interface UserRecord {
@@ -1,4 +1,5 @@
 import { FastifyInstance } from 'fastify';
+import { migrateCalibration } from '../../domain/calibration.js';
 import { calibrationSchema } from '../../domain/schemas.js';
 import { StoreRepository } from '../../infrastructure/store/store-repository.js';
 import { AppError } from '../../shared/app-error.js';
@@ -14,13 +15,13 @@ export const registerProfileRoutes = async (app: FastifyInstance, deps: ProfileR
     const auth = request.auth;
     if (!auth) throw new AppError('Usuário não autenticado.', 401, 'UNAUTHORIZED');
     const calibration = await deps.repository.getCalibration(auth.sub);
-    return { calibration };
+    return { calibration: calibration ? migrateCalibration(calibration) : null };
   });
 
   app.put('/profile/calibration', { preHandler: requireAuth }, async (request) => {
     const auth = request.auth;
     if (!auth) throw new AppError('Usuário não autenticado.', 401, 'UNAUTHORIZED');
-    const payload = validate(calibrationSchema, request.body);
+    const payload = migrateCalibration(validate(calibrationSchema, request.body));
     const calibration = await deps.repository.upsertCalibration(auth.sub, payload);
     return { calibration };
   });
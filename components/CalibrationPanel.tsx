@@ -1,10 +1,12 @@
 import React from 'react';
-import { TrackerCalibration } from '../types';
+import { ControlScheme, TrackerCalibration } from '../types';
 
 interface CalibrationPanelProps {
   calibration: TrackerCalibration;
+  controlScheme: ControlScheme;
   onChange: (calibration: TrackerCalibration) => void;
   onReset: () => void;
+  onStartWizard: () => void;
   onClose: () => void;
 }
 
@@ -34,8 +36,35 @@ const SliderField: React.FC<SliderFieldProps> = ({ label, min, max, step, value,
   </label>
 );
 
-const CalibrationPanel: React.FC<CalibrationPanelProps> = ({ calibration, onChange, onReset, onClose }) => {
+const FrameField: React.FC<Omit<SliderFieldProps, 'step'>> = ({ label, min, max, value, onChange }) => (
+  <label className="slider-field">
+    <span>
+      {label}
+      <strong>{value}</strong>
+    </span>
+    <input
+      type="range"
+      min={min}
+      max={max}
+      step={1}
+      value={value}
+      onChange={(event) => onChange(Number(event.target.value))}
+    />
+  </label>
+);
+
+const CalibrationPanel: React.FC<CalibrationPanelProps> = ({
+  calibration,
+  controlScheme,
+  onChange,
+  onReset,
+  onStartWizard,
+  onClose,
+}) => {
   const update = (patch: Partial<TrackerCalibration>) => onChange({ ...calibration, ...patch });
+  // Horizontal centres live on the opposite half of the frame when the hands are swapped.
+  const horizontalRange = (min: number, max: number) =>
+    controlScheme === 'LEFT_HANDED' ? { min: 1 - max, max: 1 - min } : { min, max };
 
   return (
     <aside className="calibration-panel" aria-label="Calibração de gestos">
@@ -48,8 +77,7 @@ const CalibrationPanel: React.FC<CalibrationPanelProps> = ({ calibration, onChan
 
       <SliderField
         label="Centro X do movimento"
-        min={0.1}
-        max={0.45}
+        {...horizontalRange(0.1, 0.45)}
         step={0.005}
         value={calibration.movementCenterX}
         onChange={(value) => update({ movementCenterX: value })}
@@ -75,58 +103,212 @@ const CalibrationPanel: React.FC<CalibrationPanelProps> = ({ calibration, onChan
 
       <SliderField
         label="Limite punho fechado"
-        min={0.09}
-        max={0.2}
-        step={0.002}
+        min={0.55}
+        max={1.25}
+        step={0.01}
         value={calibration.fistStopThreshold}
         onChange={(value) => update({ fistStopThreshold: value })}
       />
 
       <SliderField
         label="Extensão indicador"
-        min={0.2}
-        max={0.42}
-        step={0.002}
+        min={1.25}
+        max={2.6}
+        step={0.01}
         value={calibration.indexExtendedThreshold}
         onChange={(value) => update({ indexExtendedThreshold: value })}
       />
 
       <SliderField
         label="Curvatura de tiro"
-        min={0.07}
-        max={0.24}
-        step={0.002}
+        min={0.45}
+        max={1.5}
+        step={0.01}
         value={calibration.fireCurlThreshold}
         onChange={(value) => update({ fireCurlThreshold: value })}
       />
 
       <SliderField
         label="Abertura para recarga"
-        min={0.2}
-        max={0.42}
-        step={0.002}
+        min={1.25}
+        max={2.6}
+        step={0.01}
         value={calibration.openHandThreshold}
         onChange={(value) => update({ openHandThreshold: value })}
       />
 
-      <label className="slider-field">
-        <span>
-          Suavização (frames)
-          <strong>{calibration.smoothingFrames}</strong>
-        </span>
-        <input
-          type="range"
-          min={1}
-          max={6}
-          step={1}
-          value={calibration.smoothingFrames}
-          onChange={(event) => update({ smoothingFrames: Number(event.target.value) })}
-        />
-      </label>
-
-      <button type="button" className="secondary-btn" onClick={onReset}>
-        Restaurar padrão
-      </button>
+      <SliderField
+        label="Centro X da mira (giro)"
+        {...horizontalRange(0.55, 0.9)}
+        step={0.005}
+        value={calibration.lookCenterX}
+        onChange={(value) => update({ lookCenterX: value })}
+      />
+
+      <SliderField
+        label="Centro Y da mira (vertical)"
+        min={0.3}
+        max={0.7}
+        step={0.005}
+        value={calibration.lookCenterY}
+        onChange={(value) => update({ lookCenterY: value })}
+      />
+
+      <SliderField
+        label="Deadzone de giro"
+        min={0.02}
+        max={0.16}
+        step={0.002}
+        value={calibration.lookDeadzone}
+        onChange={(value) => update({ lookDeadzone: value })}
+      />
+
+      <SliderField
+        label="Sensibilidade de giro"
+        min={0.4}
+        max={3.2}
+        step={0.05}
+        value={calibration.lookSensitivity}
+        onChange={(value) => update({ lookSensitivity: value })}
+      />
+
+      <SliderField
+        label="Sensibilidade vertical (0 = desligado)"
+        min={0}
+        max={2}
+        step={0.05}
+        value={calibration.lookPitchSensitivity}
+        onChange={(value) => update({ lookPitchSensitivity: value })}
+      />
+
+      <SliderField
+        label="Centro X da mira livre"
+        {...horizontalRange(0.5, 0.9)}
+        step={0.005}
+        value={calibration.aimCenterX}
+        onChange={(value) => update({ aimCenterX: value })}
+      />
+
+      <SliderField
+        label="Centro Y da mira livre"
+        min={0.15}
+        max={0.7}
+        step={0.005}
+        value={calibration.aimCenterY}
+        onChange={(value) => update({ aimCenterY: value })}
+      />
+
+      <SliderField
+        label="Alcance da mira livre"
+        min={0.06}
+        max={0.3}
+        step={0.005}
+        value={calibration.aimRange}
+        onChange={(value) => update({ aimRange: value })}
+      />
+
+      <SliderField
+        label="Suavização da mira"
+        min={0}
+        max={0.9}
+        step={0.01}
+        value={calibration.aimSmoothing}
+        onChange={(value) => update({ aimSmoothing: value })}
+      />
+
+      <SliderField
+        label="Filtro: corte em repouso (Hz)"
+        min={0.2}
+        max={5}
+        step={0.1}
+        value={calibration.filterMinCutoff}
+        onChange={(value) => update({ filterMinCutoff: value })}
+      />
+
+      <SliderField
+        label="Filtro: resposta à velocidade"
+        min={0}
+        max={30}
+        step={0.5}
+        value={calibration.filterBeta}
+        onChange={(value) => update({ filterBeta: value })}
+      />
+
+      <FrameField
+        label="Suavização (frames)"
+        min={1}
+        max={6}
+        value={calibration.smoothingFrames}
+        onChange={(value) => update({ smoothingFrames: value })}
+      />
+
+      <FrameField
+        label="Tiro: frames para disparar"
+        min={1}
+        max={4}
+        value={calibration.fireEnterFrames}
+        onChange={(value) => update({ fireEnterFrames: value })}
+      />
+
+      <FrameField
+        label="Tiro: frames para soltar"
+        min={1}
+        max={8}
+        value={calibration.fireExitFrames}
+        onChange={(value) => update({ fireExitFrames: value })}
+      />
+
+      <FrameField
+        label="Movimento: frames para andar"
+        min={1}
+        max={6}
+        value={calibration.movementEnterFrames}
+        onChange={(value) => update({ movementEnterFrames: value })}
+      />
+
+      <FrameField
+        label="Movimento: frames para parar"
+        min={1}
+        max={8}
+        value={calibration.movementExitFrames}
+        onChange={(value) => update({ movementExitFrames: value })}
+      />
+
+      <SliderField
+        label="Pinça para trocar arma"
+        min={0.1}
+        max={0.8}
+        step={0.01}
+        value={calibration.pinchThreshold}
+        onChange={(value) => update({ pinchThreshold: value })}
+      />
+
+      <SliderField
+        label="Velocidade do golpe corpo a corpo"
+        min={4}
+        max={30}
+        step={0.5}
+        value={calibration.meleeSwipeSpeed}
+        onChange={(value) => update({ meleeSwipeSpeed: value })}
+      />
+
+      <SliderField
+        label="Distância dos punhos (granada)"
+        min={1}
+        max={4}
+        step={0.05}
+        value={calibration.grenadeHandGap}
+        onChange={(value) => update({ grenadeHandGap: value })}
+      />
+
+      <div className="button-row">
+        <button type="button" className="primary-btn" onClick={onStartWizard}>
+          Calibração guiada
+        </button>
+        <button type="button" className="secondary-btn" onClick={onReset}>
+          Restaurar padrão
+        </button>
+      </div>
     </aside>
   );
 };
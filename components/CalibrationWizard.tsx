@@ -0,0 +1,189 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  deriveCalibration,
+  measurePose,
+  PoseMeasurement,
+  WIZARD_HOLD_MS,
+  WIZARD_MIN_SAMPLES,
+  WIZARD_STEPS,
+  WizardSamples,
+} from '../domain/calibration-wizard';
+import { TrackedHands } from '../domain/gesture-classifier';
+import { TrackerCalibration } from '../types';
+
+type LandmarkListener = (hands: TrackedHands) => void;
+
+interface CalibrationWizardProps {
+  baseCalibration: TrackerCalibration;
+  subscribe: (listener: LandmarkListener) => () => void;
+  onApply: (calibration: TrackerCalibration) => void;
+  onClose: () => void;
+}
+
+type WizardPhase = 'READY' | 'CAPTURING' | 'REVIEW';
+
+const PREVIEW_FIELDS: { key: keyof TrackerCalibration; label: string }[] = [
+  { key: 'movementCenterX', label: 'Centro X do movimento' },
+  { key: 'movementCenterY', label: 'Centro Y do movimento' },
+  { key: 'fistStopThreshold', label: 'Limite punho fechado' },
+  { key: 'indexExtendedThreshold', label: 'Extensão indicador' },
+  { key: 'fireCurlThreshold', label: 'Curvatura de tiro' },
+  { key: 'openHandThreshold', label: 'Abertura para recarga' },
+];
+
+const CalibrationWizard: React.FC<CalibrationWizardProps> = ({ baseCalibration, subscribe, onApply, onClose }) => {
+  const [phase, setPhase] = useState<WizardPhase>('READY');
+  const [stepIndex, setStepIndex] = useState(0);
+  const [progress, setProgress] = useState(0);
+  const [stepWarning, setStepWarning] = useState('');
+  const [samples, setSamples] = useState<WizardSamples>({});
+  const primaryButtonRef = useRef<HTMLButtonElement>(null);
+
+  const step = WIZARD_STEPS[stepIndex];
+  const result = useMemo(
+    () => (phase === 'REVIEW' ? deriveCalibration(samples, baseCalibration) : null),
+    [baseCalibration, phase, samples],
+  );
+
+  useEffect(() => {
+    primaryButtonRef.current?.focus();
+  }, [phase, stepIndex]);
+
+  useEffect(() => {
+    if (phase !== 'CAPTURING') return;
+    const captured: PoseMeasurement[] = [];
+    const startedAt = performance.now();
+
+    const unsubscribe = subscribe((hands) => {
+      const landmarks = hands[step.hand];
+      if (landmarks) captured.push(measurePose(landmarks));
+    });
+
+    const interval = window.setInterval(() => {
+      const elapsed = performance.now() - startedAt;
+      setProgress(Math.min(1, elapsed / WIZARD_HOLD_MS));
+      if (elapsed < WIZARD_HOLD_MS) return;
+
+      window.clearInterval(interval);
+      unsubscribe();
+      if (captured.length < WIZARD_MIN_SAMPLES) {
+        setStepWarning('Mão não detectada durante a captura. Ajuste a posição e tente novamente.');
+        setPhase('READY');
+        return;
+      }
+
+      setSamples((previous) => ({ ...previous, [step.id]: captured }));
+      setStepWarning('');
+      if (stepIndex + 1 < WIZARD_STEPS.length) {
+        setStepIndex(stepIndex + 1);
+        setPhase('READY');
+      } else {
+        setPhase('REVIEW');
+      }
+    }, 100);
+
+    return () => {
+      window.clearInterval(interval);
+      unsubscribe();
+    };
+  }, [phase, step, stepIndex, subscribe]);
+
+  const restart = () => {
+    setSamples({});
+    setStepIndex(0);
+    setProgress(0);
+    setStepWarning('');
+    setPhase('READY');
+  };
+
+  return (
+    <section className="overlay-root wizard-root" role="dialog" aria-modal="true" aria-labelledby="wizard-title">
+      <div className="overlay-card compact wizard-card">
+        <p>Calibração guiada</p>
+        {phase === 'REVIEW' && result ? (
+          <>
+            <h2 id="wizard-title">Prévia da calibração</h2>
+            <p>Compare os valores atuais com os calculados a partir das suas poses antes de salvar.</p>
+            <div className="wizard-preview">
+              {PREVIEW_FIELDS.map(({ key, label }) => (
+                <div key={key}>
+                  <span>{label}</span>
+                  <small>{baseCalibration[key].toFixed(3)}</small>
+                  <strong>{result.calibration[key].toFixed(3)}</strong>
+                </div>
+              ))}
+            </div>
+            {result.issues.length ? (
+              <ul className="wizard-issues" role="alert">
+                {result.issues.map((issue) => (
+                  <li key={issue}>{issue}</li>
+                ))}
+              </ul>
+            ) : null}
+            <div className="button-row">
+              <button
+                ref={primaryButtonRef}
+                type="button"
+                className="primary-btn"
+                disabled={result.issues.length > 0}
+                onClick={() => onApply(result.calibration)}
+              >
+                Salvar calibração
+              </button>
+              <button type="button" className="secondary-btn" onClick={restart}>
+                Refazer
+              </button>
+              <button type="button" className="ghost-btn" onClick={onClose}>
+                Cancelar
+              </button>
+            </div>
+          </>
+        ) : (
+          <>
+            <h2 id="wizard-title">
+              {stepIndex + 1}/{WIZARD_STEPS.length} • {step.title}
+            </h2>
+            <p>{step.instruction}</p>
+            <p className="wizard-hand">
+              Use a mão de {step.hand === 'movement' ? 'movimento' : 'combate'} e observe o preview no canto da tela.
+            </p>
+            <div
+              className="meter-track"
+              role="progressbar"
+              aria-label="Progresso da captura"
+              aria-valuemin={0}
+              aria-valuemax={100}
+              aria-valuenow={Math.round(progress * 100)}
+            >
+              <div className="meter-fill ammo-fill" style={{ width: `${(phase === 'CAPTURING' ? progress : 0) * 100}%` }} />
+            </div>
+            {stepWarning ? (
+              <p className="wizard-issues" role="alert">
+                {stepWarning}
+              </p>
+            ) : null}
+            <div className="button-row">
+              <button
+                ref={primaryButtonRef}
+                type="button"
+                className="primary-btn"
+                disabled={phase === 'CAPTURING'}
+                onClick={() => {
+                  setProgress(0);
+                  setPhase('CAPTURING');
+                }}
+              >
+                {phase === 'CAPTURING' ? 'Mantenha a pose...' : 'Capturar pose'}
+              </button>
+              <button type="button" className="ghost-btn" onClick={onClose}>
+                Cancelar
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </section>
+  );
+};
+
+export default CalibrationWizard;
@@ -0,0 +1,137 @@
+import React, { useCallback, useMemo, useRef, useState } from 'react';
+import { Canvas, useFrame } from '@react-three/fiber';
+import { Target } from '../types';
+import { DEFAULT_ARENA_MAP } from '../config/arenaMaps';
+import { FrameTimingSummary, summarizeFrameTimes } from '../domain/frame-timing';
+import { createSeededRng } from '../domain/rng';
+import { createEnemy, getPlayerStart } from '../domain/simulation';
+import EnemySwarm from './EnemySwarm';
+
+const BENCHMARK_DRONE_COUNTS = [10, 200] as const;
+const WARMUP_FRAMES = 60;
+const SAMPLED_FRAMES = 300;
+const ORBIT_RADIUS = 2;
+
+interface BenchmarkResult {
+  drones: number;
+  /** Updating the swarm and submitting the frame, measured on the main thread. */
+  cpu: FrameTimingSummary;
+  /** Time between frames, capped by the display refresh rate. */
+  interval: FrameTimingSummary;
+}
+
+/** Drones from the game's own spawner, a third of them damaged so health bars are drawn too. */
+const createBenchmarkDrones = (count: number): Target[] => {
+  const rng = createSeededRng(count);
+  const player = getPlayerStart(DEFAULT_ARENA_MAP);
+  return Array.from({ length: count }, (_, index) => {
+    const drone = createEnemy(`bench-${index}`, 'DRONE', DEFAULT_ARENA_MAP, player, 1, 0, rng);
+    return index % 3 === 0 ? { ...drone, health: drone.maxHealth * 0.4 } : drone;
+  });
+};
+
+/**
+ * Runs each drone count through a warm-up and a sampled run. The first frame
+ * callback starts the clock and the last one renders and stops it, so the CPU
+ * time covers the swarm update and the draw submission.
+ */
+const BenchmarkRun: React.FC<{ onResult: (result: BenchmarkResult) => void }> = ({ onResult }) => {
+  const [countIndex, setCountIndex] = useState(0);
+  const drones = BENCHMARK_DRONE_COUNTS[countIndex];
+  const enemies = useMemo(() => (drones === undefined ? [] : createBenchmarkDrones(drones)), [drones]);
+  const origins = useMemo(() => enemies.map((enemy) => [...enemy.position] as const), [enemies]);
+  const progress = useRef({ frame: 0, startedAt: 0, cpu: [] as number[], interval: [] as number[] });
+  const getEnemies = useCallback(() => enemies, [enemies]);
+  const getTimeMs = useRef(() => performance.now()).current;
+
+  useFrame(({ clock }) => {
+    progress.current.startedAt = performance.now();
+    const time = clock.elapsedTime;
+    enemies.forEach((enemy, index) => {
+      const phase = time + enemy.strafeSeed;
+      const [x, y, z] = origins[index];
+      enemy.position = [x + Math.sin(phase) * ORBIT_RADIUS, y, z + Math.cos(phase) * ORBIT_RADIUS];
+      enemy.heading = phase + Math.PI / 2;
+    });
+  }, -1);
+
+  useFrame(({ gl, scene, camera }, delta) => {
+    gl.render(scene, camera);
+    if (drones === undefined) return;
+    const run = progress.current;
+    run.frame += 1;
+    if (run.frame <= WARMUP_FRAMES) return;
+    run.cpu.push(performance.now() - run.startedAt);
+    run.interval.push(delta * 1000);
+    if (run.cpu.length < SAMPLED_FRAMES) return;
+
+    onResult({ drones, cpu: summarizeFrameTimes(run.cpu), interval: summarizeFrameTimes(run.interval) });
+    progress.current = { frame: 0, startedAt: 0, cpu: [], interval: [] };
+    setCountIndex((index) => index + 1);
+  }, 1);
+
+  return <EnemySwarm getEnemies={getEnemies} getTimeMs={getTimeMs} isMotionReduced={false} />;
+};
+
+const formatMs = (value: number) => value.toFixed(2);
+
+/** Development scene, opened with `?benchmark`: frame times of the instanced enemy renderer with 10 and 200 drones. */
+const EnemyBenchmark: React.FC = () => {
+  const [results, setResults] = useState<BenchmarkResult[]>([]);
+  const [runId, setRunId] = useState(0);
+  const isDone = results.length === BENCHMARK_DRONE_COUNTS.length;
+
+  return (
+    <div className="benchmark-shell">
+      <Canvas camera={{ position: [0, 34, 46], fov: 60 }}>
+        <ambientLight intensity={0.5} />
+        <pointLight position={[8, 9, 6]} intensity={1.4} color="#82a7ff" />
+        <BenchmarkRun key={runId} onResult={(result) => setResults((current) => [...current, result])} />
+      </Canvas>
+
+      <section className="benchmark-report" aria-live="polite">
+        <h1>Benchmark de inimigos</h1>
+        <p>
+          {isDone
+            ? 'Concluído.'
+            : `Medindo ${BENCHMARK_DRONE_COUNTS[results.length]} drones (${WARMUP_FRAMES} quadros de aquecimento, ${SAMPLED_FRAMES} medidos)...`}
+        </p>
+        <table>
+          <thead>
+            <tr>
+              <th scope="col">Drones</th>
+              <th scope="col">CPU médio (ms)</th>
+              <th scope="col">CPU p95 (ms)</th>
+              <th scope="col">Intervalo médio (ms)</th>
+              <th scope="col">Pior intervalo (ms)</th>
+            </tr>
+          </thead>
+          <tbody>
+            {results.map(({ drones, cpu, interval }) => (
+              <tr key={drones}>
+                <td>{drones}</td>
+                <td>{formatMs(cpu.averageMs)}</td>
+                <td>{formatMs(cpu.p95Ms)}</td>
+                <td>{formatMs(interval.averageMs)}</td>
+                <td>{formatMs(interval.worstMs)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <button
+          type="button"
+          className="secondary-btn"
+          disabled={!isDone}
+          onClick={() => {
+            setResults([]);
+            setRunId((id) => id + 1);
+          }}
+        >
+          Repetir
+        </button>
+      </section>
+    </div>
+  );
+};
+
+export default EnemyBenchmark;
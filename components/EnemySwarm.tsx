@@ -0,0 +1,444 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { EnemyAIState, EnemyArchetypeId, Target } from '../types';
+import { ENEMY_HITBOXES, HIT_FLASH_MS } from '../config/gameConfig';
+import { Vec3 } from '../domain/combat-abilities';
+
+/** Most enemies of one archetype drawn at once; the arena caps alive enemies far below this. */
+export const ENEMY_INSTANCE_CAPACITY = 256;
+const PATROL_SEGMENT_CAPACITY = ENEMY_INSTANCE_CAPACITY * 4;
+const HEALTH_BAR_WIDTH = 1.4;
+const PATROL_HEIGHT = 0.16;
+
+interface MaterialSpec {
+  color: string;
+  metalness?: number;
+  roughness?: number;
+  emissive?: string;
+  emissiveIntensity?: number;
+  opacity?: number;
+}
+
+/** One mesh of an archetype's silhouette, placed in the enemy's own frame (it faces +z). */
+interface HullPart {
+  geometry: () => THREE.BufferGeometry;
+  material: MaterialSpec;
+  position?: Vec3;
+  rotation?: Vec3;
+}
+
+/** The first part is the body: it casts the shadow and flashes when hit. The eye sits on the archetype's weak spot. */
+interface EnemyModel {
+  parts: HullPart[];
+  healthBarHeight: number;
+}
+
+const FLAT: Vec3 = [Math.PI / 2, 0, 0];
+
+const ENEMY_MODELS: Record<EnemyArchetypeId, EnemyModel> = {
+  DRONE: {
+    parts: [
+      {
+        geometry: () => new THREE.OctahedronGeometry(0.78, 1),
+        material: { color: '#1f2430', metalness: 0.92, roughness: 0.12 },
+      },
+      {
+        geometry: () => new THREE.TorusGeometry(1.15, 0.055, 14, 40),
+        material: { color: '#2f3747', emissive: '#111822' },
+        rotation: FLAT,
+      },
+    ],
+    healthBarHeight: 1.45,
+  },
+  KAMIKAZE: {
+    parts: [
+      {
+        geometry: () => new THREE.IcosahedronGeometry(0.5, 0),
+        material: { color: '#3a1418', metalness: 0.8, roughness: 0.25 },
+      },
+      {
+        geometry: () => new THREE.ConeGeometry(0.22, 0.5, 10),
+        material: { color: '#ff6f61', emissive: '#5a1410' },
+        position: [0, 0, 0.55],
+        rotation: FLAT,
+      },
+    ],
+    healthBarHeight: 1,
+  },
+  SNIPER: {
+    parts: [
+      {
+        geometry: () => new THREE.CylinderGeometry(0.32, 0.4, 1.4, 12),
+        material: { color: '#1c2a26', metalness: 0.85, roughness: 0.2 },
+      },
+      {
+        geometry: () => new THREE.CylinderGeometry(0.05, 0.05, 1.6, 8),
+        material: { color: '#0a0c11', metalness: 0.9, roughness: 0.3 },
+        position: [0.22, 0.3, 0.8],
+        rotation: FLAT,
+      },
+    ],
+    healthBarHeight: 1.55,
+  },
+  TANK: {
+    parts: [
+      {
+        geometry: () => new THREE.BoxGeometry(1.8, 1.2, 1.8),
+        material: { color: '#2a2c24', metalness: 0.7, roughness: 0.4 },
+      },
+      {
+        geometry: () => new THREE.BoxGeometry(2.2, 1.6, 0.12),
+        material: { color: '#7cc4ff', emissive: '#244a73', opacity: 0.45 },
+        position: [0, 0.1, 1.05],
+      },
+    ],
+    healthBarHeight: 1.5,
+  },
+  SUPPORT: {
+    parts: [
+      {
+        geometry: () => new THREE.SphereGeometry(0.55, 20, 20),
+        material: { color: '#1d2b22', metalness: 0.8, roughness: 0.2 },
+      },
+      {
+        geometry: () => new THREE.TorusGeometry(0.95, 0.05, 12, 36),
+        material: { color: '#5be49b', emissive: '#5be49b', emissiveIntensity: 1.2 },
+        rotation: FLAT,
+      },
+    ],
+    healthBarHeight: 1.35,
+  },
+  BOSS: {
+    parts: [
+      {
+        geometry: () => new THREE.DodecahedronGeometry(1.45, 0),
+        material: { color: '#2b1d33', metalness: 0.85, roughness: 0.2 },
+      },
+      {
+        geometry: () => new THREE.BoxGeometry(2.8, 2.2, 0.14),
+        material: { color: '#c58cff', emissive: '#4a2470', opacity: 0.45 },
+        position: [0, 0.2, 1.6],
+      },
+      {
+        geometry: () => new THREE.TorusGeometry(2, 0.08, 14, 48),
+        material: { color: '#c58cff', emissive: '#c58cff', emissiveIntensity: 1.1 },
+        rotation: FLAT,
+      },
+    ],
+    healthBarHeight: 2.4,
+  },
+};
+
+const ARCHETYPES = Object.keys(ENEMY_MODELS) as EnemyArchetypeId[];
+
+const UNIT_SCALE = new THREE.Vector3(1, 1, 1);
+
+const PART_MATRICES: Record<EnemyArchetypeId, THREE.Matrix4[]> = Object.fromEntries(
+  ARCHETYPES.map((archetype) => [
+    archetype,
+    ENEMY_MODELS[archetype].parts.map(({ position = [0, 0, 0], rotation = [0, 0, 0] }) =>
+      new THREE.Matrix4().compose(
+        new THREE.Vector3(...position),
+        new THREE.Quaternion().setFromEuler(new THREE.Euler(...rotation)),
+        UNIT_SCALE,
+      ),
+    ),
+  ]),
+) as Record<EnemyArchetypeId, THREE.Matrix4[]>;
+
+// Instance colours multiply the material colour, so values above 1 brighten it the way the emissive flash used to.
+const IDLE_TINT = new THREE.Color(1, 1, 1);
+const HIT_TINT = new THREE.Color(7, 7, 7);
+const WEAK_SPOT_TINT = new THREE.Color(9, 7, 2.5);
+
+const EYE_COLORS: Partial<Record<EnemyAIState, THREE.Color>> = {
+  [EnemyAIState.ATTACKING]: new THREE.Color('#ff4739').multiplyScalar(2.6),
+  [EnemyAIState.ALERT]: new THREE.Color('#ffc14d').multiplyScalar(1.8),
+};
+const EYE_IDLE_COLOR = new THREE.Color('#89e9ff').multiplyScalar(1.3);
+
+const HEALTH_COLORS = {
+  high: new THREE.Color('#5be49b'),
+  medium: new THREE.Color('#ffd166'),
+  low: new THREE.Color('#ff6f61'),
+};
+
+const healthColor = (ratio: number) =>
+  ratio > 0.5 ? HEALTH_COLORS.high : ratio > 0.25 ? HEALTH_COLORS.medium : HEALTH_COLORS.low;
+
+const partKey = (archetype: EnemyArchetypeId, index: number) => `${archetype}:${index}`;
+
+/** Every instance of one hull part. */
+const HullPartInstances: React.FC<{
+  part: HullPart;
+  isBody: boolean;
+  meshRef: (mesh: THREE.InstancedMesh | null) => void;
+}> = ({ part, isBody, meshRef }) => {
+  const geometry = useMemo(() => part.geometry(), [part]);
+  const { opacity, ...material } = part.material;
+
+  useEffect(() => () => geometry.dispose(), [geometry]);
+
+  return (
+    <instancedMesh
+      ref={meshRef}
+      args={[geometry, undefined, ENEMY_INSTANCE_CAPACITY]}
+      count={0}
+      castShadow={isBody}
+      frustumCulled={false}
+      raycast={() => null}
+    >
+      <meshStandardMaterial {...material} transparent={opacity !== undefined} opacity={opacity ?? 1} />
+    </instancedMesh>
+  );
+};
+
+/** Draws the first `count` instances and uploads what changed this frame. */
+const commitInstances = (mesh: THREE.InstancedMesh, count: number) => {
+  mesh.count = count;
+  mesh.instanceMatrix.needsUpdate = true;
+  if (mesh.instanceColor) mesh.instanceColor.needsUpdate = true;
+};
+
+interface EnemySwarmProps {
+  /** Read once per frame; the swarm never keeps the list, so the simulation can swap it freely. */
+  getEnemies: () => readonly Target[];
+  /** The simulation clock, so hit flashes freeze with the match. */
+  getTimeMs: () => number;
+  isMotionReduced: boolean;
+}
+
+/**
+ * Every enemy in the arena, drawn with one instanced mesh per hull part plus
+ * shared ones for eyes, health bars, sniper lasers and patrol routes. The
+ * React tree is fixed; a single frame callback writes the transforms and
+ * colours from the simulation, so the cost of a render no longer grows with
+ * the number of enemy components. Shots are tested against the colliders
+ * in `domain/hit-test.ts`, never against these meshes, and the instances
+ * span the whole arena, so none of them is picked or culled.
+ */
+const EnemySwarm: React.FC<EnemySwarmProps> = ({ getEnemies, getTimeMs, isMotionReduced }) => {
+  const partMeshes = useRef(new Map<string, THREE.InstancedMesh>());
+  const eyesRef = useRef<THREE.InstancedMesh>(null);
+  const barBackRef = useRef<THREE.InstancedMesh>(null);
+  const barFillRef = useRef<THREE.InstancedMesh>(null);
+  const laserRef = useRef<THREE.InstancedMesh>(null);
+  const patrolRef = useRef<THREE.InstancedMesh>(null);
+  const registerPart = useMemo(
+    () =>
+      Object.fromEntries(
+        ARCHETYPES.flatMap((archetype) =>
+          ENEMY_MODELS[archetype].parts.map((_, index) => {
+            const key = partKey(archetype, index);
+            return [
+              key,
+              (mesh: THREE.InstancedMesh | null) => {
+                if (mesh) partMeshes.current.set(key, mesh);
+                else partMeshes.current.delete(key);
+              },
+            ];
+          }),
+        ),
+      ) as Record<string, (mesh: THREE.InstancedMesh | null) => void>,
+    [],
+  );
+
+  // Scratch objects reused every frame.
+  const scratch = useMemo(
+    () => ({
+      enemy: new THREE.Matrix4(),
+      part: new THREE.Matrix4(),
+      position: new THREE.Vector3(),
+      quaternion: new THREE.Quaternion(),
+      scale: new THREE.Vector3(),
+      right: new THREE.Vector3(),
+      yAxis: new THREE.Vector3(0, 1, 0),
+      direction: new THREE.Vector3(),
+      end: new THREE.Vector3(),
+      upright: new THREE.Quaternion(),
+      laserTilt: new THREE.Quaternion().setFromEuler(new THREE.Euler(...FLAT)),
+      counts: Object.fromEntries(ARCHETYPES.map((archetype) => [archetype, 0])) as Record<EnemyArchetypeId, number>,
+    }),
+    [],
+  );
+
+  useFrame((state) => {
+    const eyes = eyesRef.current;
+    const barBack = barBackRef.current;
+    const barFill = barFillRef.current;
+    const laser = laserRef.current;
+    const patrol = patrolRef.current;
+    if (!eyes || !barBack || !barFill || !laser || !patrol) return;
+
+    const { enemy: enemyMatrix, part: partMatrix, position, quaternion, scale, right, counts } = scratch;
+    const elapsed = state.clock.elapsedTime;
+    const timeMs = getTimeMs();
+    const pulseAmplitude = isMotionReduced ? 0.02 : 0.09;
+    const cameraQuaternion = state.camera.quaternion;
+    right.set(1, 0, 0).applyQuaternion(cameraQuaternion);
+    ARCHETYPES.forEach((archetype) => {
+      counts[archetype] = 0;
+    });
+    let eyeCount = 0;
+    let barCount = 0;
+    let laserCount = 0;
+    let patrolCount = 0;
+
+    const placeSegment = (start: Vec3, end: Vec3) => {
+      if (patrolCount >= PATROL_SEGMENT_CAPACITY) return;
+      position.set(start[0], PATROL_HEIGHT, start[2]);
+      scratch.end.set(end[0], PATROL_HEIGHT, end[2]);
+      scratch.direction.subVectors(scratch.end, position);
+      const length = Math.max(0.001, scratch.direction.length());
+      quaternion.setFromUnitVectors(scratch.yAxis, scratch.direction.divideScalar(length));
+      position.add(scratch.end).multiplyScalar(0.5);
+      scale.set(1, length, 1);
+      patrol.setMatrixAt(patrolCount, partMatrix.compose(position, quaternion, scale));
+      patrolCount += 1;
+    };
+
+    for (const enemy of getEnemies()) {
+      if (enemy.state === EnemyAIState.DEAD) continue;
+      const slot = counts[enemy.archetype];
+      if (slot >= ENEMY_INSTANCE_CAPACITY) continue;
+      counts[enemy.archetype] = slot + 1;
+
+      const model = ENEMY_MODELS[enemy.archetype];
+      const pulseSpeed = enemy.state === EnemyAIState.ATTACKING ? 9 : enemy.state === EnemyAIState.ALERT ? 6 : 2.6;
+      const bob = Math.sin(elapsed * pulseSpeed) * pulseAmplitude;
+      position.set(enemy.position[0], enemy.position[1] + bob, enemy.position[2]);
+      quaternion.setFromAxisAngle(scratch.yAxis, enemy.heading);
+      enemyMatrix.compose(position, quaternion, UNIT_SCALE);
+
+      PART_MATRICES[enemy.archetype].forEach((local, index) => {
+        const mesh = partMeshes.current.get(partKey(enemy.archetype, index));
+        if (!mesh) return;
+        mesh.setMatrixAt(slot, partMatrix.multiplyMatrices(enemyMatrix, local));
+        if (index === 0) {
+          const isFlashing = enemy.lastHit !== null && timeMs - enemy.lastHit.at < HIT_FLASH_MS;
+          mesh.setColorAt(slot, isFlashing ? (enemy.lastHit?.weakSpot ? WEAK_SPOT_TINT : HIT_TINT) : IDLE_TINT);
+        }
+      });
+
+      const { weakSpot } = ENEMY_HITBOXES[enemy.archetype];
+      position.set(...weakSpot.center);
+      scale.setScalar(weakSpot.radius);
+      partMatrix.compose(position, scratch.upright, scale);
+      eyes.setMatrixAt(eyeCount, partMatrix.premultiply(enemyMatrix));
+      eyes.setColorAt(eyeCount, EYE_COLORS[enemy.state] ?? EYE_IDLE_COLOR);
+      eyeCount += 1;
+
+      // Telegraphs the shot: the laser stays on the player until the sniper fires.
+      if (enemy.archetype === 'SNIPER' && enemy.aimStartedAt !== null) {
+        const { x, z } = state.camera.position;
+        const range = Math.hypot(x - enemy.position[0], z - enemy.position[2]);
+        position.set(weakSpot.center[0], weakSpot.center[1], range / 2);
+        scale.set(1, range, 1);
+        partMatrix.compose(position, scratch.laserTilt, scale).premultiply(enemyMatrix);
+        laser.setMatrixAt(laserCount, partMatrix);
+        laserCount += 1;
+      }
+
+      // Health bars face the camera and stay hidden at full health.
+      if (enemy.health < enemy.maxHealth) {
+        const ratio = Math.max(0, enemy.health / enemy.maxHealth);
+        position.set(enemy.position[0], enemy.position[1] + bob + model.healthBarHeight, enemy.position[2]);
+        barBack.setMatrixAt(barCount, partMatrix.compose(position, cameraQuaternion, UNIT_SCALE));
+        position.addScaledVector(right, (-HEALTH_BAR_WIDTH * (1 - ratio)) / 2);
+        scale.set(Math.max(ratio, 0.001), 1, 1);
+        barFill.setMatrixAt(barCount, partMatrix.compose(position, cameraQuaternion, scale));
+        barFill.setColorAt(barCount, healthColor(ratio));
+        barCount += 1;
+      }
+
+      // The route a patrolling enemy is walking: around cover when it has one, otherwise straight to its target.
+      if (enemy.state === EnemyAIState.PATROLLING) {
+        const waypoints = enemy.route?.waypoints.length ? enemy.route.waypoints : [enemy.targetPoint];
+        let start = enemy.position;
+        for (const end of waypoints) {
+          placeSegment(start, end);
+          start = end;
+        }
+      }
+    }
+
+    partMeshes.current.forEach((mesh, key) => {
+      const archetype = key.slice(0, key.indexOf(':')) as EnemyArchetypeId;
+      commitInstances(mesh, counts[archetype]);
+    });
+    commitInstances(eyes, eyeCount);
+    commitInstances(barBack, barCount);
+    commitInstances(barFill, barCount);
+    commitInstances(laser, laserCount);
+    commitInstances(patrol, patrolCount);
+  });
+
+  return (
+    <>
+      {ARCHETYPES.map((archetype) =>
+        ENEMY_MODELS[archetype].parts.map((part, index) => (
+          <HullPartInstances
+            key={partKey(archetype, index)}
+            part={part}
+            isBody={index === 0}
+            meshRef={registerPart[partKey(archetype, index)]}
+          />
+        )),
+      )}
+      <instancedMesh
+        ref={eyesRef}
+        args={[undefined, undefined, ENEMY_INSTANCE_CAPACITY * ARCHETYPES.length]}
+        count={0}
+        frustumCulled={false}
+        raycast={() => null}
+      >
+        <sphereGeometry args={[1, 16, 16]} />
+        <meshBasicMaterial />
+      </instancedMesh>
+      <instancedMesh
+        ref={laserRef}
+        args={[undefined, undefined, ENEMY_INSTANCE_CAPACITY]}
+        count={0}
+        frustumCulled={false}
+        raycast={() => null}
+      >
+        <cylinderGeometry args={[0.015, 0.015, 1, 6]} />
+        <meshBasicMaterial color="#ff4739" transparent opacity={0.7} depthWrite={false} />
+      </instancedMesh>
+      <instancedMesh
+        ref={barBackRef}
+        args={[undefined, undefined, ENEMY_INSTANCE_CAPACITY * ARCHETYPES.length]}
+        count={0}
+        frustumCulled={false}
+        raycast={() => null}
+      >
+        <planeGeometry args={[HEALTH_BAR_WIDTH, 0.14]} />
+        <meshBasicMaterial color="#05070d" transparent opacity={0.7} depthWrite={false} />
+      </instancedMesh>
+      <instancedMesh
+        ref={barFillRef}
+        args={[undefined, undefined, ENEMY_INSTANCE_CAPACITY * ARCHETYPES.length]}
+        count={0}
+        frustumCulled={false}
+        raycast={() => null}
+        renderOrder={1}
+      >
+        <planeGeometry args={[HEALTH_BAR_WIDTH, 0.1]} />
+        <meshBasicMaterial transparent depthWrite={false} />
+      </instancedMesh>
+      <instancedMesh
+        ref={patrolRef}
+        args={[undefined, undefined, PATROL_SEGMENT_CAPACITY]}
+        count={0}
+        frustumCulled={false}
+        raycast={() => null}
+      >
+        <cylinderGeometry args={[0.035, 0.035, 1, 10]} />
+        <meshBasicMaterial color="#89e9ff" transparent opacity={0.24} />
+      </instancedMesh>
+    </>
+  );
+};
+
+export default EnemySwarm;
@@ -4,150 +4,239 @@ import { Environment, PerspectiveCamera, Sky, Stars } from '@react-three/drei';
 import * as THREE from 'three';
 import {
   CombatGesture,
-  EnemyAIState,
+  EnemyHit,
   GameState,
   GameStatus,
   HandState,
-  MovementGesture,
-  Target,
+  PickupKind,
+  WeaponId,
 } from '../types';
-import { DIFFICULTY_PROFILES, WAVE_ENEMY_STEP } from '../config/gameConfig';
+import { GRENADE_BLAST_RADIUS, PICKUP_PROFILES, WEAPON_PROFILES } from '../config/gameConfig';
+import { ArenaMap, ArenaObstacle, ObstacleKind, RampRise } from '../domain/arena-map';
+import { GrenadeThrow, grenadePositionAt, Vec3 } from '../domain/combat-abilities';
+import { isMatchRunning } from '../domain/game-state';
+import { buildEnemyColliders, findShotHit } from '../domain/hit-test';
+import { Pickup } from '../domain/pickups';
+import { EnemyProjectile, projectilePositionAt } from '../domain/projectiles';
+import { createSeededRng, Rng } from '../domain/rng';
+import {
+  AimedHit,
+  createWorld,
+  EXPLOSION_DURATION_MS,
+  Explosion,
+  getPlayerStart,
+  SimulationEvent,
+  simulateStep,
+  World,
+} from '../domain/simulation';
+import { canFireWeapon, sampleSpread } from '../domain/weapons';
+import EnemySwarm from './EnemySwarm';
 
 interface GameContainerProps {
   handState: HandState;
   gameState: GameState;
+  arenaMap: ArenaMap;
   isMotionReduced: boolean;
   isPerformanceMode: boolean;
+  isFreeAim: boolean;
   onShoot: (didHit: boolean) => void;
-  onEnemyDefeated: (points: number) => void;
+  onEnemyDefeated: (points: number, hit: EnemyHit) => void;
   onTakeDamage: (amount: number) => void;
   onWaveChange: (wave: number) => void;
+  onWaveCleared: (wave: number, nextWave: number, bossIncoming: boolean) => void;
+  onMelee: (didHit: boolean) => void;
+  onGrenadeThrown: () => void;
+  onPickup: (kind: PickupKind) => void;
+  /** Holds the running match, so the HUD can read timers that run on its clock. */
+  worldRef: React.RefObject<World | null>;
 }
 
-const WORLD_LIMIT = 95;
-const PLAYER_HEIGHT = 1.6;
-const BASE_MOVE_SPEED = 6;
-const WEAPON_COOLDOWN_MS = 240;
-const ENEMY_SYNC_INTERVAL_SECONDS = 0.1;
+const CENTER_AIM = { x: 0, y: 0 };
 
-const clampPosition = (position: THREE.Vector3) => {
-  position.x = THREE.MathUtils.clamp(position.x, -WORLD_LIMIT, WORLD_LIMIT);
-  position.z = THREE.MathUtils.clamp(position.z, -WORLD_LIMIT, WORLD_LIMIT);
-};
+/** Reads the simulation clock, so hit flashes, thrown grenades and blasts freeze with the match. */
+type SimulationClock = () => number;
 
-const nextEnemyId = () => `enemy-${Date.now()}-${Math.floor(Math.random() * 100000)}`;
+const GrenadeMesh: React.FC<{ grenade: GrenadeThrow; getTimeMs: SimulationClock }> = ({ grenade, getTimeMs }) => {
+  const meshRef = useRef<THREE.Mesh>(null);
 
-const toTuple = (vector: THREE.Vector3): [number, number, number] => [vector.x, vector.y, vector.z];
+  useFrame(() => {
+    if (!meshRef.current) return;
+    meshRef.current.position.set(...grenadePositionAt(grenade, getTimeMs() - grenade.thrownAt));
+  });
 
-const createEnemy = (cameraPos: THREE.Vector3, wave: number): Target => {
-  const angle = Math.random() * Math.PI * 2;
-  const radius = 28 + Math.random() * 20 + Math.min(15, wave * 1.5);
-  const position = new THREE.Vector3(
-    cameraPos.x + Math.cos(angle) * radius,
-    PLAYER_HEIGHT,
-    cameraPos.z + Math.sin(angle) * radius,
+  return (
+    <mesh ref={meshRef} position={grenade.origin}>
+      <sphereGeometry args={[0.12, 12, 12]} />
+      <meshStandardMaterial color="#3d4a2f" emissive="#ffb347" emissiveIntensity={0.6} />
+    </mesh>
   );
-  clampPosition(position);
+};
 
-  const targetPoint = new THREE.Vector3(
-    position.x + (Math.random() - 0.5) * 28,
-    PLAYER_HEIGHT,
-    position.z + (Math.random() - 0.5) * 28,
+const TRACER_LENGTH = 1.2;
+
+/** An enemy round drawn as a streak along its flight path. */
+const Tracer: React.FC<{ projectile: EnemyProjectile; getTimeMs: SimulationClock }> = ({ projectile, getTimeMs }) => {
+  const meshRef = useRef<THREE.Mesh>(null);
+  const quaternion = useMemo(
+    () =>
+      new THREE.Quaternion().setFromUnitVectors(
+        new THREE.Vector3(0, 1, 0),
+        new THREE.Vector3(...projectile.velocity).normalize(),
+      ),
+    [projectile.velocity],
   );
-  clampPosition(targetPoint);
-
-  return {
-    id: nextEnemyId(),
-    position: toTuple(position),
-    health: 100,
-    state: EnemyAIState.PATROLLING,
-    targetPoint: toTuple(targetPoint),
-    lastActionTime: performance.now(),
-    strafeSeed: Math.random() * Math.PI * 2,
-  };
-};
 
-const renderSafeCopy = (enemy: Target): Target => ({
-  ...enemy,
-  position: [...enemy.position] as [number, number, number],
-  targetPoint: [...enemy.targetPoint] as [number, number, number],
-});
+  useFrame(() => {
+    if (!meshRef.current) return;
+    meshRef.current.position.set(...projectilePositionAt(projectile, getTimeMs()));
+  });
 
-const PatrolPath: React.FC<{ start: [number, number, number]; end: [number, number, number] }> = ({
-  start,
-  end,
+  return (
+    <mesh ref={meshRef} position={projectile.origin} quaternion={quaternion} raycast={() => null}>
+      <cylinderGeometry args={[0.03, 0.03, TRACER_LENGTH, 6]} />
+      <meshBasicMaterial color="#ff8a5c" transparent opacity={0.85} depthWrite={false} />
+    </mesh>
+  );
+};
+
+const ExplosionFlash: React.FC<{ explosion: Explosion; isMotionReduced: boolean; getTimeMs: SimulationClock }> = ({
+  explosion,
+  isMotionReduced,
+  getTimeMs,
 }) => {
-  const { midpoint, quaternion, length } = useMemo(() => {
-    const startPoint = new THREE.Vector3(start[0], 0.16, start[2]);
-    const endPoint = new THREE.Vector3(end[0], 0.16, end[2]);
-    const direction = endPoint.clone().sub(startPoint);
-    const segmentLength = Math.max(0.001, direction.length());
-    const unitDirection = direction.clone().normalize();
-    const unitY = new THREE.Vector3(0, 1, 0);
-    const segmentQuaternion = new THREE.Quaternion().setFromUnitVectors(unitY, unitDirection);
-
-    return {
-      midpoint: startPoint.clone().add(endPoint).multiplyScalar(0.5),
-      quaternion: segmentQuaternion,
-      length: segmentLength,
-    };
-  }, [start, end]);
+  const meshRef = useRef<THREE.Mesh>(null);
+
+  useFrame(() => {
+    if (!meshRef.current) return;
+    const progress = Math.min(1, (getTimeMs() - explosion.at) / EXPLOSION_DURATION_MS);
+    const scale = GRENADE_BLAST_RADIUS * (isMotionReduced ? 0.6 : 0.25 + progress * 0.75);
+    meshRef.current.scale.setScalar(scale);
+    (meshRef.current.material as THREE.MeshBasicMaterial).opacity = 0.55 * (1 - progress);
+  });
 
   return (
-    <mesh position={midpoint} quaternion={quaternion}>
-      <cylinderGeometry args={[0.035, 0.035, length, 10]} />
-      <meshBasicMaterial color="#89e9ff" transparent opacity={0.24} />
+    <mesh ref={meshRef} position={explosion.position}>
+      <sphereGeometry args={[1, 20, 20]} />
+      <meshBasicMaterial color="#ffb347" transparent opacity={0.55} depthWrite={false} />
     </mesh>
   );
 };
 
-const EnemyDrone: React.FC<{ enemy: Target; isMotionReduced: boolean }> = ({ enemy, isMotionReduced }) => {
-  const groupRef = useRef<THREE.Group>(null);
-  const eyeRef = useRef<THREE.Mesh>(null);
-
-  useFrame((state) => {
-    if (!groupRef.current || !eyeRef.current || enemy.state === EnemyAIState.DEAD) return;
-
-    const pulseSpeed = enemy.state === EnemyAIState.ATTACKING ? 9 : enemy.state === EnemyAIState.ALERT ? 6 : 2.6;
-    const pulseAmplitude = isMotionReduced ? 0.02 : 0.09;
-    groupRef.current.position.y = enemy.position[1] + Math.sin(state.clock.elapsedTime * pulseSpeed) * pulseAmplitude;
-
-    const eyeMaterial = eyeRef.current.material as THREE.MeshStandardMaterial;
-    if (enemy.state === EnemyAIState.ATTACKING) {
-      eyeMaterial.color.set('#ff4739');
-      eyeMaterial.emissive.set('#ff4739');
-      eyeMaterial.emissiveIntensity = 4;
-    } else if (enemy.state === EnemyAIState.ALERT) {
-      eyeMaterial.color.set('#ffc14d');
-      eyeMaterial.emissive.set('#ffc14d');
-      eyeMaterial.emissiveIntensity = 2.4;
-    } else {
-      eyeMaterial.color.set('#89e9ff');
-      eyeMaterial.emissive.set('#89e9ff');
-      eyeMaterial.emissiveIntensity = 1.2;
-    }
+/** A pickup floating over the floor; it spins and bobs unless motion is reduced, and never blocks the aim. */
+const PickupMarker: React.FC<{ pickup: Pickup; isMotionReduced: boolean }> = ({ pickup, isMotionReduced }) => {
+  const meshRef = useRef<THREE.Mesh>(null);
+  const { color } = PICKUP_PROFILES[pickup.kind];
+  const [x, y, z] = pickup.position;
+
+  useFrame(({ clock }) => {
+    if (!meshRef.current || isMotionReduced) return;
+    const time = clock.getElapsedTime();
+    meshRef.current.rotation.y = time * 1.8;
+    meshRef.current.position.y = y + 0.6 + Math.sin(time * 2.4) * 0.12;
   });
 
   return (
-    <group ref={groupRef} position={enemy.position} userData={{ targetId: enemy.id }}>
-      <mesh castShadow>
-        <octahedronGeometry args={[0.78, 1]} />
-        <meshStandardMaterial color="#1f2430" metalness={0.92} roughness={0.12} />
+    <group raycast={() => null}>
+      <mesh ref={meshRef} position={[x, y + 0.6, z]} raycast={() => null}>
+        <octahedronGeometry args={[0.32]} />
+        <meshStandardMaterial color={color} emissive={color} emissiveIntensity={0.7} />
       </mesh>
-      <mesh rotation={[Math.PI / 2, 0, 0]}>
-        <torusGeometry args={[1.15, 0.055, 14, 40]} />
-        <meshStandardMaterial color="#2f3747" emissive="#111822" />
-      </mesh>
-      <mesh ref={eyeRef} position={[0, 0, 0.58]}>
-        <sphereGeometry args={[0.19, 16, 16]} />
-        <meshStandardMaterial color="#89e9ff" emissive="#89e9ff" emissiveIntensity={1.6} />
+      <mesh position={[x, y + 0.02, z]} rotation={[-Math.PI / 2, 0, 0]} raycast={() => null}>
+        <ringGeometry args={[0.5, 0.62, 24]} />
+        <meshBasicMaterial color={color} transparent opacity={0.6} depthWrite={false} />
       </mesh>
     </group>
   );
 };
 
-const Weapon: React.FC<{ combat: CombatGesture; isReloading: boolean }> = ({ combat, isReloading }) => {
+const OBSTACLE_COLORS: Record<ObstacleKind, string> = {
+  WALL: '#273142',
+  CRATE: '#5b4630',
+  RAMP: '#323b4a',
+};
+
+/** Yaw that turns a wedge rising toward +x so it rises toward the given side. */
+const RAMP_YAW: Record<RampRise, number> = {
+  '+x': 0,
+  '-x': Math.PI,
+  '+z': -Math.PI / 2,
+  '-z': Math.PI / 2,
+};
+
+const RampMesh: React.FC<{ obstacle: ArenaObstacle }> = ({ obstacle }) => {
+  const [width, height, depth] = obstacle.size;
+  const rises = obstacle.rises ?? '+x';
+  const alongX = rises === '+x' || rises === '-x';
+  const run = alongX ? width : depth;
+  const across = alongX ? depth : width;
+  const geometry = useMemo(() => {
+    const profile = new THREE.Shape();
+    profile.moveTo(-run / 2, 0);
+    profile.lineTo(run / 2, 0);
+    profile.lineTo(run / 2, height);
+    profile.closePath();
+    const wedge = new THREE.ExtrudeGeometry(profile, { depth: across, bevelEnabled: false });
+    wedge.translate(0, 0, -across / 2);
+    return wedge;
+  }, [run, height, across]);
+
+  useEffect(() => () => geometry.dispose(), [geometry]);
+
+  return (
+    <mesh
+      geometry={geometry}
+      position={[obstacle.center[0], 0, obstacle.center[1]]}
+      rotation={[0, RAMP_YAW[rises], 0]}
+      castShadow
+      receiveShadow
+    >
+      <meshStandardMaterial color={OBSTACLE_COLORS.RAMP} roughness={0.85} metalness={0.2} />
+    </mesh>
+  );
+};
+
+/** The map's static geometry. Shots and enemy rounds are stopped by walls and crates in the map data, not by these meshes. */
+const ArenaGeometry: React.FC<{ map: ArenaMap }> = ({ map }) => (
+  <>
+    {map.obstacles.map((obstacle, index) =>
+      obstacle.kind === 'RAMP' ? (
+        <RampMesh key={index} obstacle={obstacle} />
+      ) : (
+        <mesh
+          key={index}
+          position={[obstacle.center[0], obstacle.size[1] / 2, obstacle.center[1]]}
+          castShadow
+          receiveShadow
+        >
+          <boxGeometry args={obstacle.size} />
+          <meshStandardMaterial color={OBSTACLE_COLORS[obstacle.kind]} roughness={0.85} metalness={0.2} />
+        </mesh>
+      ),
+    )}
+  </>
+);
+
+interface WeaponModel {
+  body: [number, number, number];
+  barrel: [number, number, number];
+  barrelOffset: Vec3;
+}
+
+const WEAPON_MODELS: Record<WeaponId, WeaponModel> = {
+  RIFLE: { body: [0.16, 0.25, 0.65], barrel: [0.12, 0.1, 0.9], barrelOffset: [0, 0.1, -0.35] },
+  SIDEARM: { body: [0.12, 0.22, 0.34], barrel: [0.09, 0.08, 0.4], barrelOffset: [0, 0.09, -0.2] },
+  SMG: { body: [0.15, 0.28, 0.48], barrel: [0.1, 0.09, 0.55], barrelOffset: [0, 0.09, -0.28] },
+  MARKSMAN: { body: [0.14, 0.24, 0.8], barrel: [0.08, 0.08, 1.2], barrelOffset: [0, 0.11, -0.5] },
+};
+
+const Weapon: React.FC<{ combat: CombatGesture; weapon: WeaponId; isReloading: boolean }> = ({
+  combat,
+  weapon,
+  isReloading,
+}) => {
   const weaponRef = useRef<THREE.Group>(null);
+  const model = WEAPON_MODELS[weapon];
+  const hasMagazine = WEAPON_PROFILES[weapon].magazineSize !== null;
 
   useFrame(() => {
     if (!weaponRef.current) return;
@@ -157,8 +246,11 @@ const Weapon: React.FC<{ combat: CombatGesture; isReloading: boolean }> = ({ com
 
     const targetRotationX = combat === CombatGesture.FIRE ? -0.42 : 0;
     weaponRef.current.rotation.x = THREE.MathUtils.lerp(weaponRef.current.rotation.x, targetRotationX, 0.24);
+    // A melee strike swings the weapon across the view like a rifle butt.
+    const targetRotationY = combat === CombatGesture.MELEE ? 0.9 : 0;
+    weaponRef.current.rotation.y = THREE.MathUtils.lerp(weaponRef.current.rotation.y, targetRotationY, 0.3);
 
-    if (isReloading) {
+    if (isReloading && hasMagazine) {
       weaponRef.current.rotation.z = THREE.MathUtils.lerp(weaponRef.current.rotation.z, 0.6, 0.08);
       weaponRef.current.position.y = THREE.MathUtils.lerp(weaponRef.current.position.y, -0.72, 0.08);
     } else {
@@ -169,11 +261,11 @@ const Weapon: React.FC<{ combat: CombatGesture; isReloading: boolean }> = ({ com
   return (
     <group ref={weaponRef}>
       <mesh>
-        <boxGeometry args={[0.16, 0.25, 0.65]} />
+        <boxGeometry args={model.body} />
         <meshStandardMaterial color="#171a20" metalness={1} roughness={0.09} />
       </mesh>
-      <mesh position={[0, 0.1, -0.35]}>
-        <boxGeometry args={[0.12, 0.1, 0.9]} />
+      <mesh position={model.barrelOffset}>
+        <boxGeometry args={model.barrel} />
         <meshStandardMaterial color="#0a0c11" metalness={0.8} roughness={0.3} />
       </mesh>
       <mesh position={[0, 0.155, -0.77]} rotation={[Math.PI / 2, 0, 0]}>
@@ -187,192 +279,179 @@ const Weapon: React.FC<{ combat: CombatGesture; isReloading: boolean }> = ({ com
 const GameLogic: React.FC<GameContainerProps> = ({
   handState,
   gameState,
+  arenaMap,
   onShoot,
   onEnemyDefeated,
   onTakeDamage,
   onWaveChange,
+  onWaveCleared,
+  onMelee,
+  onGrenadeThrown,
+  onPickup,
   isMotionReduced,
   isPerformanceMode,
+  isFreeAim,
+  worldRef,
 }) => {
-  const { camera, raycaster, scene } = useThree();
-  const enemiesRef = useRef<Target[]>([]);
-  const [renderEnemies, setRenderEnemies] = useState<Target[]>([]);
-  const spawnClockRef = useRef(0);
-  const syncClockRef = useRef(0);
-  const lastShotTimeRef = useRef(0);
-  const killsRef = useRef(0);
-  const waveRef = useRef(1);
-
-  const profile = DIFFICULTY_PROFILES[gameState.difficulty];
+  const { camera, raycaster } = useThree();
+  const rngRef = useRef<Rng | null>(null);
+  // Spread has its own stream so aiming never shifts the simulation's draws.
+  const spreadRngRef = useRef<Rng | null>(null);
+  const worldSeedRef = useRef<number | null>(null);
+  const [renderGrenades, setRenderGrenades] = useState<GrenadeThrow[]>([]);
+  const [renderExplosions, setRenderExplosions] = useState<Explosion[]>([]);
+  const [renderPickups, setRenderPickups] = useState<Pickup[]>([]);
+  const [renderProjectiles, setRenderProjectiles] = useState<EnemyProjectile[]>([]);
+  const getTimeMs = useRef<() => number>(() => worldRef.current?.timeMs ?? 0).current;
+  const getEnemies = useRef(() => worldRef.current?.enemies ?? []).current;
+  const playerStart = useMemo(() => getPlayerStart(arenaMap), [arenaMap]);
 
   useEffect(() => {
     if (gameState.status === GameStatus.MENU) {
-      enemiesRef.current = [];
-      setRenderEnemies([]);
-      spawnClockRef.current = 0;
-      syncClockRef.current = 0;
-      killsRef.current = 0;
-      waveRef.current = 1;
-      lastShotTimeRef.current = 0;
-      camera.position.set(0, PLAYER_HEIGHT, 7);
-      camera.lookAt(0, PLAYER_HEIGHT, -14);
+      worldRef.current = null;
+      rngRef.current = null;
+      spreadRngRef.current = null;
+      worldSeedRef.current = null;
+      setRenderGrenades([]);
+      setRenderExplosions([]);
+      setRenderPickups([]);
+      setRenderProjectiles([]);
+      camera.position.set(...playerStart);
+      camera.rotation.set(0, arenaMap.playerStart.yaw, 0, 'YXZ');
     }
-  }, [camera, gameState.status]);
+  }, [arenaMap, camera, gameState.status, playerStart]);
 
+  // Each match gets its own world, seeded from its start time so a session can be replayed.
+  const { sessionStartedAt } = gameState.stats;
   useEffect(() => {
-    if (gameState.status !== GameStatus.PLAYING) return;
-    if (enemiesRef.current.length > 0) return;
-
-    for (let i = 0; i < 3; i += 1) {
-      enemiesRef.current.push(createEnemy(camera.position.clone(), waveRef.current));
-    }
-    setRenderEnemies(enemiesRef.current.map(renderSafeCopy));
-  }, [camera.position, gameState.status]);
-
-  useFrame((state, delta) => {
-    if (gameState.status !== GameStatus.PLAYING || gameState.isGameOver) return;
-
-    const now = performance.now();
-    const playerForward = new THREE.Vector3();
-    camera.getWorldDirection(playerForward);
-    playerForward.y = 0;
-    playerForward.normalize();
-
-    const playerRight = new THREE.Vector3().crossVectors(playerForward, new THREE.Vector3(0, 1, 0)).normalize();
-    const speedModifier = handState.combat === CombatGesture.IRON_SIGHT ? 0.75 : 1;
-    const moveSpeed = BASE_MOVE_SPEED * delta * speedModifier;
-
-    if (handState.movement === MovementGesture.FORWARD) camera.position.add(playerForward.multiplyScalar(moveSpeed));
-    if (handState.movement === MovementGesture.BACKWARD) camera.position.add(playerForward.multiplyScalar(-moveSpeed));
-    if (handState.movement === MovementGesture.LEFT) camera.position.add(playerRight.multiplyScalar(moveSpeed));
-    if (handState.movement === MovementGesture.RIGHT) camera.position.add(playerRight.multiplyScalar(-moveSpeed));
-
-    camera.position.y = PLAYER_HEIGHT;
-    clampPosition(camera.position);
-
-    spawnClockRef.current += delta * 1000;
-    const spawnInterval = Math.max(1100, profile.spawnIntervalMs - Math.floor((waveRef.current - 1) * 110));
-    const dynamicMaxEnemies = profile.maxEnemies + Math.floor((waveRef.current - 1) / 2);
-
-    if (spawnClockRef.current >= spawnInterval && enemiesRef.current.length < dynamicMaxEnemies) {
-      enemiesRef.current.push(createEnemy(camera.position.clone(), waveRef.current));
-      spawnClockRef.current = 0;
-    }
-
-    const playerPosition = new THREE.Vector3(camera.position.x, PLAYER_HEIGHT, camera.position.z);
-    enemiesRef.current = enemiesRef.current.map((enemy) => {
-      if (enemy.state === EnemyAIState.DEAD) return enemy;
-
-      const enemyPosition = new THREE.Vector3(...enemy.position);
-      const targetPoint = new THREE.Vector3(...enemy.targetPoint);
-      const distanceToPlayer = enemyPosition.distanceTo(playerPosition);
-      const attackRange = 11 + Math.min(5, waveRef.current * 0.4);
-      const alertRange = 30 + Math.min(8, waveRef.current * 0.45);
-      const baseSpeed = profile.enemySpeedScale * delta;
-
-      let nextState = enemy.state;
-      if (distanceToPlayer <= attackRange) nextState = EnemyAIState.ATTACKING;
-      else if (distanceToPlayer <= alertRange) nextState = EnemyAIState.ALERT;
-      else nextState = EnemyAIState.PATROLLING;
-
-      if (nextState === EnemyAIState.PATROLLING) {
-        const toTarget = targetPoint.clone().sub(enemyPosition);
-        if (toTarget.length() < 1.5) {
-          const patrolTarget = enemyPosition.clone().add(
-            new THREE.Vector3((Math.random() - 0.5) * 24, 0, (Math.random() - 0.5) * 24),
-          );
-          clampPosition(patrolTarget);
-          enemy.targetPoint = [patrolTarget.x, PLAYER_HEIGHT, patrolTarget.z];
-        } else {
-          toTarget.normalize();
-          enemyPosition.add(toTarget.multiplyScalar(baseSpeed * 2.2));
-        }
-      } else if (nextState === EnemyAIState.ALERT) {
-        const towardPlayer = playerPosition.clone().sub(enemyPosition).normalize();
-        const sideSearch = new THREE.Vector3(0, 1, 0)
-          .cross(towardPlayer)
-          .multiplyScalar(Math.sin(state.clock.elapsedTime * 2 + enemy.strafeSeed) * 0.2);
-        towardPlayer.add(sideSearch).normalize();
-        enemyPosition.add(towardPlayer.multiplyScalar(baseSpeed * 4));
-      } else if (nextState === EnemyAIState.ATTACKING) {
-        const towardPlayer = playerPosition.clone().sub(enemyPosition).normalize();
-        const tangent = new THREE.Vector3(0, 1, 0).cross(towardPlayer).normalize();
-        const strafeDirection = Math.sin(state.clock.elapsedTime * 1.8 + enemy.strafeSeed) > 0 ? 1 : -1;
-        let approachFactor = 0;
-        if (distanceToPlayer > attackRange + 2) approachFactor = 1;
-        if (distanceToPlayer < attackRange - 2) approachFactor = -1;
-
-        const velocity = tangent.multiplyScalar(strafeDirection).add(towardPlayer.multiplyScalar(approachFactor));
-        velocity.normalize();
-        enemyPosition.add(velocity.multiplyScalar(baseSpeed * 5.6));
-
-        if (now - enemy.lastActionTime > profile.enemyAttackCooldownMs) {
-          onTakeDamage(profile.enemyDamage);
-          enemy.lastActionTime = now;
-        }
-      }
-
-      clampPosition(enemyPosition);
-      enemy.position = [enemyPosition.x, PLAYER_HEIGHT, enemyPosition.z];
-      enemy.state = nextState;
-      return enemy;
+    if (!isMatchRunning(gameState.status) || sessionStartedAt === null) return;
+    if (worldSeedRef.current === sessionStartedAt) return;
+
+    const rng = createSeededRng(sessionStartedAt);
+    rngRef.current = rng;
+    spreadRngRef.current = createSeededRng(sessionStartedAt + 1);
+    worldSeedRef.current = sessionStartedAt;
+    worldRef.current = createWorld(gameState.difficulty, rng, arenaMap);
+    setRenderGrenades([]);
+    setRenderExplosions([]);
+    setRenderProjectiles([]);
+  }, [arenaMap, gameState.difficulty, gameState.status, sessionStartedAt]);
+
+  /**
+   * The enemy under the crosshair, tested against the enemies' colliders
+   * rather than the rendered meshes; walls or crates in front of it block the
+   * shot. The ray strays from the crosshair by the weapon's spread.
+   */
+  const findAimedHit = (world: World): AimedHit | null => {
+    const aimPoint = isFreeAim ? handState.aim : CENTER_AIM;
+    const spreadRng = spreadRngRef.current;
+    const stray = spreadRng ? sampleSpread(WEAPON_PROFILES[gameState.weapon].spread, spreadRng) : { x: 0, y: 0 };
+    const perspective = camera as THREE.PerspectiveCamera;
+    const halfHeight = Math.tan(THREE.MathUtils.degToRad(perspective.fov) / 2);
+    raycaster.setFromCamera(
+      new THREE.Vector2(
+        aimPoint.x + Math.tan(stray.x) / (halfHeight * perspective.aspect),
+        aimPoint.y + Math.tan(stray.y) / halfHeight,
+      ),
+      camera,
+    );
+    const { origin, direction } = raycaster.ray;
+    const hit = findShotHit(arenaMap, buildEnemyColliders(world.enemies), {
+      origin: origin.toArray(),
+      direction: direction.toArray(),
     });
+    return hit && { enemyId: hit.enemyId, distance: hit.distance, weakSpot: hit.part === 'WEAK_SPOT' };
+  };
 
-    if (handState.combat === CombatGesture.FIRE && gameState.ammo > 0 && !gameState.isReloading) {
-      if (now - lastShotTimeRef.current > WEAPON_COOLDOWN_MS) {
-        lastShotTimeRef.current = now;
-        raycaster.setFromCamera(new THREE.Vector2(0, 0), camera);
-        const intersections = raycaster.intersectObjects(scene.children, true);
-        let hitEnemyId: string | null = null;
-
-        for (const intersection of intersections) {
-          let object: THREE.Object3D | null = intersection.object;
-          while (object) {
-            if (object.userData?.targetId) {
-              hitEnemyId = object.userData.targetId;
-              break;
-            }
-            object = object.parent;
-          }
-          if (hitEnemyId) break;
-        }
-
-        if (hitEnemyId) {
-          enemiesRef.current = enemiesRef.current.filter((enemy) => enemy.id !== hitEnemyId);
-          killsRef.current += 1;
-          const score = Math.round(320 * profile.scoreMultiplier * (1 + (waveRef.current - 1) * 0.18));
-          onEnemyDefeated(score);
-
-          const expectedWave = Math.floor(killsRef.current / WAVE_ENEMY_STEP) + 1;
-          if (expectedWave > waveRef.current) {
-            waveRef.current = expectedWave;
-            onWaveChange(expectedWave);
-          }
-          onShoot(true);
-        } else {
-          onShoot(false);
-        }
-      }
+  const dispatchEvent = (event: SimulationEvent) => {
+    switch (event.type) {
+      case 'SHOT':
+        onShoot(event.didHit);
+        break;
+      case 'ENEMY_DEFEATED':
+        onEnemyDefeated(event.points, event.hit);
+        break;
+      case 'PLAYER_DAMAGED':
+        onTakeDamage(event.amount);
+        break;
+      case 'WAVE_STARTED':
+        onWaveChange(event.wave);
+        break;
+      case 'WAVE_CLEARED':
+        onWaveCleared(event.wave, event.nextWave, event.bossIncoming);
+        break;
+      case 'MELEE':
+        onMelee(event.didHit);
+        break;
+      case 'GRENADE_THROWN':
+        onGrenadeThrown();
+        break;
+      case 'PICKUP_COLLECTED':
+        onPickup(event.kind);
+        break;
+      case 'ENEMY_HIT':
+      case 'ENEMY_DETONATED':
+      case 'PROJECTILE_FIRED':
+      case 'SHIELD_BLOCKED':
+      case 'GRENADE_EXPLODED':
+        break;
     }
+  };
 
-    syncClockRef.current += delta;
-    if (syncClockRef.current >= ENEMY_SYNC_INTERVAL_SECONDS) {
-      syncClockRef.current = 0;
-      setRenderEnemies(enemiesRef.current.map(renderSafeCopy));
-    }
+  useFrame((_, delta) => {
+    const previous = worldRef.current;
+    const rng = rngRef.current;
+    if (!isMatchRunning(gameState.status) || gameState.isGameOver || !previous || !rng) return;
+
+    const { world, events } = simulateStep(
+      previous,
+      {
+        hand: handState,
+        weapon: gameState.weapon,
+        canFire: canFireWeapon(gameState),
+        aimedHit: handState.combat === CombatGesture.FIRE ? findAimedHit(previous) : null,
+      },
+      delta,
+      rng,
+    );
+    worldRef.current = world;
+
+    camera.position.set(...world.player.position);
+    camera.rotation.set(world.player.pitch, world.player.yaw, 0, 'YXZ');
+    events.forEach(dispatchEvent);
+
+    if (world.grenades !== previous.grenades) setRenderGrenades(world.grenades);
+    if (world.explosions !== previous.explosions) setRenderExplosions(world.explosions);
+    if (world.pickups !== previous.pickups) setRenderPickups(world.pickups);
+    if (world.projectiles !== previous.projectiles) setRenderProjectiles(world.projectiles);
   });
 
   return (
     <>
-      <PerspectiveCamera makeDefault position={[0, PLAYER_HEIGHT, 7]} />
-      {!gameState.isGameOver && <Weapon combat={handState.combat} isReloading={gameState.isReloading} />}
-
-      {renderEnemies.map((enemy) => (
-        <React.Fragment key={enemy.id}>
-          <EnemyDrone enemy={enemy} isMotionReduced={isMotionReduced} />
-          {enemy.state === EnemyAIState.PATROLLING ? <PatrolPath start={enemy.position} end={enemy.targetPoint} /> : null}
-        </React.Fragment>
+      <PerspectiveCamera makeDefault position={playerStart} />
+      {!gameState.isGameOver && (
+        <Weapon combat={handState.combat} weapon={gameState.weapon} isReloading={gameState.isReloading} />
+      )}
+
+      {renderGrenades.map((grenade) => (
+        <GrenadeMesh key={grenade.id} grenade={grenade} getTimeMs={getTimeMs} />
+      ))}
+      {renderProjectiles.map((projectile) => (
+        <Tracer key={projectile.id} projectile={projectile} getTimeMs={getTimeMs} />
       ))}
+      {renderPickups.map((pickup) => (
+        <PickupMarker key={pickup.id} pickup={pickup} isMotionReduced={isMotionReduced} />
+      ))}
+      {renderExplosions.map((explosion) => (
+        <ExplosionFlash
+          key={explosion.id}
+          explosion={explosion}
+          isMotionReduced={isMotionReduced}
+          getTimeMs={getTimeMs}
+        />
+      ))}
+
+      <EnemySwarm getEnemies={getEnemies} getTimeMs={getTimeMs} isMotionReduced={isMotionReduced} />
 
       <Sky sunPosition={[100, 18, 100]} />
       <Stars
@@ -397,6 +476,7 @@ const GameLogic: React.FC<GameContainerProps> = ({
         <meshStandardMaterial color="#0f131b" roughness={1} metalness={0.04} />
       </mesh>
       <gridHelper args={[320, 180, '#2b3f5a', '#101822']} position={[0, 0.01, 0]} />
+      <ArenaGeometry map={arenaMap} />
 
       <mesh rotation={[-Math.PI / 2, 0, 0]} position={[0, -0.45, 0]}>
         <ringGeometry args={[105, 165, 64]} />
@@ -412,6 +492,7 @@ const GameContainer: React.FC<GameContainerProps> = (props) => {
     : props.handState.combat === CombatGesture.AIM || props.handState.combat === CombatGesture.IRON_SIGHT
       ? 'crosshair-aim'
       : 'crosshair-idle';
+  const aimPoint = props.isFreeAim ? props.handState.aim : CENTER_AIM;
 
   return (
     <div className="game-canvas-shell" aria-label="Cena 3D do jogo">
@@ -422,7 +503,11 @@ const GameContainer: React.FC<GameContainerProps> = (props) => {
       </Canvas>
 
       {!props.gameState.isGameOver ? (
-        <div className="crosshair-root" aria-hidden>
+        <div
+          className="crosshair-root"
+          style={{ transform: `translate(${aimPoint.x * 50}%, ${-aimPoint.y * 50}%)` }}
+          aria-hidden
+        >
           <div className={`crosshair-ring ${crosshairStateClass}`}>
             <span />
           </div>
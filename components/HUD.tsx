@@ -1,13 +1,26 @@
 import React from 'react';
-import { DIFFICULTY_PROFILES } from '../config/gameConfig';
-import { CombatGesture, GameState, HandState } from '../types';
+import { DIFFICULTY_PROFILES, LOADOUTS, PICKUP_PROFILES, WEAPON_PROFILES } from '../config/gameConfig';
+import { CONTROL_SCHEME_LABELS } from '../domain/control-scheme';
+import { getAbilityCooldownRemaining, getPowerUpRemaining, World } from '../domain/simulation';
+import { getActiveAmmo } from '../domain/weapons';
+import { CombatGesture, ControlScheme, FireMode, GameState, HandState, PowerUpKind } from '../types';
 
 interface HUDProps {
   gameState: GameState;
   handState: HandState;
+  controlScheme: ControlScheme;
   sessionDurationMs: number;
+  /** The match as of the session timer's last tick, for timers on the simulation clock; null before it starts. */
+  world: World | null;
 }
 
+const FIRE_MODE_LABELS: Record<FireMode, string> = {
+  AUTO: 'Automática',
+  SEMI: 'Semiautomática',
+};
+
+const POWER_UPS: readonly PowerUpKind[] = ['DAMAGE_BOOST', 'SHIELD'];
+
 const formatTime = (milliseconds: number) => {
   const totalSeconds = Math.floor(milliseconds / 1000);
   const minutes = Math.floor(totalSeconds / 60);
@@ -15,17 +28,36 @@ const formatTime = (milliseconds: number) => {
   return `${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
 };
 
-const HUD: React.FC<HUDProps> = ({ gameState, handState, sessionDurationMs }) => {
+const HUD: React.FC<HUDProps> = ({ gameState, handState, controlScheme, sessionDurationMs, world }) => {
   const difficulty = DIFFICULTY_PROFILES[gameState.difficulty];
+  const weapon = WEAPON_PROFILES[gameState.weapon];
+  const grenadeCooldownMs = world ? getAbilityCooldownRemaining(world, 'grenade') : 0;
+  const handLabels = CONTROL_SCHEME_LABELS[controlScheme];
   const healthRatio = Math.max(0, Math.min(1, gameState.health / 100));
-  const ammoRatio = Math.max(0, Math.min(1, gameState.ammo / gameState.maxAmmo));
+  const ammo = getActiveAmmo(gameState);
+  const ammoRatio = ammo === null ? 1 : Math.max(0, Math.min(1, ammo / (weapon.magazineSize ?? 1)));
   const accuracy = gameState.stats.shotsFired > 0
     ? (gameState.stats.shotsHit / gameState.stats.shotsFired) * 100
     : 0;
   const lowHealth = gameState.health <= 28;
+  const activePowerUps = POWER_UPS.map((powerUp) => ({
+    powerUp,
+    remainingMs: world ? getPowerUpRemaining(world, powerUp) : 0,
+  })).filter(({ remainingMs }) => remainingMs > 0);
 
   return (
     <section className="hud-layer" aria-label="Painel tático" aria-live="off">
+      {gameState.intermission ? (
+        <div className={gameState.intermission.bossIncoming ? 'wave-banner boss' : 'wave-banner'}>
+          <small>Onda {gameState.intermission.clearedWave} concluída</small>
+          <strong>
+            {gameState.intermission.bossIncoming
+              ? `Chefe a caminho na onda ${gameState.intermission.nextWave}`
+              : `Prepare-se para a onda ${gameState.intermission.nextWave}`}
+          </strong>
+          <p>Recarregue e colete itens antes do próximo ataque.</p>
+        </div>
+      ) : null}
       <div className="hud-top-row">
         <article className="hud-card score-card">
           <small>Combat Score</small>
@@ -38,13 +70,21 @@ const HUD: React.FC<HUDProps> = ({ gameState, handState, sessionDurationMs }) =>
         <article className="hud-card signal-card">
           <div className="signal-grid">
             <div className={handState.leftHandPresent ? 'signal-item active-left' : 'signal-item'}>
-              <small>Mão Esquerda</small>
+              <small>{handLabels.movementHand}</small>
               <strong>{handState.movement}</strong>
             </div>
             <div className={handState.rightHandPresent ? 'signal-item active-right' : 'signal-item'}>
-              <small>Mão Direita</small>
+              <small>{handLabels.combatHand}</small>
               <strong>{handState.combat}</strong>
             </div>
+            <div className="signal-item">
+              <small>Arma</small>
+              <strong>{weapon.label}</strong>
+            </div>
+            <div className={grenadeCooldownMs === 0 ? 'signal-item ready' : 'signal-item'}>
+              <small>Granada</small>
+              <strong>{grenadeCooldownMs === 0 ? 'Pronta' : `${Math.ceil(grenadeCooldownMs / 1000)} s`}</strong>
+            </div>
           </div>
         </article>
       </div>
@@ -59,23 +99,50 @@ const HUD: React.FC<HUDProps> = ({ gameState, handState, sessionDurationMs }) =>
             <div className="meter-fill health-fill" style={{ width: `${healthRatio * 100}%` }} />
           </div>
           <p>{lowHealth ? 'Estado crítico: evasão imediata recomendada.' : 'Condição estável para avanço.'}</p>
+          {activePowerUps.length > 0 ? (
+            <ul className="power-ups" aria-label="Bônus ativos">
+              {activePowerUps.map(({ powerUp, remainingMs }) => (
+                <li key={powerUp} style={{ borderColor: PICKUP_PROFILES[powerUp].color }}>
+                  <span>{PICKUP_PROFILES[powerUp].label}</span>
+                  <strong>{Math.ceil(remainingMs / 1000)} s</strong>
+                </li>
+              ))}
+            </ul>
+          ) : null}
         </article>
 
         <article className="hud-card ammo-card">
           <header>
-            <small>Munição</small>
-            <strong>{gameState.isReloading ? 'Recarregando...' : `${gameState.ammo}/${gameState.maxAmmo}`}</strong>
+            <small>
+              {weapon.label} • {FIRE_MODE_LABELS[weapon.fireMode]}
+            </small>
+            <strong>
+              {ammo === null ? '∞' : gameState.isReloading ? 'Recarregando...' : `${ammo}/${weapon.magazineSize}`}
+            </strong>
           </header>
           <div
             className="meter-track"
             role="progressbar"
             aria-label="Munição disponível"
             aria-valuemin={0}
-            aria-valuemax={gameState.maxAmmo}
-            aria-valuenow={gameState.ammo}
+            aria-valuemax={weapon.magazineSize ?? 1}
+            aria-valuenow={ammo ?? 1}
           >
             <div className="meter-fill ammo-fill" style={{ width: `${ammoRatio * 100}%` }} />
           </div>
+          <ol className="loadout-slots" aria-label="Armas do equipamento">
+            {LOADOUTS[gameState.loadout].weapons.map((slot, index) => {
+              const slotAmmo = gameState.ammo[slot];
+              return (
+                <li key={slot} className={slot === gameState.weapon ? 'active' : undefined}>
+                  <span>
+                    {index + 1}. {WEAPON_PROFILES[slot].label}
+                  </span>
+                  <span>{slotAmmo === undefined ? '∞' : slotAmmo}</span>
+                </li>
+              );
+            })}
+          </ol>
           <p>{gameState.isReloading ? 'Aguarde conclusão do ciclo.' : 'Cadência ativa.'}</p>
         </article>
 
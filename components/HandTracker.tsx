@@ -1,112 +1,379 @@
 
 import React, { useRef, useEffect, useState } from 'react';
-import { HandState, MovementGesture, CombatGesture, TrackerCalibration } from '../types';
+import { AimPoint, CombatGesture, ControlScheme, HandState, MovementGesture, TrackerCalibration } from '../types';
 import { DEFAULT_HAND_STATE } from '../config/gameConfig';
+import { isMovementHand } from '../domain/control-scheme';
+import { diagnoseCombat, diagnoseMovement, HandDiagnostics } from '../domain/gesture-diagnostics';
+import {
+  createGestureLatch,
+  getCombatHysteresis,
+  getDefaultHysteresis,
+  getMovementHysteresis,
+  GestureLatchStatus,
+} from '../domain/gesture-hysteresis';
+import { handStatesEqual } from '../domain/input-state';
+import {
+  classifyCombat,
+  classifyLook,
+  classifyMovementVector,
+  CombatContext,
+  movementGestureFromVector,
+  projectAimPoint,
+  quantizeAimPoint,
+  smoothAimPoint,
+  TrackedHands,
+} from '../domain/gesture-classifier';
+import {
+  createLandmarkRecorder,
+  getReplayFrameIndex,
+  HandLandmarkResults,
+  LandmarkRecorder,
+  LandmarkRecording,
+} from '../domain/landmark-recording';
+import { createHandMotionTracker } from '../domain/hand-motion';
+import { createLandmarkFilter, OneEuroParams } from '../domain/one-euro-filter';
+import {
+  createHandInference,
+  createMainThreadInference,
+  HandInferenceEngine,
+  InferenceMode,
+} from '../services/hand-inference';
 
 interface HandTrackerProps {
   onUpdate: (state: HandState) => void;
   onError?: (message: string) => void;
   calibration: TrackerCalibration;
+  controlScheme: ControlScheme;
   isPaused: boolean;
+  replay?: LandmarkRecording | null;
+  isRecording?: boolean;
+  onRecordingComplete?: (recording: LandmarkRecording) => void;
+  onLandmarks?: (hands: TrackedHands) => void;
+  /** Draws each classifier rule with its measured value and threshold over the preview. */
+  showDiagnostics?: boolean;
 }
 
-const statesEqual = (a: HandState | null, b: HandState) => {
-  if (!a) return false;
-  return (
-    a.movement === b.movement &&
-    a.combat === b.combat &&
-    a.leftHandPresent === b.leftHandPresent &&
-    a.rightHandPresent === b.rightHandPresent
+const MOVEMENT_HAND_COLOR = '#ff8b6c';
+const COMBAT_HAND_COLOR = '#46b5ff';
+/** The inference badge re-renders at this rate at most, whatever the camera frame rate. */
+const INFERENCE_STATS_INTERVAL_MS = 500;
+const INFERENCE_EMA_WEIGHT = 0.1;
+
+interface InferenceStats {
+  mode: InferenceMode;
+  inferenceMs: number;
+}
+
+interface TrackerResults extends HandLandmarkResults {
+  image?: CanvasImageSource;
+}
+
+const DIAGNOSTICS_PASS_COLOR = '#5be49b';
+const DIAGNOSTICS_FAIL_COLOR = '#ff6f61';
+const DIAGNOSTICS_PENDING_COLOR = '#ffd166';
+const DIAGNOSTICS_TEXT_COLOR = '#f3f6ff';
+const DIAGNOSTICS_FONT = '12px ui-monospace, SFMono-Regular, Menlo, monospace';
+const DIAGNOSTICS_LINE_HEIGHT = 15;
+const DIAGNOSTICS_PANEL_WIDTH = 300;
+const DIAGNOSTICS_TOP = 44;
+
+interface DiagnosticsPanel {
+  title: string;
+  diagnostics: HandDiagnostics<string> | null;
+  latchLabel: string;
+  latch: GestureLatchStatus<string>;
+}
+
+const formatLatch = (label: string, { current, pending, pendingFrames, requiredFrames }: GestureLatchStatus<string>) =>
+  pending === null ? `${label}: ${current}` : `${label}: ${current} → ${pending} ${pendingFrames}/${requiredFrames}`;
+
+const describePresence = (status: GestureLatchStatus<boolean>): GestureLatchStatus<string> => {
+  const toLabel = (present: boolean) => (present ? 'presente' : 'ausente');
+  return { ...status, current: toLabel(status.current), pending: status.pending === null ? null : toLabel(status.pending) };
+};
+
+/**
+ * Writes one panel of rule checks: the rule and its threshold, then every
+ * measurement coloured by whether it satisfies the rule.
+ */
+const drawDiagnosticsPanel = (ctx: CanvasRenderingContext2D, left: number, panel: DiagnosticsPanel) => {
+  const lines = panel.diagnostics ? 2 + panel.diagnostics.checks.length * 2 : 2;
+  ctx.fillStyle = 'rgba(9, 11, 18, 0.72)';
+  ctx.fillRect(left, DIAGNOSTICS_TOP, DIAGNOSTICS_PANEL_WIDTH, lines * DIAGNOSTICS_LINE_HEIGHT + 8);
+
+  let y = DIAGNOSTICS_TOP + DIAGNOSTICS_LINE_HEIGHT;
+  const x = left + 8;
+  const writeLine = (text: string, color = DIAGNOSTICS_TEXT_COLOR) => {
+    ctx.fillStyle = color;
+    ctx.fillText(text, x, y);
+    y += DIAGNOSTICS_LINE_HEIGHT;
+  };
+
+  writeLine(panel.diagnostics ? `${panel.title}: ${panel.diagnostics.gesture}` : `${panel.title}: sem mão`);
+  writeLine(
+    formatLatch(panel.latchLabel, panel.latch),
+    panel.latch.pending === null ? DIAGNOSTICS_TEXT_COLOR : DIAGNOSTICS_PENDING_COLOR,
   );
+  if (!panel.diagnostics) return;
+
+  panel.diagnostics.checks.forEach((check) => {
+    const sign = check.comparison === 'below' ? '<' : '>';
+    writeLine(`${check.label} ${sign} ${check.threshold.toFixed(2)}`, check.passed ? DIAGNOSTICS_PASS_COLOR : DIAGNOSTICS_FAIL_COLOR);
+    let cursor = x + 10;
+    check.measurements.forEach((entry) => {
+      const text = `${entry.label} ${entry.value.toFixed(2)}`;
+      ctx.fillStyle = entry.passed ? DIAGNOSTICS_PASS_COLOR : DIAGNOSTICS_FAIL_COLOR;
+      ctx.fillText(text, cursor, y);
+      cursor += ctx.measureText(text).width + 10;
+    });
+    y += DIAGNOSTICS_LINE_HEIGHT;
+  });
 };
 
-const HandTracker: React.FC<HandTrackerProps> = ({ onUpdate, onError, calibration, isPaused }) => {
+const toFilterParams = (calibration: TrackerCalibration): OneEuroParams => ({
+  minCutoff: calibration.filterMinCutoff,
+  beta: calibration.filterBeta,
+  derivativeCutoff: calibration.filterDerivativeCutoff,
+});
+
+const HandTracker: React.FC<HandTrackerProps> = ({
+  onUpdate,
+  onError,
+  calibration,
+  controlScheme,
+  isPaused,
+  replay = null,
+  isRecording = false,
+  onRecordingComplete,
+  onLandmarks,
+  showDiagnostics = false,
+}) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const calibrationRef = useRef<TrackerCalibration>(calibration);
+  const controlSchemeRef = useRef<ControlScheme>(controlScheme);
   const isPausedRef = useRef(isPaused);
+  const showDiagnosticsRef = useRef(showDiagnostics);
   const stableStateRef = useRef<HandState | null>(null);
-  const candidateStateRef = useRef<HandState | null>(null);
-  const candidateFramesRef = useRef(0);
+  // Landmarks are filtered per role; gestures then pass through latches with per-gesture hysteresis.
+  const filtersRef = useRef({
+    movement: createLandmarkFilter(() => toFilterParams(calibrationRef.current)),
+    combat: createLandmarkFilter(() => toFilterParams(calibrationRef.current)),
+  });
+  const latchesRef = useRef({
+    combat: createGestureLatch(DEFAULT_HAND_STATE.combat, (gesture) =>
+      getCombatHysteresis(gesture, calibrationRef.current),
+    ),
+    movement: createGestureLatch(DEFAULT_HAND_STATE.movement, (gesture) =>
+      getMovementHysteresis(gesture, calibrationRef.current),
+    ),
+    movementPresent: createGestureLatch(false, () => getDefaultHysteresis(calibrationRef.current)),
+    combatPresent: createGestureLatch(false, () => getDefaultHysteresis(calibrationRef.current)),
+  });
+  const motionRef = useRef(createHandMotionTracker());
+  const aimRef = useRef<AimPoint>(DEFAULT_HAND_STATE.aim);
   const [cameraActive, setCameraActive] = useState(false);
+  const [inferenceStats, setInferenceStats] = useState<InferenceStats | null>(null);
+  const inferenceMsRef = useRef<number | null>(null);
   const streamRef = useRef<MediaStream | null>(null);
+  const recorderRef = useRef<LandmarkRecorder | null>(null);
+  const onRecordingCompleteRef = useRef(onRecordingComplete);
+  const onLandmarksRef = useRef(onLandmarks);
 
   useEffect(() => {
     calibrationRef.current = calibration;
   }, [calibration]);
 
+  useEffect(() => {
+    controlSchemeRef.current = controlScheme;
+  }, [controlScheme]);
+
+  useEffect(() => {
+    onRecordingCompleteRef.current = onRecordingComplete;
+  }, [onRecordingComplete]);
+
+  useEffect(() => {
+    onLandmarksRef.current = onLandmarks;
+  }, [onLandmarks]);
+
+  useEffect(() => {
+    if (!isRecording) return;
+    const recorder = createLandmarkRecorder();
+    recorderRef.current = recorder;
+    return () => {
+      recorderRef.current = null;
+      if (recorder.frameCount > 0) onRecordingCompleteRef.current?.(recorder.finish());
+    };
+  }, [isRecording]);
+
   useEffect(() => {
     isPausedRef.current = isPaused;
   }, [isPaused]);
 
   useEffect(() => {
-    if (!videoRef.current || !canvasRef.current) return;
-    if (!window.Hands) {
-      onError?.('MediaPipe Hands não foi carregado. Verifique o script no index.html.');
-      return;
-    }
+    showDiagnosticsRef.current = showDiagnostics;
+  }, [showDiagnostics]);
 
-    const hands = new window.Hands({
-      locateFile: (file: string) => `https://cdn.jsdelivr.net/npm/@mediapipe/hands/${file}`
-    });
-
-    hands.setOptions({
-      maxNumHands: 2,
-      modelComplexity: 1,
-      minDetectionConfidence: 0.5,
-      minTrackingConfidence: 0.5
-    });
+  useEffect(() => {
+    if (!videoRef.current || !canvasRef.current) return;
 
-    const onResults = (results: any) => {
+    const onResults = (results: TrackerResults, timestamp = performance.now()) => {
       if (!canvasRef.current) return;
       const ctx = canvasRef.current.getContext('2d');
       if (!ctx) return;
+      recorderRef.current?.capture(results, performance.now());
       ctx.clearRect(0, 0, canvasRef.current.width, canvasRef.current.height);
-      ctx.drawImage(results.image, 0, 0, canvasRef.current.width, canvasRef.current.height);
+      if (results.image) {
+        ctx.drawImage(results.image, 0, 0, canvasRef.current.width, canvasRef.current.height);
+      } else {
+        ctx.fillStyle = '#0b1221';
+        ctx.fillRect(0, 0, canvasRef.current.width, canvasRef.current.height);
+      }
 
-      let newState: HandState = { ...DEFAULT_HAND_STATE };
+      const newState: HandState = { ...DEFAULT_HAND_STATE };
+      let aimTarget = DEFAULT_HAND_STATE.aim;
+      let rawCombat = DEFAULT_HAND_STATE.combat;
+      let rawMovement = DEFAULT_HAND_STATE.movement;
+      const trackedHands: TrackedHands = { movement: null, combat: null };
+      const filters = filtersRef.current;
+      const latches = latchesRef.current;
+      const isDiagnosing = showDiagnosticsRef.current;
+      let movementDiagnostics: HandDiagnostics<MovementGesture> | null = null;
+      let combatDiagnostics: HandDiagnostics<CombatGesture> | null = null;
 
       if (results.multiHandLandmarks && results.multiHandedness) {
-        results.multiHandLandmarks.forEach((landmarks: any, index: number) => {
-          const handedness = results.multiHandedness[index].label;
-          const strokeColor = handedness === 'Right' ? '#46b5ff' : '#ff8b6c';
+        results.multiHandLandmarks.forEach((landmarks) => {
+          const drivesMovement = isMovementHand(landmarks[0].x, controlSchemeRef.current);
+          const strokeColor = drivesMovement ? MOVEMENT_HAND_COLOR : COMBAT_HAND_COLOR;
           window.drawConnectors(ctx, landmarks, window.HAND_CONNECTIONS, { color: strokeColor, lineWidth: 2 });
           window.drawLandmarks(ctx, landmarks, { color: '#f3f6ff', lineWidth: 1, radius: 2 });
-          const wrist = landmarks[0];
-
-          if (wrist.x < 0.5) {
-            newState.leftHandPresent = true;
-            newState.movement = detectMovement(landmarks);
-          } else {
-            newState.rightHandPresent = true;
-            newState.combat = detectCombat(landmarks);
-          }
+
+          if (drivesMovement) trackedHands.movement = filters.movement.filter(landmarks, timestamp);
+          else trackedHands.combat = filters.combat.filter(landmarks, timestamp);
         });
       }
 
-      const previousCandidate = candidateStateRef.current;
-      if (statesEqual(previousCandidate, newState)) {
-        candidateFramesRef.current += 1;
+      if (trackedHands.movement) {
+        newState.moveVector = classifyMovementVector(trackedHands.movement, calibrationRef.current);
+        rawMovement = movementGestureFromVector(newState.moveVector);
+        if (isDiagnosing) movementDiagnostics = diagnoseMovement(trackedHands.movement, calibrationRef.current);
+      }
+
+      if (trackedHands.combat) {
+        // Two-handed and swipe gestures need the other hand and the wrist speed, not just the pose.
+        const context: CombatContext = {
+          motion: motionRef.current.update(trackedHands.combat, timestamp),
+          otherHand: trackedHands.movement,
+        };
+        rawCombat = classifyCombat(trackedHands.combat, calibrationRef.current, context);
+        newState.look = classifyLook(trackedHands.combat, calibrationRef.current);
+        aimTarget = projectAimPoint(trackedHands.combat, calibrationRef.current);
+        if (isDiagnosing) combatDiagnostics = diagnoseCombat(trackedHands.combat, calibrationRef.current, context);
       } else {
-        candidateStateRef.current = newState;
-        candidateFramesRef.current = 1;
+        motionRef.current.reset();
       }
 
-      const smoothing = Math.max(1, Math.floor(calibrationRef.current.smoothingFrames));
-      if (candidateFramesRef.current >= smoothing && !statesEqual(stableStateRef.current, newState)) {
+      if (!trackedHands.movement) filters.movement.reset();
+      if (!trackedHands.combat) filters.combat.reset();
+      onLandmarksRef.current?.(trackedHands);
+
+      newState.combat = latches.combat.update(rawCombat);
+      newState.movement = latches.movement.update(rawMovement);
+      // The vector stays analog while moving, but nothing moves until a direction has latched.
+      if (newState.movement === MovementGesture.STOP) newState.moveVector = DEFAULT_HAND_STATE.moveVector;
+      newState.leftHandPresent = latches.movementPresent.update(Boolean(trackedHands.movement));
+      newState.rightHandPresent = latches.combatPresent.update(Boolean(trackedHands.combat));
+
+      if (isDiagnosing) {
+        // The preview is mirrored with CSS; flip the text back so it reads left to right.
+        const { width } = canvasRef.current;
+        ctx.save();
+        ctx.setTransform(-1, 0, 0, 1, width, 0);
+        ctx.font = DIAGNOSTICS_FONT;
+        drawDiagnosticsPanel(ctx, 8, {
+          title: 'Movimento',
+          diagnostics: movementDiagnostics,
+          latchLabel: 'Presença',
+          latch: describePresence(latches.movementPresent.getStatus()),
+        });
+        drawDiagnosticsPanel(ctx, width - DIAGNOSTICS_PANEL_WIDTH - 8, {
+          title: 'Combate',
+          diagnostics: combatDiagnostics,
+          latchLabel: 'Gesto',
+          latch: latches.combat.getStatus(),
+        });
+        ctx.restore();
+      }
+
+      aimRef.current = smoothAimPoint(aimRef.current, aimTarget, calibrationRef.current.aimSmoothing);
+      newState.aim = quantizeAimPoint(aimRef.current);
+
+      if (!handStatesEqual(stableStateRef.current, newState)) {
         stableStateRef.current = { ...newState };
         onUpdate(newState);
       }
     };
 
-    hands.onResults(onResults);
-
     let animationFrameId: number;
     let isDisposed = false;
+    let lastStatsUpdate = 0;
+
+    const recordInference = (mode: InferenceMode, inferenceMs: number) => {
+      const previous = inferenceMsRef.current;
+      inferenceMsRef.current = previous === null ? inferenceMs : previous + (inferenceMs - previous) * INFERENCE_EMA_WEIGHT;
+      const now = performance.now();
+      if (now - lastStatsUpdate < INFERENCE_STATS_INTERVAL_MS) return;
+      lastStatsUpdate = now;
+      setInferenceStats({ mode, inferenceMs: inferenceMsRef.current });
+    };
     let pausedTickTimeout: number | null = null;
 
+    const resetSmoothing = () => {
+      stableStateRef.current = null;
+      filtersRef.current.movement.reset();
+      filtersRef.current.combat.reset();
+      latchesRef.current.combat.reset();
+      latchesRef.current.movement.reset();
+      latchesRef.current.movementPresent.reset();
+      latchesRef.current.combatPresent.reset();
+      motionRef.current.reset();
+      aimRef.current = DEFAULT_HAND_STATE.aim;
+    };
+
+    if (replay) {
+      let playbackClock = 0;
+      let lastTick: number | null = null;
+      let lastFrameIndex = -1;
+
+      const replayFrame = (timestamp: number) => {
+        if (isDisposed) return;
+        const elapsed = lastTick === null ? 0 : timestamp - lastTick;
+        lastTick = timestamp;
+        if (!isPausedRef.current) playbackClock += elapsed;
+
+        const frameIndex = getReplayFrameIndex(replay, playbackClock);
+        if (frameIndex !== lastFrameIndex && !isPausedRef.current) {
+          lastFrameIndex = frameIndex;
+          const frame = replay.frames[frameIndex];
+          onResults(frame, frame.t);
+        }
+        animationFrameId = requestAnimationFrame(replayFrame);
+      };
+
+      setCameraActive(true);
+      animationFrameId = requestAnimationFrame(replayFrame);
+
+      return () => {
+        isDisposed = true;
+        cancelAnimationFrame(animationFrameId);
+        resetSmoothing();
+      };
+    }
+
+    let engine: HandInferenceEngine | null = null;
+
     const processFrame = async () => {
-      if (isDisposed) return;
+      if (isDisposed || !engine) return;
 
       if (isPausedRef.current) {
         pausedTickTimeout = window.setTimeout(() => {
@@ -115,8 +382,29 @@ const HandTracker: React.FC<HandTrackerProps> = ({ onUpdate, onError, calibratio
         return;
       }
 
-      if (videoRef.current && videoRef.current.readyState >= 2) {
-        await hands.send({ image: videoRef.current });
+      const video = videoRef.current;
+      if (video && video.readyState >= 2) {
+        try {
+          const result = await engine.detect(video, performance.now());
+          if (isDisposed) return;
+          recordInference(engine.mode, result.inferenceMs);
+          onResults({ ...result, image: result.image ?? video });
+        } catch (error) {
+          if (isDisposed) return;
+          if (engine.mode !== 'worker') {
+            onError?.(error instanceof Error ? error.message : 'Falha na detecção de mãos.');
+            return;
+          }
+          // A worker that dies mid-session hands over to the main thread instead of ending tracking.
+          console.warn('Worker de rastreamento falhou, usando a thread principal.', error);
+          engine.close();
+          try {
+            engine = createMainThreadInference();
+          } catch (fallbackError) {
+            onError?.(fallbackError instanceof Error ? fallbackError.message : 'Falha na detecção de mãos.');
+            return;
+          }
+        }
       }
       animationFrameId = requestAnimationFrame(processFrame);
     };
@@ -160,72 +448,32 @@ const HandTracker: React.FC<HandTrackerProps> = ({ onUpdate, onError, calibratio
       }
     };
 
-    initCamera();
+    createHandInference()
+      .then((created) => {
+        if (isDisposed) {
+          created.close();
+          return;
+        }
+        engine = created;
+        initCamera();
+      })
+      .catch((error: unknown) => {
+        onError?.(error instanceof Error ? error.message : 'Falha ao iniciar o rastreamento de mãos.');
+      });
 
     return () => {
       isDisposed = true;
       cancelAnimationFrame(animationFrameId);
       if (pausedTickTimeout) window.clearTimeout(pausedTickTimeout);
-      stableStateRef.current = null;
-      candidateStateRef.current = null;
-      candidateFramesRef.current = 0;
+      resetSmoothing();
       if (streamRef.current) {
         streamRef.current.getTracks().forEach(track => track.stop());
+        streamRef.current = null;
       }
-      hands.close?.().catch(() => undefined);
+      setCameraActive(false);
+      engine?.close();
     };
-  }, [onUpdate, onError]);
-
-  const detectMovement = (landmarks: any): MovementGesture => {
-    const trackerConfig = calibrationRef.current;
-    const wrist = landmarks[0];
-    const isFist = [8, 12, 16, 20].every(
-      idx => getDistance(landmarks[idx], landmarks[0]) < trackerConfig.fistStopThreshold,
-    );
-    if (isFist) return MovementGesture.STOP;
-
-    const centerX = trackerConfig.movementCenterX;
-    const centerY = trackerConfig.movementCenterY;
-    const threshold = trackerConfig.movementDeadzone;
-
-    if (wrist.y < centerY - threshold) return MovementGesture.FORWARD;
-    if (wrist.y > centerY + threshold) return MovementGesture.BACKWARD;
-    if (wrist.x < centerX - threshold) return MovementGesture.RIGHT;
-    if (wrist.x > centerX + threshold) return MovementGesture.LEFT;
-
-    return MovementGesture.STOP;
-  };
-
-  const detectCombat = (landmarks: any): CombatGesture => {
-    const trackerConfig = calibrationRef.current;
-    const thumbTip = landmarks[4];
-    const indexTip = landmarks[8];
-    const indexBase = landmarks[5];
-    const middleTip = landmarks[12];
-
-    const indexExtended = getDistance(indexTip, landmarks[0]) > trackerConfig.indexExtendedThreshold;
-    const middleExtended = getDistance(middleTip, landmarks[0]) > trackerConfig.indexExtendedThreshold;
-    const thumbUp = thumbTip.y < indexBase.y;
-    const othersCurled = [16, 20].every(idx => getDistance(landmarks[idx], landmarks[0]) < 0.2);
-
-    const isFullHand = [8, 12, 16, 20].every(
-      idx => getDistance(landmarks[idx], landmarks[0]) > trackerConfig.openHandThreshold,
-    );
-    if (isFullHand) return CombatGesture.RELOAD;
-
-    if (indexExtended && thumbUp && othersCurled) {
-      const indexCurvature = getDistance(indexTip, indexBase);
-      if (indexCurvature < trackerConfig.fireCurlThreshold) return CombatGesture.FIRE;
-      if (middleExtended) return CombatGesture.IRON_SIGHT;
-      return CombatGesture.AIM;
-    }
-
-    return CombatGesture.IDLE;
-  };
-
-  const getDistance = (p1: any, p2: any) => {
-    return Math.sqrt(Math.pow(p1.x - p2.x, 2) + Math.pow(p1.y - p2.y, 2));
-  };
+  }, [onUpdate, onError, replay]);
 
   return (
     <div className="tracker-root">
@@ -237,6 +485,11 @@ const HandTracker: React.FC<HandTrackerProps> = ({ onUpdate, onError, calibratio
         </div>
       ) : null}
       <canvas ref={canvasRef} className="tracker-canvas" width={640} height={480} />
+      {inferenceStats && !replay ? (
+        <span className="tracker-inference-badge" title="Tempo médio de inferência por frame">
+          {inferenceStats.mode === 'worker' ? 'Worker' : 'Thread principal'} • {inferenceStats.inferenceMs.toFixed(1)} ms
+        </span>
+      ) : null}
     </div>
   );
 };
@@ -1,11 +1,15 @@
 import React, { useEffect, useRef } from 'react';
+import { CONTROL_SCHEME_LABELS } from '../domain/control-scheme';
+import { ControlScheme } from '../types';
 
 interface HelpPanelProps {
+  controlScheme: ControlScheme;
   onClose: () => void;
 }
 
-const HelpPanel: React.FC<HelpPanelProps> = ({ onClose }) => {
+const HelpPanel: React.FC<HelpPanelProps> = ({ controlScheme, onClose }) => {
   const closeButtonRef = useRef<HTMLButtonElement>(null);
+  const handLabels = CONTROL_SCHEME_LABELS[controlScheme];
 
   useEffect(() => {
     closeButtonRef.current?.focus();
@@ -20,7 +24,7 @@ const HelpPanel: React.FC<HelpPanelProps> = ({ onClose }) => {
 
         <div className="help-grid">
           <article>
-            <h3>Movimento (mão esquerda)</h3>
+            <h3>Movimento ({handLabels.movementHand.toLowerCase()})</h3>
             <ul>
               <li>Cima: avançar</li>
               <li>Baixo: recuar</li>
@@ -30,12 +34,23 @@ const HelpPanel: React.FC<HelpPanelProps> = ({ onClose }) => {
           </article>
 
           <article>
-            <h3>Combate (mão direita)</h3>
+            <h3>Combate ({handLabels.combatHand.toLowerCase()})</h3>
             <ul>
               <li>Gesto de arma: mira padrão</li>
               <li>Indicador curvado: disparo</li>
               <li>Médio estendido: iron sight</li>
               <li>Mão aberta: recarga</li>
+              <li>Pinça (polegar + indicador, demais dedos abertos): trocar arma</li>
+              <li>Punho em movimento rápido para o lado: golpe corpo a corpo</li>
+              <li>Punhos juntos (duas mãos): arremessar granada</li>
+              <li>Drones resistem a vários tiros; acertar o olho causa dano dobrado e vale mais pontos</li>
+              <li>Tiros inimigos são projéteis visíveis: mova-se para o lado para desviar</li>
+              <li>Paredes e caixas servem de cobertura: bloqueiam seus tiros e os dos inimigos</li>
+              <li>Elimine todos os inimigos da onda para ganhar um intervalo curto antes da próxima; a cada 5 ondas chega um chefe</li>
+              <li>Passe sobre os itens no chão para coletar: kit médico (verde), munição (amarelo), dano ampliado (vermelho) e escudo (azul)</li>
+              <li>Inimigos: kamikaze explode ao encostar, atirador mostra o laser antes do disparo, blindado só toma dano pelos flancos e o suporte cura aliados próximos</li>
+              <li>Deslocar a mão para os lados: girar câmera</li>
+              <li>Ponta do indicador: move a mira (modo mira livre)</li>
             </ul>
           </article>
 
@@ -49,6 +64,16 @@ const HelpPanel: React.FC<HelpPanelProps> = ({ onClose }) => {
               <li>Esc: fechar modais</li>
             </ul>
           </article>
+
+          <article>
+            <h3>Sem câmera</h3>
+            <ul>
+              <li>WASD: mover • Q/E ou setas: girar</li>
+              <li>Mouse: mira • clique: disparo • botão direito: iron sight</li>
+              <li>R: recarga • X: trocar arma • 1/2: escolher arma • F: corpo a corpo • G: granada</li>
+              <li>Gamepad: analógicos, RT dispara, LT mira, X recarrega, Y troca arma, B golpeia, RB granada</li>
+            </ul>
+          </article>
         </div>
 
         <div className="button-row">
@@ -0,0 +1,95 @@
+import React, { useRef } from 'react';
+import {
+  LandmarkRecording,
+  parseLandmarkRecording,
+  serializeLandmarkRecording,
+} from '../domain/landmark-recording';
+
+interface TrackerSourceControlsProps {
+  replay: LandmarkRecording | null;
+  isRecording: boolean;
+  onToggleRecording: () => void;
+  onReplayChange: (recording: LandmarkRecording | null) => void;
+  onError: (message: string) => void;
+  showDiagnostics: boolean;
+  onToggleDiagnostics: () => void;
+}
+
+export const downloadLandmarkRecording = (recording: LandmarkRecording) => {
+  const blob = new Blob([serializeLandmarkRecording(recording)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const anchor = document.createElement('a');
+  anchor.href = url;
+  anchor.download = `gesturestrike-landmarks-${recording.recordedAt.replace(/[:.]/g, '-')}.json`;
+  anchor.click();
+  URL.revokeObjectURL(url);
+};
+
+const TrackerSourceControls: React.FC<TrackerSourceControlsProps> = ({
+  replay,
+  isRecording,
+  onToggleRecording,
+  onReplayChange,
+  onError,
+  showDiagnostics,
+  onToggleDiagnostics,
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      onReplayChange(parseLandmarkRecording(await file.text()));
+    } catch (error) {
+      onError(error instanceof Error ? error.message : 'Falha ao carregar gravação.');
+    }
+  };
+
+  return (
+    <div className="tracker-source-controls" role="group" aria-label="Fonte de rastreamento">
+      {replay ? (
+        <>
+          <span className="tracker-source-badge">Replay • {(replay.durationMs / 1000).toFixed(1)}s</span>
+          <button type="button" className="ghost-btn" onClick={() => onReplayChange(null)}>
+            Voltar à câmera
+          </button>
+        </>
+      ) : (
+        <>
+          <button
+            type="button"
+            className={isRecording ? 'ghost-btn recording' : 'ghost-btn'}
+            onClick={onToggleRecording}
+            aria-pressed={isRecording}
+          >
+            {isRecording ? 'Parar gravação' : 'Gravar'}
+          </button>
+          <button type="button" className="ghost-btn" onClick={() => fileInputRef.current?.click()}>
+            Replay
+          </button>
+        </>
+      )}
+      <button
+        type="button"
+        className={showDiagnostics ? 'ghost-btn active' : 'ghost-btn'}
+        onClick={onToggleDiagnostics}
+        aria-pressed={showDiagnostics}
+        title="Mostrar valores medidos e limiares de cada gesto"
+      >
+        Diagnóstico
+      </button>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="application/json,.json"
+        hidden
+        onChange={handleFileChange}
+      />
+    </div>
+  );
+};
+
+export default TrackerSourceControls;
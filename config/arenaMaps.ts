@@ -0,0 +1,13 @@
+import { ArenaMap, loadArenaMap } from '../domain/arena-map';
+import openArena from './maps/open-arena.json';
+import outpost from './maps/outpost.json';
+
+/**
+ * Maps shipped with the game, checked on load so a broken file fails at
+ * startup rather than mid-match. The first one is the default.
+ */
+export const ARENA_MAPS: readonly ArenaMap[] = [openArena, outpost].map(loadArenaMap);
+
+export const DEFAULT_ARENA_MAP = ARENA_MAPS[0];
+
+export const getArenaMap = (id: string) => ARENA_MAPS.find((map) => map.id === id) ?? DEFAULT_ARENA_MAP;
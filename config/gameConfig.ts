@@ -1,28 +1,65 @@
 import {
+  AbilityCooldowns,
   CombatGesture,
   DifficultyLevel,
   DifficultyProfile,
+  EnemyArchetype,
+  EnemyArchetypeId,
+  EnemyHitbox,
   HandState,
+  Loadout,
+  LoadoutId,
   MovementGesture,
+  PickupKind,
+  PickupProfile,
+  SimulatedAbility,
   TrackerCalibration,
+  WaveDefinition,
+  WeaponId,
+  WeaponProfile,
 } from '../types';
 
 export const DEFAULT_HAND_STATE: HandState = {
   movement: MovementGesture.STOP,
+  moveVector: { x: 0, y: 0, magnitude: 0 },
   combat: CombatGesture.IDLE,
+  look: { yaw: 0, pitch: 0 },
+  aim: { x: 0, y: 0 },
   leftHandPresent: false,
   rightHandPresent: false,
 };
 
+export const TRACKER_CALIBRATION_VERSION = 2;
+
 export const DEFAULT_TRACKER_CALIBRATION: TrackerCalibration = {
+  calibrationVersion: TRACKER_CALIBRATION_VERSION,
   movementCenterX: 0.25,
   movementCenterY: 0.5,
   movementDeadzone: 0.085,
-  fistStopThreshold: 0.14,
-  indexExtendedThreshold: 0.3,
-  fireCurlThreshold: 0.12,
-  openHandThreshold: 0.31,
+  fistStopThreshold: 0.875,
+  indexExtendedThreshold: 1.875,
+  fireCurlThreshold: 0.75,
+  openHandThreshold: 1.94,
   smoothingFrames: 2,
+  lookCenterX: 0.75,
+  lookCenterY: 0.5,
+  lookDeadzone: 0.07,
+  lookSensitivity: 1.6,
+  lookPitchSensitivity: 0,
+  aimCenterX: 0.7,
+  aimCenterY: 0.42,
+  aimRange: 0.16,
+  aimSmoothing: 0.35,
+  filterMinCutoff: 1.5,
+  filterBeta: 8,
+  filterDerivativeCutoff: 1,
+  fireEnterFrames: 1,
+  fireExitFrames: 3,
+  movementEnterFrames: 2,
+  movementExitFrames: 3,
+  pinchThreshold: 0.35,
+  meleeSwipeSpeed: 12,
+  grenadeHandGap: 2.2,
 };
 
 export const DIFFICULTY_PROFILES: Record<DifficultyLevel, DifficultyProfile> = {
@@ -78,8 +115,299 @@ export const HAPTIC_PATTERNS = {
   DAMAGE: [150, 80, 180],
   WALK_SOFT: [10],
   WALK_HARD: [7, 15, 7],
+  SWITCH_WEAPON: [20, 40, 20],
+  MELEE: [70],
+  GRENADE: [30, 30, 160],
+  PICKUP: [25, 35, 60],
 } as const;
 
+export const WEAPON_PROFILES: Record<WeaponId, WeaponProfile> = {
+  RIFLE: {
+    id: 'RIFLE',
+    label: 'Rifle',
+    fireMode: 'AUTO',
+    fireCooldownMs: 240,
+    magazineSize: 24,
+    reloadMs: 1400,
+    damage: 40,
+    falloffStart: 18,
+    falloffEnd: 45,
+    minDamageFactor: 0.5,
+    spread: 0.012,
+  },
+  SIDEARM: {
+    id: 'SIDEARM',
+    label: 'Pistola',
+    fireMode: 'SEMI',
+    fireCooldownMs: 420,
+    magazineSize: null,
+    reloadMs: 0,
+    damage: 30,
+    falloffStart: 10,
+    falloffEnd: 30,
+    minDamageFactor: 0.4,
+    spread: 0.008,
+  },
+  SMG: {
+    id: 'SMG',
+    label: 'Submetralhadora',
+    fireMode: 'AUTO',
+    fireCooldownMs: 90,
+    magazineSize: 32,
+    reloadMs: 1800,
+    damage: 18,
+    falloffStart: 8,
+    falloffEnd: 22,
+    minDamageFactor: 0.35,
+    spread: 0.045,
+  },
+  MARKSMAN: {
+    id: 'MARKSMAN',
+    label: 'Fuzil de precisão',
+    fireMode: 'SEMI',
+    fireCooldownMs: 700,
+    magazineSize: 6,
+    reloadMs: 2200,
+    damage: 90,
+    falloffStart: 35,
+    falloffEnd: 70,
+    minDamageFactor: 0.6,
+    spread: 0,
+  },
+};
+
+export const LOADOUTS: Record<LoadoutId, Loadout> = {
+  ASSAULT: {
+    id: 'ASSAULT',
+    label: 'Assalto',
+    description: 'Rifle automático com pistola de apoio para qualquer distância.',
+    weapons: ['RIFLE', 'SIDEARM'],
+  },
+  CLOSE_QUARTERS: {
+    id: 'CLOSE_QUARTERS',
+    label: 'Curta distância',
+    description: 'Submetralhadora de cadência alta para pressionar de perto.',
+    weapons: ['SMG', 'SIDEARM'],
+  },
+  MARKSMAN: {
+    id: 'MARKSMAN',
+    label: 'Precisão',
+    description: 'Fuzil de tiro único para abates de longe, submetralhadora para emergências.',
+    weapons: ['MARKSMAN', 'SMG'],
+  },
+};
+
+export const DEFAULT_LOADOUT: LoadoutId = 'ASSAULT';
+
+export const ENEMY_ARCHETYPES: Record<EnemyArchetypeId, EnemyArchetype> = {
+  DRONE: {
+    id: 'DRONE',
+    label: 'Drone',
+    maxHealth: 100,
+    scoreValue: 320,
+    attackRange: 11,
+    alertRange: 30,
+    speedScale: 1,
+    damageScale: 1,
+    attackCooldownScale: 1,
+    spawnWeight: { fromWave: 1, baseWeight: 10, perWave: 0, maxWeight: 10 },
+    projectileSpeed: 22,
+  },
+  KAMIKAZE: {
+    id: 'KAMIKAZE',
+    label: 'Kamikaze',
+    maxHealth: 40,
+    scoreValue: 260,
+    attackRange: 14,
+    alertRange: 40,
+    speedScale: 2.4,
+    damageScale: 2.5,
+    attackCooldownScale: 1,
+    spawnWeight: { fromWave: 2, baseWeight: 2, perWave: 1, maxWeight: 6 },
+    contactRadius: 1.8,
+  },
+  SNIPER: {
+    id: 'SNIPER',
+    label: 'Atirador',
+    maxHealth: 70,
+    scoreValue: 420,
+    attackRange: 26,
+    alertRange: 48,
+    speedScale: 0.7,
+    damageScale: 1.8,
+    attackCooldownScale: 1.6,
+    spawnWeight: { fromWave: 3, baseWeight: 2, perWave: 0.5, maxWeight: 4 },
+    projectileSpeed: 60,
+    telegraphMs: 1200,
+  },
+  TANK: {
+    id: 'TANK',
+    label: 'Blindado',
+    maxHealth: 260,
+    scoreValue: 600,
+    attackRange: 9,
+    alertRange: 28,
+    speedScale: 0.55,
+    damageScale: 1.5,
+    attackCooldownScale: 1.3,
+    spawnWeight: { fromWave: 4, baseWeight: 1, perWave: 0.5, maxWeight: 3 },
+    projectileSpeed: 16,
+    shieldHalfAngle: Math.PI / 3,
+    turnRate: 0.9,
+  },
+  SUPPORT: {
+    id: 'SUPPORT',
+    label: 'Suporte',
+    maxHealth: 80,
+    scoreValue: 480,
+    attackRange: 18,
+    alertRange: 34,
+    speedScale: 0.9,
+    damageScale: 0,
+    attackCooldownScale: 1,
+    spawnWeight: { fromWave: 5, baseWeight: 1, perWave: 0.25, maxWeight: 2 },
+    healPerSecond: 12,
+    healRadius: 9,
+  },
+  // Only sent by the wave director on boss waves, never drawn by weight.
+  BOSS: {
+    id: 'BOSS',
+    label: 'Comandante',
+    maxHealth: 900,
+    scoreValue: 2500,
+    attackRange: 16,
+    alertRange: 70,
+    speedScale: 0.5,
+    damageScale: 2,
+    attackCooldownScale: 0.8,
+    spawnWeight: { fromWave: 1, baseWeight: 0, perWave: 0, maxWeight: 0 },
+    projectileSpeed: 26,
+    shieldHalfAngle: Math.PI / 4,
+    turnRate: 1.4,
+  },
+};
+
+/**
+ * Hit volumes per archetype, sized to the meshes in `components/EnemySwarm.tsx`.
+ * Bodies sit a little inside the hull so the eye always pokes out of them and
+ * the nearest hit along a ray is the part the player sees; the tank and boss
+ * add a capsule for their shield plate.
+ */
+export const ENEMY_HITBOXES: Record<EnemyArchetypeId, EnemyHitbox> = {
+  DRONE: {
+    body: [{ kind: 'SPHERE', center: [0, 0, 0], radius: 0.7 }],
+    weakSpot: { center: [0, 0, 0.58], radius: 0.19 },
+  },
+  KAMIKAZE: {
+    body: [{ kind: 'SPHERE', center: [0, 0, 0], radius: 0.45 }],
+    weakSpot: { center: [0, 0.05, 0.42], radius: 0.14 },
+  },
+  SNIPER: {
+    body: [{ kind: 'CAPSULE', start: [0, -0.5, 0], end: [0, 0.3, 0], radius: 0.36 }],
+    weakSpot: { center: [0, 0.45, 0.3], radius: 0.15 },
+  },
+  // The tank hides its eye behind the hull, away from the shield.
+  TANK: {
+    body: [
+      { kind: 'CAPSULE', start: [-0.4, 0, 0], end: [0.4, 0, 0], radius: 0.8 },
+      { kind: 'CAPSULE', start: [-0.5, 0.1, 1.05], end: [0.5, 0.1, 1.05], radius: 0.6 },
+    ],
+    weakSpot: { center: [0, 0.2, -0.98], radius: 0.24 },
+  },
+  SUPPORT: {
+    body: [{ kind: 'SPHERE', center: [0, 0, 0], radius: 0.5 }],
+    weakSpot: { center: [0, 0, 0.55], radius: 0.17 },
+  },
+  BOSS: {
+    body: [
+      { kind: 'SPHERE', center: [0, 0, 0], radius: 1.35 },
+      { kind: 'CAPSULE', start: [-0.6, 0.2, 1.6], end: [0.6, 0.2, 1.6], radius: 0.8 },
+    ],
+    weakSpot: { center: [0, 0.5, -1.5], radius: 0.3 },
+  },
+};
+
+/** The opening waves, in order; later ones draw from the spawn weights (see `ENDLESS_WAVE`). */
+export const WAVE_TABLE: WaveDefinition[] = [
+  { enemies: { DRONE: 6 }, burstSize: 3 },
+  { enemies: { DRONE: 5, KAMIKAZE: 2 }, burstSize: 3 },
+  { enemies: { DRONE: 5, KAMIKAZE: 2, SNIPER: 2 }, burstSize: 3 },
+  { enemies: { DRONE: 5, KAMIKAZE: 3, SNIPER: 1, TANK: 1 }, burstSize: 4 },
+  { enemies: { DRONE: 4, KAMIKAZE: 2, SNIPER: 2, TANK: 1, SUPPORT: 1 }, burstSize: 4 },
+];
+
+/** Waves past the table: how many enemies the first one sends, how many more each wave adds, and the burst size. */
+export const ENDLESS_WAVE = { baseCount: 12, perWave: 2, burstSize: 4 };
+/** Every this many waves, a boss arrives with the last burst. */
+export const BOSS_WAVE_INTERVAL = 5;
+/** Breather between clearing a wave and the first burst of the next. */
+export const WAVE_INTERMISSION_MS = 8000;
+
+/** Hits on the drone's eye deal extra damage, and kills landed there score extra. */
+export const WEAK_SPOT_DAMAGE_MULTIPLIER = 2;
+export const WEAK_SPOT_SCORE_MULTIPLIER = 1.5;
+export const MELEE_DAMAGE = 100;
+export const GRENADE_DAMAGE = 120;
+export const HIT_FLASH_MS = 160;
+/** Enemy rounds: how long they fly before vanishing and how thick they are for collisions. */
+export const PROJECTILE_LIFETIME_MS = 3000;
+export const PROJECTILE_RADIUS = 0.08;
+/** Radius of the player's body capsule, which spans from the floor to just above the camera. */
+export const PLAYER_CAPSULE_RADIUS = 0.45;
+/** Tallest ledge the player walks up without a ramp; anything higher is cover. */
+export const STEP_HEIGHT = 0.45;
+/** Footprint enemies keep clear of walls and crates. */
+export const ENEMY_COLLISION_RADIUS = 0.9;
+/**
+ * Enemy pathfinding: size of a walkability grid cell, the shortest gap between
+ * two searches for one enemy, how many searches a simulation step may run, how
+ * far the goal may drift before a route is stale, and how close counts as
+ * passing a corner.
+ */
+export const NAV_CELL_SIZE = 2;
+export const PATH_REPLAN_INTERVAL_MS = 600;
+export const PATH_SEARCHES_PER_STEP = 2;
+export const PATH_GOAL_DRIFT = 3;
+export const WAYPOINT_REACHED_RADIUS = 1;
+
+export const PICKUP_PROFILES: Record<PickupKind, PickupProfile> = {
+  MEDKIT: { kind: 'MEDKIT', label: 'Kit médico', color: '#5be49b', weight: 4, heal: 35 },
+  AMMO: { kind: 'AMMO', label: 'Munição', color: '#ffc15f', weight: 4 },
+  DAMAGE_BOOST: { kind: 'DAMAGE_BOOST', label: 'Dano ampliado', color: '#ff6f61', weight: 1, durationMs: 10000 },
+  SHIELD: { kind: 'SHIELD', label: 'Escudo', color: '#6dc5ff', weight: 1, durationMs: 8000 },
+};
+
+/** Player damage while the boost lasts, and the share of incoming damage that gets through the shield. */
+export const DAMAGE_BOOST_MULTIPLIER = 1.5;
+export const SHIELD_DAMAGE_FACTOR = 0.25;
+/**
+ * Pickups: odds a defeated enemy drops one, how often one appears near the
+ * player and how far away, how many can lie around, how long they last and
+ * how close the player must walk to collect one.
+ */
+export const PICKUP_DROP_CHANCE = 0.25;
+export const PICKUP_SPAWN_INTERVAL_MS = 20000;
+export const PICKUP_SPAWN_RADIUS = 18;
+export const MAX_PICKUPS = 4;
+export const PICKUP_LIFETIME_MS = 30000;
+export const PICKUP_COLLECT_RADIUS = 1.3;
+
+export const ABILITY_COOLDOWN_MS: Record<keyof AbilityCooldowns | SimulatedAbility, number> = {
+  weaponSwitch: 800,
+  melee: 900,
+  grenade: 8000,
+};
+
+/** Reach of a melee strike in metres and the half-angle (as a cosine) it covers in front of the player. */
+export const MELEE_RANGE = 3.5;
+export const MELEE_MIN_FACING = 0.5;
+export const GRENADE_FUSE_MS = 1100;
+export const GRENADE_BLAST_RADIUS = 6;
+export const GRENADE_THROW_SPEED = 15;
+
+/** Hand-loss grace periods offered in the menu; 0 turns auto-pause off. */
+export const AUTO_PAUSE_GRACE_OPTIONS = [0, 1500, 3000, 5000] as const;
+export const DEFAULT_AUTO_PAUSE_GRACE_MS = 3000;
+export const RESUME_COUNTDOWN_SECONDS = 3;
+
 export const MAX_HEALTH = 100;
-export const BASE_AMMO = 12;
-export const WAVE_ENEMY_STEP = 6;
@@ -0,0 +1,172 @@
+import { HandLandmark, HandLandmarks } from '../gesture-classifier';
+
+type Offset = [number, number];
+
+interface PoseSpec {
+  wrist: Offset;
+  thumbTip: Offset;
+  tips: {
+    index: Offset;
+    middle: Offset;
+    ring: Offset;
+    pinky: Offset;
+  };
+  /** Index knuckle override for poses where the hand is tilted. */
+  indexMcp?: Offset;
+  /** Wrist → middle knuckle span in the frame; grows when the hand is closer to the camera. */
+  handScale?: number;
+}
+
+/** Knuckle offsets in hand-scale units, so the middle knuckle sits exactly one unit from the wrist. */
+const MCP_OFFSETS: Record<keyof PoseSpec['tips'], Offset> = {
+  index: [-0.3, -0.95],
+  middle: [0, -1],
+  ring: [0.25, -0.95],
+  pinky: [0.5, -0.85],
+};
+
+const point = (x: number, y: number): HandLandmark => ({ x, y, z: 0 });
+
+const lerp = (from: HandLandmark, to: HandLandmark, t: number) =>
+  point(from.x + (to.x - from.x) * t, from.y + (to.y - from.y) * t);
+
+/**
+ * Rebuilds a full 21-point hand from the joints the classifier reads. Tip and
+ * thumb offsets are relative to the wrist in hand-scale units, so the same
+ * spec describes the pose at any camera distance.
+ */
+const buildPose = ({ wrist: [wx, wy], thumbTip, tips, indexMcp, handScale = 0.1 }: PoseSpec): HandLandmarks => {
+  const wrist = point(wx, wy);
+  const relative = ([dx, dy]: Offset) => point(wx + dx * handScale, wy + dy * handScale);
+
+  const thumbCmc = relative([-0.4, -0.3]);
+  const thumbMcp = relative([-0.6, -0.6]);
+  const thumbTipPoint = relative(thumbTip);
+  const finger = (name: keyof PoseSpec['tips']) => {
+    const mcp = relative(name === 'index' && indexMcp ? indexMcp : MCP_OFFSETS[name]);
+    const tip = relative(tips[name]);
+    return [mcp, lerp(mcp, tip, 0.4), lerp(mcp, tip, 0.72), tip];
+  };
+
+  return [
+    wrist,
+    thumbCmc,
+    thumbMcp,
+    lerp(thumbMcp, thumbTipPoint, 0.55),
+    thumbTipPoint,
+    ...finger('index'),
+    ...finger('middle'),
+    ...finger('ring'),
+    ...finger('pinky'),
+  ];
+};
+
+/** Moves a recorded pose across the frame without changing its shape. */
+export const translatePose = (pose: HandLandmarks, dx: number, dy: number): HandLandmarks =>
+  pose.map((landmark) => point(landmark.x + dx, landmark.y + dy));
+
+const RELAXED_TIPS: PoseSpec['tips'] = {
+  index: [-0.3, -1.3],
+  middle: [0, -1.4],
+  ring: [0.25, -1.3],
+  pinky: [0.5, -1.1],
+};
+
+const FIST_TIPS: PoseSpec['tips'] = {
+  index: [-0.2, -0.55],
+  middle: [0, -0.6],
+  ring: [0.2, -0.55],
+  pinky: [0.35, -0.5],
+};
+
+const OPEN_TIPS: PoseSpec['tips'] = {
+  index: [-0.55, -1.95],
+  middle: [0, -2.15],
+  ring: [0.45, -2],
+  pinky: [0.85, -1.8],
+};
+
+const AIM_TIPS: PoseSpec['tips'] = {
+  index: [-0.3, -2],
+  middle: [0, -1.2],
+  ring: [0.2, -0.8],
+  pinky: [0.35, -0.7],
+};
+
+const THUMB_UP: Offset = [-0.55, -1.2];
+const THUMB_TUCKED: Offset = [-0.6, -0.5];
+const THUMB_SPREAD: Offset = [-1.4, -1.2];
+
+/** Left-hand poses recorded around the default movement centre (0.25, 0.5). */
+export const MOVEMENT_POSES = {
+  neutral: buildPose({ wrist: [0.25, 0.5], thumbTip: THUMB_TUCKED, tips: RELAXED_TIPS }),
+  raised: buildPose({ wrist: [0.25, 0.38], thumbTip: THUMB_TUCKED, tips: RELAXED_TIPS }),
+  lowered: buildPose({ wrist: [0.26, 0.62], thumbTip: THUMB_TUCKED, tips: RELAXED_TIPS }),
+  towardCenter: buildPose({ wrist: [0.14, 0.5], thumbTip: THUMB_TUCKED, tips: RELAXED_TIPS }),
+  towardEdge: buildPose({ wrist: [0.36, 0.52], thumbTip: THUMB_TUCKED, tips: RELAXED_TIPS }),
+  raisedDiagonal: buildPose({ wrist: [0.14, 0.38], thumbTip: THUMB_TUCKED, tips: RELAXED_TIPS }),
+  insideDeadzone: buildPose({ wrist: [0.31, 0.42], thumbTip: THUMB_TUCKED, tips: RELAXED_TIPS }),
+  justPastDeadzone: buildPose({ wrist: [0.25, 0.41], thumbTip: THUMB_TUCKED, tips: RELAXED_TIPS }),
+  fistCentered: buildPose({ wrist: [0.25, 0.5], thumbTip: THUMB_TUCKED, tips: FIST_TIPS }),
+  fistRaised: buildPose({ wrist: [0.25, 0.36], thumbTip: THUMB_TUCKED, tips: FIST_TIPS }),
+  fistRaisedNear: buildPose({ wrist: [0.25, 0.36], thumbTip: THUMB_TUCKED, tips: FIST_TIPS, handScale: 0.24 }),
+  raisedFar: buildPose({ wrist: [0.25, 0.38], thumbTip: THUMB_TUCKED, tips: RELAXED_TIPS, handScale: 0.05 }),
+  /** Fist held next to the combat hand's default position, as in the grenade grip. */
+  fistBesideCombat: buildPose({ wrist: [0.56, 0.78], thumbTip: THUMB_TUCKED, tips: FIST_TIPS }),
+  fistPinkyLoose: buildPose({
+    wrist: [0.25, 0.36],
+    thumbTip: THUMB_TUCKED,
+    tips: { ...FIST_TIPS, pinky: [0.6, -1] },
+  }),
+} as const;
+
+/** Right-hand poses recorded at arm's length unless noted otherwise. */
+export const COMBAT_POSES = {
+  relaxed: buildPose({ wrist: [0.7, 0.78], thumbTip: THUMB_TUCKED, tips: RELAXED_TIPS }),
+  fist: buildPose({ wrist: [0.7, 0.78], thumbTip: THUMB_TUCKED, tips: FIST_TIPS }),
+  openPalm: buildPose({ wrist: [0.7, 0.78], thumbTip: THUMB_SPREAD, tips: OPEN_TIPS }),
+  openPalmPinkyFolded: buildPose({
+    wrist: [0.7, 0.78],
+    thumbTip: THUMB_SPREAD,
+    tips: { ...OPEN_TIPS, pinky: [0.7, -1.6] },
+  }),
+  aim: buildPose({ wrist: [0.7, 0.78], thumbTip: THUMB_UP, tips: AIM_TIPS }),
+  /** The aim pose close to the camera and far from it. */
+  aimNear: buildPose({ wrist: [0.7, 0.78], thumbTip: THUMB_UP, tips: AIM_TIPS, handScale: 0.22 }),
+  aimFar: buildPose({ wrist: [0.7, 0.78], thumbTip: THUMB_UP, tips: AIM_TIPS, handScale: 0.06 }),
+  aimIndexShort: buildPose({
+    wrist: [0.7, 0.78],
+    thumbTip: THUMB_UP,
+    tips: { ...AIM_TIPS, index: [-0.3, -1.8] },
+  }),
+  aimThumbTucked: buildPose({ wrist: [0.7, 0.78], thumbTip: THUMB_TUCKED, tips: AIM_TIPS }),
+  aimRingLoose: buildPose({
+    wrist: [0.7, 0.78],
+    thumbTip: THUMB_UP,
+    tips: { ...AIM_TIPS, ring: [0.25, -1.4] },
+  }),
+  ironSight: buildPose({
+    wrist: [0.7, 0.78],
+    thumbTip: THUMB_UP,
+    tips: { ...AIM_TIPS, middle: [0.05, -2] },
+  }),
+  /** "OK" sign: thumb and index pinched, the other fingers up. */
+  pinch: buildPose({
+    wrist: [0.7, 0.78],
+    thumbTip: [-0.55, -1.3],
+    tips: { index: [-0.5, -1.4], middle: [0.05, -2], ring: [0.3, -1.8], pinky: [0.55, -1.5] },
+  }),
+  /** Trigger pull with the wrist cocked, so the index knuckle leads the rest of the hand. */
+  fire: buildPose({
+    wrist: [0.7, 0.8],
+    thumbTip: [-0.9, -1.6],
+    indexMcp: [-0.45, -1.25],
+    tips: { index: [-0.6, -1.85], middle: [0, -1.2], ring: [0.25, -0.8], pinky: [0.4, -0.65] },
+  }),
+  fireWithMiddleExtended: buildPose({
+    wrist: [0.7, 0.8],
+    thumbTip: [-0.9, -1.6],
+    indexMcp: [-0.45, -1.25],
+    tips: { index: [-0.6, -1.85], middle: [0, -1.95], ring: [0.25, -0.8], pinky: [0.4, -0.65] },
+  }),
+} as const;
@@ -0,0 +1,25 @@
+import { ENEMY_ARCHETYPES } from '../../config/gameConfig';
+import { EnemyAIState, Target } from '../../types';
+
+/** A full-health enemy standing still at `position` (eye height at the origin by default). */
+export const createTarget = (overrides: Partial<Target> = {}): Target => {
+  const archetype = overrides.archetype ?? 'DRONE';
+  const position = overrides.position ?? [0, 1.6, 0];
+  const { maxHealth } = ENEMY_ARCHETYPES[archetype];
+  return {
+    id: 'enemy',
+    archetype,
+    position,
+    health: maxHealth,
+    maxHealth,
+    lastHit: null,
+    state: EnemyAIState.ATTACKING,
+    targetPoint: position,
+    lastActionTime: 0,
+    strafeSeed: 0,
+    heading: 0,
+    aimStartedAt: null,
+    route: null,
+    ...overrides,
+  };
+};
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_ARENA_MAP } from '../config/arenaMaps';
+import { constrainToArena, findCoverEntry, groundHeightAt, surfaceHeightAt } from './arena-collision';
+import { ArenaMap, ArenaObstacle } from './arena-map';
+
+const WALL: ArenaObstacle = { kind: 'WALL', center: [0, 0], size: [10, 3, 1] };
+const CRATE: ArenaObstacle = { kind: 'CRATE', center: [10, 0], size: [2, 0.4, 2] };
+const RAMP: ArenaObstacle = { kind: 'RAMP', center: [-10, 0], size: [2, 2, 8], rises: '-z' };
+
+const map: ArenaMap = { ...DEFAULT_ARENA_MAP, halfExtent: 20, obstacles: [WALL, CRATE, RAMP] };
+
+describe('arena collision', () => {
+  it('clamps to the map bounds', () => {
+    expect(constrainToArena(map, [50, 1.6, -50], 0.5)).toEqual([20, 1.6, -20]);
+  });
+
+  it('pushes bodies out of walls through the nearest face', () => {
+    const [x, , z] = constrainToArena(map, [2, 1.6, 0.7], 0.5);
+    expect(x).toBe(2);
+    expect(z).toBeCloseTo(1);
+
+    const [, , inside] = constrainToArena(map, [2, 1.6, -0.2], 0.5);
+    expect(inside).toBeCloseTo(-1);
+  });
+
+  it('lets low crates and ramps be walked onto', () => {
+    expect(constrainToArena(map, [10, 1.6, 0], 0.5)).toEqual([10, 1.6, 0]);
+    expect(groundHeightAt(map, 10, 0, 0)).toBeCloseTo(0.4);
+    expect(surfaceHeightAt(RAMP, -10, 4)).toBeCloseTo(0);
+    expect(surfaceHeightAt(RAMP, -10, -4)).toBeCloseTo(2);
+    expect(groundHeightAt(map, -10, 0, 0.8)).toBeCloseTo(1);
+    // A ramp's tall end is a ledge from the floor.
+    expect(groundHeightAt(map, -10, -3.9, 0)).toBe(0);
+  });
+
+  it('finds where a line of fire enters cover', () => {
+    expect(findCoverEntry(map, [0, 1.5, -5.5], [0, 1.5, 4.5])).toBeCloseTo(0.5);
+    expect(findCoverEntry(map, [0, 4, -5], [0, 4, 5])).toBeNull();
+    expect(findCoverEntry(map, [-10, 1, -5], [-10, 1, 5])).toBeNull();
+  });
+});
@@ -0,0 +1,139 @@
+import { STEP_HEIGHT } from '../config/gameConfig';
+import { ArenaMap, ArenaObstacle } from './arena-map';
+import { Vec3 } from './combat-abilities';
+
+interface ObstacleBounds {
+  minX: number;
+  maxX: number;
+  minZ: number;
+  maxZ: number;
+  top: number;
+}
+
+const boundsOf = ({ center, size }: ArenaObstacle): ObstacleBounds => ({
+  minX: center[0] - size[0] / 2,
+  maxX: center[0] + size[0] / 2,
+  minZ: center[1] - size[2] / 2,
+  maxZ: center[1] + size[2] / 2,
+  top: size[1],
+});
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/** Height of the obstacle's top at (x, z), or null when the point is not over it. Ramps climb linearly. */
+export const surfaceHeightAt = (obstacle: ArenaObstacle, x: number, z: number): number | null => {
+  const { minX, maxX, minZ, maxZ, top } = boundsOf(obstacle);
+  if (x < minX || x > maxX || z < minZ || z > maxZ) return null;
+  switch (obstacle.rises) {
+    case '+x':
+      return (top * (x - minX)) / (maxX - minX);
+    case '-x':
+      return (top * (maxX - x)) / (maxX - minX);
+    case '+z':
+      return (top * (z - minZ)) / (maxZ - minZ);
+    case '-z':
+      return (top * (maxZ - z)) / (maxZ - minZ);
+    default:
+      return top;
+  }
+};
+
+/** What a walker whose feet are at `feet` stands on at (x, z): the highest surface within a step, or the floor. */
+export const groundHeightAt = (map: ArenaMap, x: number, z: number, feet: number) =>
+  map.obstacles.reduce((ground, obstacle) => {
+    const surface = surfaceHeightAt(obstacle, x, z);
+    return surface !== null && surface <= feet + STEP_HEIGHT && surface > ground ? surface : ground;
+  }, 0);
+
+/**
+ * Moves a circle of `radius` at (x, z) out of one obstacle, or returns null
+ * when it is clear of it or the obstacle is low enough to step onto there.
+ */
+const pushOut = (
+  obstacle: ArenaObstacle,
+  x: number,
+  z: number,
+  radius: number,
+  feet: number,
+): [number, number] | null => {
+  const bounds = boundsOf(obstacle);
+  const contactX = clamp(x, bounds.minX, bounds.maxX);
+  const contactZ = clamp(z, bounds.minZ, bounds.maxZ);
+  const dx = x - contactX;
+  const dz = z - contactZ;
+  const gap = Math.hypot(dx, dz);
+  if (gap >= radius) return null;
+  if ((surfaceHeightAt(obstacle, contactX, contactZ) ?? 0) <= feet + STEP_HEIGHT) return null;
+
+  if (gap > 1e-9) {
+    return [contactX + (dx / gap) * radius, contactZ + (dz / gap) * radius];
+  }
+  // The centre is inside the footprint: leave through the nearest face.
+  const exits: [number, number, number][] = [
+    [bounds.minX - radius, z, x - bounds.minX],
+    [bounds.maxX + radius, z, bounds.maxX - x],
+    [x, bounds.minZ - radius, z - bounds.minZ],
+    [x, bounds.maxZ + radius, bounds.maxZ - z],
+  ];
+  const [exitX, exitZ] = exits.reduce((nearest, exit) => (exit[2] < nearest[2] ? exit : nearest));
+  return [exitX, exitZ];
+};
+
+const COLLISION_PASSES = 3;
+
+/**
+ * Keeps a body of `radius` inside the arena and out of anything it cannot step
+ * onto. A few passes settle bodies wedged between neighbouring obstacles.
+ */
+export const constrainToArena = (map: ArenaMap, [x, y, z]: Vec3, radius: number, feet = 0): Vec3 => {
+  let nextX = x;
+  let nextZ = z;
+  for (let pass = 0; pass < COLLISION_PASSES; pass += 1) {
+    let moved = false;
+    map.obstacles.forEach((obstacle) => {
+      const pushed = pushOut(obstacle, nextX, nextZ, radius, feet);
+      if (!pushed) return;
+      [nextX, nextZ] = pushed;
+      moved = true;
+    });
+    if (!moved) break;
+  }
+  const limit = map.halfExtent;
+  return [clamp(nextX, -limit, limit), y, clamp(nextZ, -limit, limit)];
+};
+
+/**
+ * Fraction of the way from `from` to `to` at which the segment first enters a
+ * wall or crate, or null when nothing blocks it. Ramps are too low to count as cover.
+ */
+export const findCoverEntry = (map: ArenaMap, from: Vec3, to: Vec3): number | null => {
+  const direction: Vec3 = [to[0] - from[0], to[1] - from[1], to[2] - from[2]];
+  let nearest: number | null = null;
+
+  map.obstacles.forEach((obstacle) => {
+    if (obstacle.kind === 'RAMP') return;
+    const { minX, maxX, minZ, maxZ, top } = boundsOf(obstacle);
+    const slabs: [number, number][] = [
+      [minX, maxX],
+      [0, top],
+      [minZ, maxZ],
+    ];
+    let enter = 0;
+    let exit = 1;
+    for (let axis = 0; axis < 3; axis += 1) {
+      const [min, max] = slabs[axis];
+      if (Math.abs(direction[axis]) < 1e-12) {
+        if (from[axis] < min || from[axis] > max) return;
+        continue;
+      }
+      const t1 = (min - from[axis]) / direction[axis];
+      const t2 = (max - from[axis]) / direction[axis];
+      enter = Math.max(enter, Math.min(t1, t2));
+      exit = Math.min(exit, Math.max(t1, t2));
+      if (enter > exit) return;
+    }
+    if (nearest === null || enter < nearest) nearest = enter;
+  });
+
+  return nearest;
+};
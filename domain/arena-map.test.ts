@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { ARENA_MAPS, DEFAULT_ARENA_MAP, getArenaMap } from '../config/arenaMaps';
+import { ARENA_MAP_VERSION, ArenaMap, isArenaMap, parseArenaMap } from './arena-map';
+
+const serialize = (map: ArenaMap, overrides: Record<string, unknown> = {}) => JSON.stringify({ ...map, ...overrides });
+
+describe('arena maps', () => {
+  it('ships the open arena as the default map', () => {
+    expect(DEFAULT_ARENA_MAP.id).toBe('open-arena');
+    expect(DEFAULT_ARENA_MAP.obstacles).toEqual([]);
+    expect(getArenaMap('missing')).toBe(DEFAULT_ARENA_MAP);
+    ARENA_MAPS.forEach((map) => expect(isArenaMap(map)).toBe(true));
+  });
+
+  it('round-trips a map through JSON', () => {
+    const outpost = getArenaMap('outpost');
+    expect(parseArenaMap(serialize(outpost))).toEqual(outpost);
+  });
+
+  it('rejects unknown versions and malformed payloads', () => {
+    expect(() => parseArenaMap(serialize(DEFAULT_ARENA_MAP, { version: ARENA_MAP_VERSION + 1 }))).toThrow(/2/);
+    expect(() => parseArenaMap('{not json')).toThrow(/JSON/);
+    expect(() =>
+      parseArenaMap(serialize(DEFAULT_ARENA_MAP, { obstacles: [{ kind: 'RAMP', center: [0, 0], size: [2, 1, 4] }] })),
+    ).toThrow(/inválido/);
+    expect(() =>
+      parseArenaMap(serialize(DEFAULT_ARENA_MAP, { obstacles: [{ kind: 'CRATE', center: [0, 0], size: [2, 0, 2] }] })),
+    ).toThrow(/inválido/);
+  });
+
+  it('requires a spawn zone and a start inside the bounds', () => {
+    expect(() => parseArenaMap(serialize(DEFAULT_ARENA_MAP, { spawnZones: [] }))).toThrow(/surgimento/);
+    expect(() =>
+      parseArenaMap(serialize(DEFAULT_ARENA_MAP, { playerStart: { position: [0, 200], yaw: 0 } })),
+    ).toThrow(/limites/);
+  });
+});
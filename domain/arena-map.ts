@@ -0,0 +1,131 @@
+export const ARENA_MAP_FORMAT = 'gesturestrike.arena';
+export const ARENA_MAP_VERSION = 1;
+
+/** A point on the floor plane, as [x, z] in metres. */
+export type FloorPoint = [number, number];
+
+export type ObstacleKind = 'WALL' | 'CRATE' | 'RAMP';
+
+/** Side of a ramp that reaches its full height. */
+export type RampRise = '+x' | '-x' | '+z' | '-z';
+
+/** An axis-aligned block standing on the floor. */
+export interface ArenaObstacle {
+  kind: ObstacleKind;
+  center: FloorPoint;
+  /** Width along x, height and depth along z. */
+  size: [number, number, number];
+  /** Ramps only. */
+  rises?: RampRise;
+}
+
+export type SpawnZone =
+  /** A ring around wherever the player is, pushed further out in later waves. */
+  | { kind: 'AROUND_PLAYER'; minRadius: number; maxRadius: number }
+  /** A fixed disc on the map. */
+  | { kind: 'AREA'; center: FloorPoint; radius: number };
+
+export interface PlayerStart {
+  position: FloorPoint;
+  /** Radians; positive turns left, 0 looks down -z. */
+  yaw: number;
+}
+
+export interface ArenaMap {
+  format: typeof ARENA_MAP_FORMAT;
+  version: typeof ARENA_MAP_VERSION;
+  id: string;
+  name: string;
+  /** Distance from the centre to each edge of the square play space. */
+  halfExtent: number;
+  playerStart: PlayerStart;
+  obstacles: ArenaObstacle[];
+  spawnZones: SpawnZone[];
+}
+
+const OBSTACLE_KINDS: readonly ObstacleKind[] = ['WALL', 'CRATE', 'RAMP'];
+const RAMP_RISES: readonly RampRise[] = ['+x', '-x', '+z', '-z'];
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isPositiveNumber = (value: unknown): value is number => isFiniteNumber(value) && value > 0;
+
+const isFloorPoint = (value: unknown): value is FloorPoint =>
+  Array.isArray(value) && value.length === 2 && value.every(isFiniteNumber);
+
+const isObstacle = (value: unknown): value is ArenaObstacle => {
+  if (!value || typeof value !== 'object') return false;
+  const obstacle = value as Record<string, unknown>;
+  const { kind, rises } = obstacle;
+  return (
+    OBSTACLE_KINDS.includes(kind as ObstacleKind) &&
+    isFloorPoint(obstacle.center) &&
+    Array.isArray(obstacle.size) &&
+    obstacle.size.length === 3 &&
+    obstacle.size.every(isPositiveNumber) &&
+    (kind === 'RAMP' ? RAMP_RISES.includes(rises as RampRise) : rises === undefined)
+  );
+};
+
+const isSpawnZone = (value: unknown): value is SpawnZone => {
+  if (!value || typeof value !== 'object') return false;
+  const zone = value as Record<string, unknown>;
+  if (zone.kind === 'AROUND_PLAYER') {
+    return isPositiveNumber(zone.minRadius) && isFiniteNumber(zone.maxRadius) && zone.maxRadius >= zone.minRadius;
+  }
+  return zone.kind === 'AREA' && isFloorPoint(zone.center) && isPositiveNumber(zone.radius);
+};
+
+const isPlayerStart = (value: unknown): value is PlayerStart => {
+  if (!value || typeof value !== 'object') return false;
+  const start = value as Record<string, unknown>;
+  return isFloorPoint(start.position) && isFiniteNumber(start.yaw);
+};
+
+export const isArenaMap = (value: unknown): value is ArenaMap => {
+  if (!value || typeof value !== 'object') return false;
+  const map = value as Record<string, unknown>;
+  return (
+    map.format === ARENA_MAP_FORMAT &&
+    map.version === ARENA_MAP_VERSION &&
+    typeof map.id === 'string' &&
+    map.id.length > 0 &&
+    typeof map.name === 'string' &&
+    isPositiveNumber(map.halfExtent) &&
+    isPlayerStart(map.playerStart) &&
+    Array.isArray(map.obstacles) &&
+    map.obstacles.every(isObstacle) &&
+    Array.isArray(map.spawnZones) &&
+    map.spawnZones.every(isSpawnZone)
+  );
+};
+
+const isInside = ([x, z]: FloorPoint, halfExtent: number) => Math.abs(x) <= halfExtent && Math.abs(z) <= halfExtent;
+
+/** Checks an already-decoded map, such as one bundled as a JSON module. */
+export const loadArenaMap = (payload: unknown): ArenaMap => {
+  const version = (payload as { version?: unknown } | null)?.version;
+  if (version !== undefined && version !== ARENA_MAP_VERSION) {
+    throw new Error(`Versão de mapa não suportada: ${String(version)}.`);
+  }
+  if (!isArenaMap(payload)) {
+    throw new Error('Arquivo de mapa inválido ou corrompido.');
+  }
+  if (!payload.spawnZones.length) {
+    throw new Error('Mapa não define zonas de surgimento.');
+  }
+  if (!isInside(payload.playerStart.position, payload.halfExtent)) {
+    throw new Error('Posição inicial do jogador fora dos limites do mapa.');
+  }
+  return payload;
+};
+
+export const parseArenaMap = (raw: string): ArenaMap => {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(raw);
+  } catch {
+    throw new Error('Arquivo de mapa não é um JSON válido.');
+  }
+  return loadArenaMap(payload);
+};
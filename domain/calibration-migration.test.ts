@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_TRACKER_CALIBRATION, TRACKER_CALIBRATION_VERSION } from '../config/gameConfig';
+import { migrateTrackerCalibration } from './calibration-migration';
+
+describe('migrateTrackerCalibration', () => {
+  it('converts version 1 image-space thresholds into hand-scale units', () => {
+    const migrated = migrateTrackerCalibration({
+      movementCenterX: 0.3,
+      movementCenterY: 0.5,
+      movementDeadzone: 0.085,
+      fistStopThreshold: 0.14,
+      indexExtendedThreshold: 0.3,
+      fireCurlThreshold: 0.12,
+      openHandThreshold: 0.31,
+      smoothingFrames: 2,
+    });
+
+    expect(migrated.calibrationVersion).toBe(TRACKER_CALIBRATION_VERSION);
+    expect(migrated.fistStopThreshold).toBeCloseTo(0.875);
+    expect(migrated.indexExtendedThreshold).toBeCloseTo(1.875);
+    expect(migrated.fireCurlThreshold).toBeCloseTo(0.75);
+    expect(migrated.movementCenterX).toBe(0.3);
+    expect(migrated.movementDeadzone).toBe(0.085);
+    expect(migrated.aimRange).toBe(DEFAULT_TRACKER_CALIBRATION.aimRange);
+  });
+
+  it('leaves current calibrations untouched', () => {
+    const current = { ...DEFAULT_TRACKER_CALIBRATION, fistStopThreshold: 1.1 };
+    expect(migrateTrackerCalibration(current)).toEqual(current);
+  });
+});
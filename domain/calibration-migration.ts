@@ -0,0 +1,36 @@
+import { DEFAULT_TRACKER_CALIBRATION, TRACKER_CALIBRATION_VERSION } from '../config/gameConfig';
+import { TrackerCalibration } from '../types';
+
+/**
+ * Wrist → middle-knuckle span, in image units, of a hand at the distance the
+ * version 1 image-space thresholds were tuned for.
+ */
+export const REFERENCE_HAND_SCALE = 0.16;
+
+const HAND_SCALE_FIELDS = [
+  'fistStopThreshold',
+  'indexExtendedThreshold',
+  'fireCurlThreshold',
+  'openHandThreshold',
+] as const;
+
+/**
+ * Brings a stored calibration up to the current version. Version 1 (no
+ * `calibrationVersion` field) kept finger thresholds as raw image distances;
+ * they are converted to hand-scale units and missing fields inherit defaults.
+ */
+export const migrateTrackerCalibration = (stored: Partial<TrackerCalibration>): TrackerCalibration => {
+  const version = stored.calibrationVersion ?? 1;
+  const migrated: TrackerCalibration = { ...DEFAULT_TRACKER_CALIBRATION, ...stored };
+
+  if (version < 2) {
+    HAND_SCALE_FIELDS.forEach((field) => {
+      if (typeof stored[field] === 'number') {
+        migrated[field] = Number((stored[field] / REFERENCE_HAND_SCALE).toFixed(3));
+      }
+    });
+  }
+
+  migrated.calibrationVersion = TRACKER_CALIBRATION_VERSION;
+  return migrated;
+};
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_TRACKER_CALIBRATION } from '../config/gameConfig';
+import { CombatGesture, MovementGesture } from '../types';
+import { COMBAT_POSES, MOVEMENT_POSES } from './__fixtures__/hand-poses';
+import { deriveCalibration, measurePose, WIZARD_MIN_SAMPLES, WizardSamples } from './calibration-wizard';
+import { classifyCombat, classifyMovement, HandLandmarks } from './gesture-classifier';
+
+const hold = (pose: HandLandmarks, count = WIZARD_MIN_SAMPLES) => Array.from({ length: count }, () => measurePose(pose));
+
+const recordedSamples = (): WizardSamples => ({
+  OPEN_PALM: hold(COMBAT_POSES.openPalm),
+  FIST: hold(MOVEMENT_POSES.fistCentered),
+  POINTING: hold(COMBAT_POSES.aim),
+  TRIGGER: hold(COMBAT_POSES.fire),
+  NEUTRAL: hold(MOVEMENT_POSES.raised),
+});
+
+describe('deriveCalibration', () => {
+  it('produces thresholds that recognise the poses it was derived from', () => {
+    const { calibration, issues } = deriveCalibration(recordedSamples(), DEFAULT_TRACKER_CALIBRATION);
+    expect(issues).toEqual([]);
+
+    expect(classifyCombat(COMBAT_POSES.openPalm, calibration)).toBe(CombatGesture.RELOAD);
+    expect(classifyCombat(COMBAT_POSES.aim, calibration)).toBe(CombatGesture.AIM);
+    expect(classifyCombat(COMBAT_POSES.fire, calibration)).toBe(CombatGesture.FIRE);
+    expect(classifyMovement(MOVEMENT_POSES.fistCentered, calibration)).toBe(MovementGesture.STOP);
+    expect(classifyMovement(MOVEMENT_POSES.raised, calibration)).toBe(MovementGesture.STOP);
+  });
+
+  it('keeps a safety margin between separated poses', () => {
+    const { calibration } = deriveCalibration(recordedSamples(), DEFAULT_TRACKER_CALIBRATION);
+    const fistReach = Math.max(...measurePose(MOVEMENT_POSES.fistCentered).reach);
+    const palmReach = Math.min(...measurePose(COMBAT_POSES.openPalm).reach);
+    expect(calibration.fistStopThreshold).toBeGreaterThan(fistReach);
+    expect(calibration.openHandThreshold).toBeLessThan(palmReach);
+    expect(calibration.openHandThreshold).toBeGreaterThan(calibration.fistStopThreshold);
+  });
+
+  it('keeps the base calibration when a step lacks samples', () => {
+    const samples = { ...recordedSamples(), TRIGGER: hold(COMBAT_POSES.fire, 3) };
+    const { calibration, issues } = deriveCalibration(samples, DEFAULT_TRACKER_CALIBRATION);
+    expect(calibration).toBe(DEFAULT_TRACKER_CALIBRATION);
+    expect(issues).toHaveLength(1);
+  });
+
+  it('flags a trigger pull that looks like the aim pose', () => {
+    const samples = { ...recordedSamples(), TRIGGER: hold(COMBAT_POSES.aim) };
+    expect(deriveCalibration(samples, DEFAULT_TRACKER_CALIBRATION).issues).toHaveLength(1);
+  });
+
+  it('flags a pointing pose whose ring and pinky are too loose to aim', () => {
+    const samples = { ...recordedSamples(), POINTING: hold(COMBAT_POSES.aimRingLoose) };
+    const { calibration, issues } = deriveCalibration(samples, DEFAULT_TRACKER_CALIBRATION);
+    expect(issues).toEqual(['No gesto de arma, dobre mais o anelar e o mínimo contra a palma.']);
+    expect(classifyCombat(COMBAT_POSES.aimRingLoose, calibration)).not.toBe(CombatGesture.AIM);
+  });
+});
@@ -0,0 +1,153 @@
+import { TrackerCalibration } from '../types';
+import { CURLED_FINGER_LIMIT, FINGER_TIPS, getRelativeDistance, HandLandmarks, LANDMARK } from './gesture-classifier';
+
+export type WizardStepId = 'OPEN_PALM' | 'FIST' | 'POINTING' | 'TRIGGER' | 'NEUTRAL';
+
+export type WizardHandRole = 'movement' | 'combat';
+
+export interface WizardStep {
+  id: WizardStepId;
+  hand: WizardHandRole;
+  title: string;
+  instruction: string;
+}
+
+export const WIZARD_STEPS: readonly WizardStep[] = [
+  {
+    id: 'OPEN_PALM',
+    hand: 'combat',
+    title: 'Mão aberta',
+    instruction: 'Abra totalmente a mão de combate, dedos afastados e palma voltada para a câmera.',
+  },
+  {
+    id: 'FIST',
+    hand: 'movement',
+    title: 'Punho fechado',
+    instruction: 'Feche a mão de movimento em punho firme, sem esconder o pulso.',
+  },
+  {
+    id: 'POINTING',
+    hand: 'combat',
+    title: 'Gesto de arma',
+    instruction: 'Indicador esticado, polegar para cima e demais dedos dobrados. Não puxe o gatilho.',
+  },
+  {
+    id: 'TRIGGER',
+    hand: 'combat',
+    title: 'Gatilho',
+    instruction: 'Mantenha o gesto de arma e curve o indicador como se estivesse disparando.',
+  },
+  {
+    id: 'NEUTRAL',
+    hand: 'movement',
+    title: 'Centro de movimento',
+    instruction: 'Relaxe a mão de movimento na posição em que você quer ficar parado.',
+  },
+];
+
+/** How long each pose is held while samples are collected. */
+export const WIZARD_HOLD_MS = 3000;
+/** Fewer samples than this means the hand was mostly out of frame. */
+export const WIZARD_MIN_SAMPLES = 12;
+
+export interface PoseMeasurement {
+  /** Wrist → fingertip distance for index, middle, ring and pinky, in hand-scale units. */
+  reach: [number, number, number, number];
+  /** Index fingertip → index knuckle distance, in hand-scale units. */
+  indexCurl: number;
+  wristX: number;
+  wristY: number;
+}
+
+export type WizardSamples = Partial<Record<WizardStepId, PoseMeasurement[]>>;
+
+export interface WizardResult {
+  calibration: TrackerCalibration;
+  issues: string[];
+}
+
+export const measurePose = (landmarks: HandLandmarks): PoseMeasurement => {
+  const wrist = landmarks[LANDMARK.WRIST];
+  const [index, middle, ring, pinky] = FINGER_TIPS.map((idx) => getRelativeDistance(landmarks, idx, LANDMARK.WRIST));
+  return {
+    reach: [index, middle, ring, pinky],
+    indexCurl: getRelativeDistance(landmarks, LANDMARK.INDEX_TIP, LANDMARK.INDEX_MCP),
+    wristX: wrist.x,
+    wristY: wrist.y,
+  };
+};
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+/** Collapses a held pose into its median measurement, which ignores tracking spikes. */
+export const summarizeSamples = (samples: PoseMeasurement[]): PoseMeasurement => ({
+  reach: [0, 1, 2, 3].map((finger) => median(samples.map((sample) => sample.reach[finger]))) as PoseMeasurement['reach'],
+  indexCurl: median(samples.map((sample) => sample.indexCurl)),
+  wristX: median(samples.map((sample) => sample.wristX)),
+  wristY: median(samples.map((sample) => sample.wristY)),
+});
+
+const lerp = (from: number, to: number, t: number) => from + (to - from) * t;
+
+const round = (value: number) => Number(value.toFixed(3));
+
+const roundPosition = (value: number) => round(Math.min(1, Math.max(0, value)));
+
+/**
+ * Places each threshold between the poses it has to separate, biased toward
+ * the pose that should win ties, so small posture drift does not flip gestures.
+ */
+export const deriveCalibration = (samples: WizardSamples, base: TrackerCalibration): WizardResult => {
+  const missing = WIZARD_STEPS.filter((step) => (samples[step.id]?.length ?? 0) < WIZARD_MIN_SAMPLES);
+  if (missing.length) {
+    return {
+      calibration: base,
+      issues: missing.map((step) => `Poucas amostras em "${step.title}". Repita a etapa com a mão visível.`),
+    };
+  }
+
+  const palm = summarizeSamples(samples.OPEN_PALM ?? []);
+  const fist = summarizeSamples(samples.FIST ?? []);
+  const pointing = summarizeSamples(samples.POINTING ?? []);
+  const trigger = summarizeSamples(samples.TRIGGER ?? []);
+  const neutral = summarizeSamples(samples.NEUTRAL ?? []);
+  const issues: string[] = [];
+
+  const openMin = Math.min(...palm.reach);
+  const fistMax = Math.max(...fist.reach);
+  if (fistMax >= openMin) {
+    issues.push('Punho e mão aberta ficaram parecidos. Feche mais o punho ou abra mais a mão.');
+  }
+
+  const extendedIndex = Math.min(pointing.reach[0], trigger.reach[0]);
+  const curledMiddle = pointing.reach[1];
+  if (curledMiddle >= extendedIndex) {
+    issues.push('No gesto de arma, o dedo médio precisa ficar dobrado abaixo do indicador.');
+  }
+
+  // The classifier reads AIM and FIRE only with ring and pinky under a fixed limit, which no threshold here moves.
+  if (pointing.reach[2] >= CURLED_FINGER_LIMIT || pointing.reach[3] >= CURLED_FINGER_LIMIT) {
+    issues.push('No gesto de arma, dobre mais o anelar e o mínimo contra a palma.');
+  }
+
+  if (trigger.indexCurl >= pointing.indexCurl) {
+    issues.push('O gatilho não se diferenciou da mira. Curve mais o indicador ao disparar.');
+  }
+
+  return {
+    issues,
+    calibration: {
+      ...base,
+      movementCenterX: roundPosition(neutral.wristX),
+      movementCenterY: roundPosition(neutral.wristY),
+      fistStopThreshold: round(lerp(fistMax, openMin, 0.25)),
+      openHandThreshold: round(lerp(fistMax, openMin, 0.8)),
+      indexExtendedThreshold: round(lerp(curledMiddle, extendedIndex, 0.75)),
+      fireCurlThreshold: round(lerp(trigger.indexCurl, pointing.indexCurl, 0.5)),
+    },
+  };
+};
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { GRENADE_BLAST_RADIUS, MELEE_RANGE } from '../config/gameConfig';
+import { EnemyAIState } from '../types';
+import { createTarget } from './__fixtures__/targets';
+import {
+  createGrenadeThrow,
+  findBlastTargets,
+  findMeleeTarget,
+  grenadePositionAt,
+  Vec3,
+} from './combat-abilities';
+
+const enemy = (id: string, position: Vec3, state = EnemyAIState.ATTACKING) => createTarget({ id, position, state });
+
+const PLAYER: Vec3 = [0, 1.6, 0];
+const FORWARD: Vec3 = [0, 0, -1];
+
+describe('findMeleeTarget', () => {
+  it('picks the closest drone in front of the player within reach', () => {
+    const near = enemy('near', [0.4, 1.6, -2]);
+    const far = enemy('far', [0, 1.6, -3]);
+    expect(findMeleeTarget([far, near], PLAYER, FORWARD)).toBe(near);
+  });
+
+  it('ignores drones behind, out of reach or already dead', () => {
+    expect(
+      findMeleeTarget(
+        [
+          enemy('behind', [0, 1.6, 2]),
+          enemy('far', [0, 1.6, -(MELEE_RANGE + 0.5)]),
+          enemy('dead', [0, 1.6, -1], EnemyAIState.DEAD),
+        ],
+        PLAYER,
+        FORWARD,
+      ),
+    ).toBeNull();
+  });
+});
+
+describe('grenades', () => {
+  it('arcs forward and comes to rest on the floor', () => {
+    const grenade = createGrenadeThrow('g', PLAYER, [0, -0.2, -2], 0);
+    const apex = grenadePositionAt(grenade, 300);
+    const landed = grenadePositionAt(grenade, 5000);
+    expect(apex[1]).toBeGreaterThan(PLAYER[1]);
+    expect(apex[2]).toBeLessThan(0);
+    expect(landed[1]).toBeCloseTo(0.12);
+    expect(grenadePositionAt(grenade, 9000)).toEqual(landed);
+    expect(landed[0]).toBeCloseTo(0);
+  });
+
+  it('catches every live drone inside the blast radius', () => {
+    const hits = findBlastTargets(
+      [
+        enemy('inside', [1, 1.6, -10]),
+        enemy('edge', [0, 1.6, -10 - GRENADE_BLAST_RADIUS + 1.7]),
+        enemy('outside', [0, 1.6, -20]),
+        enemy('dead', [0, 1.6, -10], EnemyAIState.DEAD),
+      ],
+      [0, 0.12, -10],
+    );
+    expect(hits.map((target) => target.id)).toEqual(['inside', 'edge']);
+  });
+});
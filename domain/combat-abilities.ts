@@ -0,0 +1,89 @@
+import {
+  GRENADE_BLAST_RADIUS,
+  GRENADE_THROW_SPEED,
+  MELEE_MIN_FACING,
+  MELEE_RANGE,
+} from '../config/gameConfig';
+import { EnemyAIState, Target } from '../types';
+
+export type Vec3 = [number, number, number];
+
+export interface GrenadeThrow {
+  id: string;
+  origin: Vec3;
+  velocity: Vec3;
+  /** Simulation time of the throw; the fuse and the arc are measured from it. */
+  thrownAt: number;
+}
+
+const GRAVITY = 9.8;
+/** Launch angle above the horizontal, so grenades lob over nearby drones. */
+const THROW_ELEVATION = Math.PI / 7;
+/** Height at which a grenade comes to rest on the floor. */
+const GRENADE_REST_HEIGHT = 0.12;
+
+const isAlive = (enemy: Target) => enemy.state !== EnemyAIState.DEAD;
+
+/** Throws from `origin` along the horizontal component of `forward`. */
+export const createGrenadeThrow = (id: string, origin: Vec3, forward: Vec3, thrownAt: number): GrenadeThrow => {
+  const length = Math.hypot(forward[0], forward[2]) || 1;
+  const horizontal = GRENADE_THROW_SPEED * Math.cos(THROW_ELEVATION);
+  return {
+    id,
+    origin,
+    velocity: [
+      (forward[0] / length) * horizontal,
+      GRENADE_THROW_SPEED * Math.sin(THROW_ELEVATION),
+      (forward[2] / length) * horizontal,
+    ],
+    thrownAt,
+  };
+};
+
+/** Ballistic arc of a grenade; once it lands it stays where it touched down. */
+export const grenadePositionAt = (grenade: GrenadeThrow, elapsedMs: number): Vec3 => {
+  const [vx, vy, vz] = grenade.velocity;
+  const [ox, oy, oz] = grenade.origin;
+  const drop = oy - GRENADE_REST_HEIGHT;
+  const landingSeconds = (vy + Math.sqrt(vy * vy + 2 * GRAVITY * Math.max(0, drop))) / GRAVITY;
+  const seconds = Math.min(Math.max(0, elapsedMs) / 1000, landingSeconds);
+  return [
+    ox + vx * seconds,
+    Math.max(GRENADE_REST_HEIGHT, oy + vy * seconds - 0.5 * GRAVITY * seconds * seconds),
+    oz + vz * seconds,
+  ];
+};
+
+/**
+ * The closest live drone within melee range and in front of the player,
+ * judged on the ground plane so hovering drones are not missed.
+ */
+export const findMeleeTarget = (enemies: readonly Target[], player: Vec3, forward: Vec3): Target | null => {
+  const facingLength = Math.hypot(forward[0], forward[2]) || 1;
+  let closest: Target | null = null;
+  let closestDistance = MELEE_RANGE;
+
+  enemies.filter(isAlive).forEach((enemy) => {
+    const dx = enemy.position[0] - player[0];
+    const dz = enemy.position[2] - player[2];
+    const distance = Math.hypot(dx, dz);
+    if (distance > closestDistance) return;
+    const facing = distance === 0 ? 1 : (dx * forward[0] + dz * forward[2]) / (distance * facingLength);
+    if (facing < MELEE_MIN_FACING) return;
+    closest = enemy;
+    closestDistance = distance;
+  });
+
+  return closest;
+};
+
+export const findBlastTargets = (
+  enemies: readonly Target[],
+  center: Vec3,
+  radius = GRENADE_BLAST_RADIUS,
+): Target[] =>
+  enemies.filter(
+    (enemy) =>
+      isAlive(enemy) &&
+      Math.hypot(enemy.position[0] - center[0], enemy.position[1] - center[1], enemy.position[2] - center[2]) <= radius,
+  );
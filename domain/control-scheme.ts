@@ -0,0 +1,38 @@
+import { DEFAULT_TRACKER_CALIBRATION } from '../config/gameConfig';
+import { ControlScheme, TrackerCalibration } from '../types';
+
+export interface ControlSchemeLabels {
+  movementHand: string;
+  combatHand: string;
+}
+
+export const CONTROL_SCHEME_LABELS: Record<ControlScheme, ControlSchemeLabels> = {
+  RIGHT_HANDED: { movementHand: 'Mão Esquerda', combatHand: 'Mão Direita' },
+  LEFT_HANDED: { movementHand: 'Mão Direita', combatHand: 'Mão Esquerda' },
+};
+
+const MIRRORED_FIELDS = ['movementCenterX', 'lookCenterX', 'aimCenterX'] as const;
+
+export const isControlScheme = (value: unknown): value is ControlScheme =>
+  value === 'RIGHT_HANDED' || value === 'LEFT_HANDED';
+
+/**
+ * Whether a hand with this wrist x drives movement. Landmarks are in raw camera
+ * space, so the hand in the lower half of x is the player's left in the mirrored preview.
+ */
+export const isMovementHand = (wristX: number, scheme: ControlScheme) =>
+  scheme === 'RIGHT_HANDED' ? wristX < 0.5 : wristX >= 0.5;
+
+/** Reflects the horizontal centres so a calibration follows the hands when roles swap. */
+export const mirrorTrackerCalibration = (calibration: TrackerCalibration): TrackerCalibration => {
+  const mirrored = { ...calibration };
+  MIRRORED_FIELDS.forEach((field) => {
+    mirrored[field] = Number((1 - calibration[field]).toFixed(3));
+  });
+  return mirrored;
+};
+
+export const createDefaultTrackerCalibration = (scheme: ControlScheme): TrackerCalibration =>
+  scheme === 'RIGHT_HANDED'
+    ? { ...DEFAULT_TRACKER_CALIBRATION }
+    : mirrorTrackerCalibration(DEFAULT_TRACKER_CALIBRATION);
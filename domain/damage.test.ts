@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { WEAK_SPOT_DAMAGE_MULTIPLIER, WEAK_SPOT_SCORE_MULTIPLIER, WEAPON_PROFILES } from '../config/gameConfig';
+import { EnemyHit } from '../types';
+import { createTarget } from './__fixtures__/targets';
+import { applyEnemyHit, computeShotDamage, getDamageFalloff, scoreDefeat } from './damage';
+
+const RIFLE = WEAPON_PROFILES.RIFLE;
+
+const drone = createTarget({ id: 'drone', position: [0, 1.6, -10] });
+
+const shot = (damage: number, weakSpot = false): EnemyHit => ({ cause: 'SHOT', damage, weakSpot, distance: 10 });
+
+describe('getDamageFalloff', () => {
+  it('keeps full damage up close and fades linearly down to the floor', () => {
+    expect(getDamageFalloff(RIFLE, 0)).toBe(1);
+    expect(getDamageFalloff(RIFLE, RIFLE.falloffStart)).toBe(1);
+    expect(getDamageFalloff(RIFLE, (RIFLE.falloffStart + RIFLE.falloffEnd) / 2)).toBeCloseTo(
+      (1 + RIFLE.minDamageFactor) / 2,
+    );
+    expect(getDamageFalloff(RIFLE, RIFLE.falloffEnd * 3)).toBe(RIFLE.minDamageFactor);
+  });
+});
+
+describe('computeShotDamage', () => {
+  it('multiplies weak-spot hits', () => {
+    expect(computeShotDamage(RIFLE, 5, false)).toBe(RIFLE.damage);
+    expect(computeShotDamage(RIFLE, 5, true)).toBe(RIFLE.damage * WEAK_SPOT_DAMAGE_MULTIPLIER);
+    expect(computeShotDamage(RIFLE, 200, false)).toBe(Math.round(RIFLE.damage * RIFLE.minDamageFactor));
+  });
+});
+
+describe('applyEnemyHit', () => {
+  it('takes several body hits to defeat a drone and records the last hit', () => {
+    let current = drone;
+    let defeated = false;
+    let hits = 0;
+    while (!defeated) {
+      ({ enemy: current, defeated } = applyEnemyHit(current, shot(RIFLE.damage), hits * 100));
+      hits += 1;
+    }
+
+    expect(hits).toBe(Math.ceil(drone.maxHealth / RIFLE.damage));
+    expect(current.health).toBe(0);
+    expect(current.lastHit).toEqual({ at: (hits - 1) * 100, weakSpot: false });
+  });
+});
+
+describe('scoreDefeat', () => {
+  it('pays a bonus for weak-spot kills', () => {
+    expect(scoreDefeat(320, 1, 1, shot(40))).toBe(320);
+    expect(scoreDefeat(320, 1, 1, shot(80, true))).toBe(Math.round(320 * WEAK_SPOT_SCORE_MULTIPLIER));
+  });
+});
@@ -0,0 +1,26 @@
+import { WEAK_SPOT_DAMAGE_MULTIPLIER, WEAK_SPOT_SCORE_MULTIPLIER } from '../config/gameConfig';
+import { EnemyHit, Target, WeaponProfile } from '../types';
+
+/** Share of a weapon's damage that survives at `distance` metres. */
+export const getDamageFalloff = (weapon: WeaponProfile, distance: number) => {
+  if (distance <= weapon.falloffStart) return 1;
+  if (distance >= weapon.falloffEnd) return weapon.minDamageFactor;
+  const progress = (distance - weapon.falloffStart) / (weapon.falloffEnd - weapon.falloffStart);
+  return 1 - progress * (1 - weapon.minDamageFactor);
+};
+
+export const computeShotDamage = (weapon: WeaponProfile, distance: number, weakSpot: boolean) =>
+  Math.round(weapon.damage * getDamageFalloff(weapon, distance) * (weakSpot ? WEAK_SPOT_DAMAGE_MULTIPLIER : 1));
+
+/** Applies a hit at `at` (simulation time); the drone is defeated once its health reaches 0. */
+export const applyEnemyHit = (enemy: Target, hit: EnemyHit, at: number) => {
+  const health = Math.max(0, enemy.health - hit.damage);
+  return {
+    enemy: { ...enemy, health, lastHit: { at, weakSpot: hit.weakSpot } },
+    defeated: health === 0,
+  };
+};
+
+/** Points for a defeat: later waves pay more, and finishing an enemy through its eye pays a bonus. */
+export const scoreDefeat = (scoreValue: number, scoreMultiplier: number, wave: number, hit: EnemyHit) =>
+  Math.round(scoreValue * scoreMultiplier * (1 + (wave - 1) * 0.18) * (hit.weakSpot ? WEAK_SPOT_SCORE_MULTIPLIER : 1));
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_ARENA_MAP } from '../config/arenaMaps';
+import { DIFFICULTY_PROFILES, ENEMY_ARCHETYPES } from '../config/gameConfig';
+import { EnemyAIState, EnemyArchetypeId, Target } from '../types';
+import { createTarget } from './__fixtures__/targets';
+import { Vec3 } from './combat-abilities';
+import { EnemyStepContext, healAllies, stepEnemy } from './enemy-ai';
+import { createPathPlanner, getNavGrid } from './navigation';
+import { createSeededRng } from './rng';
+
+const PLAYER: Vec3 = [0, 1.6, 0];
+
+const unit = (id: string, archetype: EnemyArchetypeId, position: Vec3, overrides: Partial<Target> = {}) =>
+  createTarget({ id, archetype, position, state: EnemyAIState.PATROLLING, ...overrides });
+
+const context = (timeMs: number, dtSeconds = 0.05): EnemyStepContext => ({
+  player: PLAYER,
+  wave: 1,
+  timeMs,
+  dtSeconds,
+  difficulty: 'CASUAL',
+  rng: createSeededRng(1),
+  clampPosition: (position) => position,
+  planner: createPathPlanner(getNavGrid(DEFAULT_ARENA_MAP), timeMs),
+});
+
+describe('stepEnemy', () => {
+  it('detonates a kamikaze on contact with the player', () => {
+    const { KAMIKAZE } = ENEMY_ARCHETYPES;
+    const result = stepEnemy(unit('k', 'KAMIKAZE', [0, 1.6, -1.9]), context(100));
+    expect(result.detonated).toBe(true);
+    expect(result.contactDamage).toBe(Math.round(DIFFICULTY_PROFILES.CASUAL.enemyDamage * KAMIKAZE.damageScale));
+
+    expect(stepEnemy(unit('k', 'KAMIKAZE', [0, 1.6, -10]), context(100)).detonated).toBe(false);
+  });
+
+  it('makes the sniper hold its aim for the telegraph before firing', () => {
+    const { SNIPER } = ENEMY_ARCHETYPES;
+    const telegraphMs = SNIPER.telegraphMs ?? 0;
+    const start = 10_000;
+    let sniper = unit('s', 'SNIPER', [0, 1.6, -24]);
+
+    let result = stepEnemy(sniper, context(start));
+    expect(result.enemy.aimStartedAt).toBe(start);
+    expect(result.shotDamage).toBe(0);
+
+    sniper = result.enemy;
+    result = stepEnemy(sniper, context(start + telegraphMs - 50));
+    expect(result.shotDamage).toBe(0);
+
+    result = stepEnemy(result.enemy, context(start + telegraphMs));
+    expect(result.shotDamage).toBeGreaterThan(0);
+    expect(result.enemy.aimStartedAt).toBeNull();
+    expect(result.enemy.lastActionTime).toBe(start + telegraphMs);
+  });
+
+  it('turns the tank toward the player no faster than its turn rate', () => {
+    const { TANK } = ENEMY_ARCHETYPES;
+    // Facing +z with the player directly behind it.
+    const result = stepEnemy(unit('t', 'TANK', [0, 1.6, 8]), context(100, 0.1));
+    expect(Math.abs(result.enemy.heading)).toBeCloseTo((TANK.turnRate ?? 0) * 0.1);
+  });
+});
+
+describe('healAllies', () => {
+  it('restores nearby allies but not the healer or distant enemies', () => {
+    const { SUPPORT } = ENEMY_ARCHETYPES;
+    const enemies = [
+      unit('support', 'SUPPORT', [0, 1.6, -20], { health: 10 }),
+      unit('near', 'DRONE', [2, 1.6, -20], { health: 50 }),
+      unit('far', 'DRONE', [40, 1.6, -20], { health: 50 }),
+    ];
+
+    const [support, near, far] = healAllies(enemies, 1);
+    expect(support.health).toBe(10);
+    expect(near.health).toBe(50 + (SUPPORT.healPerSecond ?? 0));
+    expect(far.health).toBe(50);
+  });
+});
@@ -0,0 +1,188 @@
+import { DIFFICULTY_PROFILES, ENEMY_ARCHETYPES } from '../config/gameConfig';
+import { DifficultyLevel, EnemyAIState, EnemyArchetype, Target } from '../types';
+import { Vec3 } from './combat-abilities';
+import { PathPlanner } from './navigation';
+import { Rng } from './rng';
+import {
+  add,
+  distance,
+  headingDelta,
+  headingToward,
+  horizontalDirection,
+  normalize,
+  perpendicular,
+  scale,
+} from './vector-math';
+
+export interface EnemyStepContext {
+  player: Vec3;
+  wave: number;
+  timeMs: number;
+  dtSeconds: number;
+  difficulty: DifficultyLevel;
+  rng: Rng;
+  /** Keeps positions inside the arena and clear of walls and crates. */
+  clampPosition: (position: Vec3) => Vec3;
+  /** Routes movement around cover. */
+  planner: PathPlanner;
+}
+
+export interface EnemyStepResult {
+  enemy: Target;
+  /** Damage a kamikaze dealt by reaching the player this step. */
+  contactDamage: number;
+  /** Damage carried by the round the enemy fired this step, or 0 when it held fire. */
+  shotDamage: number;
+  /** A kamikaze reached the player and blew itself up; it should be removed without scoring. */
+  detonated: boolean;
+}
+
+/** Later waves widen every archetype's engagement ranges a little. */
+export const getEngagementRanges = (archetype: EnemyArchetype, wave: number) => ({
+  attackRange: archetype.attackRange + Math.min(5, wave * 0.4),
+  alertRange: archetype.alertRange + Math.min(8, wave * 0.45),
+});
+
+/** Horizontal velocity that circles the player while drifting toward `preferredRange`. */
+const orbit = (towardPlayer: Vec3, distanceToPlayer: number, preferredRange: number, strafe: number): Vec3 => {
+  let approachFactor = 0;
+  if (distanceToPlayer > preferredRange + 2) approachFactor = 1;
+  if (distanceToPlayer < preferredRange - 2) approachFactor = -1;
+  return normalize(add(scale(normalize(perpendicular(towardPlayer)), strafe), scale(towardPlayer, approachFactor)));
+};
+
+/**
+ * Advances one enemy's patrol → alert → attack behaviour. Every archetype
+ * patrols and closes in the same way; they differ once in attack range, and
+ * only while nothing blocks the way to the player. Behind cover they follow
+ * the planner's route instead.
+ */
+export const stepEnemy = (enemy: Target, context: EnemyStepContext): EnemyStepResult => {
+  const { player, wave, timeMs, dtSeconds, rng, clampPosition, planner } = context;
+  const archetype = ENEMY_ARCHETYPES[enemy.archetype];
+  const profile = DIFFICULTY_PROFILES[context.difficulty];
+  const elapsedSeconds = timeMs / 1000;
+  const distanceToPlayer = distance(enemy.position, player);
+  const { attackRange, alertRange } = getEngagementRanges(archetype, wave);
+  const baseSpeed = profile.enemySpeedScale * archetype.speedScale * dtSeconds;
+  const attackDamage = Math.round(profile.enemyDamage * archetype.damageScale);
+  const canAttack = timeMs - enemy.lastActionTime > profile.enemyAttackCooldownMs * archetype.attackCooldownScale;
+
+  let state = EnemyAIState.PATROLLING;
+  if (distanceToPlayer <= attackRange) state = EnemyAIState.ATTACKING;
+  else if (distanceToPlayer <= alertRange) state = EnemyAIState.ALERT;
+
+  let position = enemy.position;
+  let targetPoint = enemy.targetPoint;
+  let lastActionTime = enemy.lastActionTime;
+  let aimStartedAt: number | null = null;
+  let route = enemy.route;
+  let contactDamage = 0;
+  let shotDamage = 0;
+  let detonated = false;
+
+  const towardPlayer = horizontalDirection(position, player);
+  const strafeDirection = Math.sin(elapsedSeconds * 1.8 + enemy.strafeSeed) > 0 ? 1 : -1;
+  const steer = (goal: Vec3) => {
+    const steering = planner.steer(enemy, goal);
+    route = steering.route;
+    return steering;
+  };
+
+  if (state === EnemyAIState.PATROLLING) {
+    if (Math.hypot(targetPoint[0] - position[0], targetPoint[2] - position[2]) < 1.5) {
+      const [x, , z] = clampPosition([position[0] + (rng() - 0.5) * 24, 0, position[2] + (rng() - 0.5) * 24]);
+      targetPoint = [x, position[1], z];
+    } else {
+      position = add(position, scale(steer(targetPoint).direction, baseSpeed * 2.2));
+    }
+  } else if (state === EnemyAIState.ALERT) {
+    const { direction, direct } = steer(player);
+    const sweep = direct
+      ? scale(perpendicular(direction), Math.sin(elapsedSeconds * 2 + enemy.strafeSeed) * 0.2)
+      : ([0, 0, 0] as Vec3);
+    position = add(position, scale(normalize(add(direction, sweep)), baseSpeed * 4));
+  } else {
+    const { direction: approach, direct } = steer(player);
+    // The archetype's own movement in the open, or the route around cover otherwise.
+    const moveOr = (velocity: () => Vec3) => (direct ? velocity() : approach);
+    switch (archetype.id) {
+      case 'KAMIKAZE':
+        position = add(position, scale(approach, baseSpeed * 5.6));
+        if (distance(position, player) <= (archetype.contactRadius ?? 0)) {
+          contactDamage = attackDamage;
+          detonated = true;
+        }
+        break;
+      case 'SNIPER': {
+        // Holds its distance while the laser is up, then fires if the player is still in range.
+        const velocity = moveOr(() => orbit(towardPlayer, distanceToPlayer, attackRange, 0.35));
+        position = add(position, scale(velocity, baseSpeed * 2.5));
+        aimStartedAt = enemy.aimStartedAt ?? (canAttack ? timeMs : null);
+        if (aimStartedAt !== null && timeMs - aimStartedAt >= (archetype.telegraphMs ?? 0)) {
+          shotDamage = attackDamage;
+          lastActionTime = timeMs;
+          aimStartedAt = null;
+        }
+        break;
+      }
+      case 'TANK':
+      case 'BOSS': {
+        const velocity = moveOr(() => orbit(towardPlayer, distanceToPlayer, attackRange, 0));
+        position = add(position, scale(velocity, baseSpeed * 5.6));
+        if (canAttack) {
+          shotDamage = attackDamage;
+          lastActionTime = timeMs;
+        }
+        break;
+      }
+      case 'SUPPORT': {
+        // Hangs back behind the squad; its healing is applied in `healAllies`.
+        const velocity = moveOr(() => orbit(towardPlayer, distanceToPlayer, attackRange, strafeDirection));
+        position = add(position, scale(velocity, baseSpeed * 4));
+        break;
+      }
+      case 'DRONE': {
+        const velocity = moveOr(() => orbit(towardPlayer, distanceToPlayer, attackRange, strafeDirection));
+        position = add(position, scale(velocity, baseSpeed * 5.6));
+        if (canAttack) {
+          shotDamage = attackDamage;
+          lastActionTime = timeMs;
+        }
+        break;
+      }
+    }
+  }
+
+  const [x, , z] = clampPosition(position);
+  const nextPosition: Vec3 = [x, enemy.position[1], z];
+  const goal = state === EnemyAIState.PATROLLING ? targetPoint : player;
+  const facing = headingToward(nextPosition, route?.waypoints[0] ?? goal);
+  // The tank turns slowly, which is what lets a moving player get around its shield.
+  const maxTurn = archetype.turnRate === undefined ? Math.PI : archetype.turnRate * dtSeconds;
+  const turn = headingDelta(enemy.heading, facing);
+  const heading = enemy.heading + Math.max(-maxTurn, Math.min(maxTurn, turn));
+
+  return {
+    enemy: { ...enemy, position: nextPosition, targetPoint, state, lastActionTime, heading, aimStartedAt, route },
+    contactDamage,
+    shotDamage,
+    detonated,
+  };
+};
+
+/** Support units restore health to every other living enemy around them. */
+export const healAllies = (enemies: Target[], dtSeconds: number): Target[] => {
+  const healers = enemies.filter((enemy) => enemy.archetype === 'SUPPORT' && enemy.state !== EnemyAIState.DEAD);
+  if (healers.length === 0) return enemies;
+
+  return enemies.map((enemy) => {
+    if (enemy.state === EnemyAIState.DEAD || enemy.health >= enemy.maxHealth) return enemy;
+    const healing = healers.reduce((total, healer) => {
+      const { healPerSecond = 0, healRadius = 0 } = ENEMY_ARCHETYPES[healer.archetype];
+      if (healer.id === enemy.id || distance(healer.position, enemy.position) > healRadius) return total;
+      return total + healPerSecond * dtSeconds;
+    }, 0);
+    return healing > 0 ? { ...enemy, health: Math.min(enemy.maxHealth, enemy.health + healing) } : enemy;
+  });
+};
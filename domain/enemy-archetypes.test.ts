@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { ENEMY_ARCHETYPES } from '../config/gameConfig';
+import { EnemyArchetypeId } from '../types';
+import { createTarget } from './__fixtures__/targets';
+import { Vec3 } from './combat-abilities';
+import { getSpawnWeight, isShieldFacing, pickArchetype } from './enemy-archetypes';
+import { createSeededRng } from './rng';
+
+const unit = (archetype: EnemyArchetypeId, position: Vec3, heading: number) =>
+  createTarget({ id: archetype.toLowerCase(), archetype, position, heading });
+
+const draw = (wave: number, count: number) => {
+  const rng = createSeededRng(wave);
+  return new Set(Array.from({ length: count }, () => pickArchetype(wave, rng)));
+};
+
+describe('enemy spawn weights', () => {
+  it('only sends basic drones in the first wave', () => {
+    expect(draw(1, 200)).toEqual(new Set(['DRONE']));
+  });
+
+  it('unlocks every archetype but the boss as the waves advance', () => {
+    const drawable = Object.values(ENEMY_ARCHETYPES).filter((archetype) => archetype.spawnWeight.maxWeight > 0);
+    expect(draw(8, 500)).toEqual(new Set(drawable.map((archetype) => archetype.id)));
+    expect(draw(50, 500).has('BOSS')).toBe(false);
+  });
+
+  it('grows from the unlock wave and stops at the cap', () => {
+    const { KAMIKAZE } = ENEMY_ARCHETYPES;
+    expect(getSpawnWeight(KAMIKAZE, KAMIKAZE.spawnWeight.fromWave - 1)).toBe(0);
+    expect(getSpawnWeight(KAMIKAZE, KAMIKAZE.spawnWeight.fromWave)).toBe(KAMIKAZE.spawnWeight.baseWeight);
+    expect(getSpawnWeight(KAMIKAZE, 50)).toBe(KAMIKAZE.spawnWeight.maxWeight);
+  });
+});
+
+describe('isShieldFacing', () => {
+  it('blocks attacks from in front of a tank but not from its flank or rear', () => {
+    // Heading 0 faces +z.
+    const tank = unit('TANK', [0, 1.6, 0], 0);
+    expect(isShieldFacing(tank, [1, 1.6, 10])).toBe(true);
+    expect(isShieldFacing(tank, [10, 1.6, 0])).toBe(false);
+    expect(isShieldFacing(tank, [0, 1.6, -10])).toBe(false);
+  });
+
+  it('never applies to archetypes without a shield', () => {
+    expect(isShieldFacing(unit('DRONE', [0, 1.6, 0], 0), [0, 1.6, 10])).toBe(false);
+  });
+});
@@ -0,0 +1,33 @@
+import { ENEMY_ARCHETYPES } from '../config/gameConfig';
+import { EnemyArchetype, EnemyArchetypeId, Target } from '../types';
+import { Vec3 } from './combat-abilities';
+import { Rng } from './rng';
+import { headingVector, horizontalDirection } from './vector-math';
+
+const ARCHETYPE_IDS = Object.keys(ENEMY_ARCHETYPES) as EnemyArchetypeId[];
+
+export const getSpawnWeight = ({ spawnWeight }: EnemyArchetype, wave: number) => {
+  if (wave < spawnWeight.fromWave) return 0;
+  return Math.min(spawnWeight.maxWeight, spawnWeight.baseWeight + (wave - spawnWeight.fromWave) * spawnWeight.perWave);
+};
+
+/** Draws an archetype with odds proportional to each one's weight at this wave. */
+export const pickArchetype = (wave: number, rng: Rng): EnemyArchetypeId => {
+  const weights = ARCHETYPE_IDS.map((id) => getSpawnWeight(ENEMY_ARCHETYPES[id], wave));
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  let roll = rng() * total;
+  for (let index = 0; index < ARCHETYPE_IDS.length; index += 1) {
+    roll -= weights[index];
+    if (roll < 0) return ARCHETYPE_IDS[index];
+  }
+  return 'DRONE';
+};
+
+/** Whether the enemy's frontal shield stands between it and an attacker at `from`. */
+export const isShieldFacing = (enemy: Target, from: Vec3) => {
+  const { shieldHalfAngle } = ENEMY_ARCHETYPES[enemy.archetype];
+  if (shieldHalfAngle === undefined) return false;
+  const facing = headingVector(enemy.heading);
+  const toAttacker = horizontalDirection(enemy.position, from);
+  return facing[0] * toAttacker[0] + facing[2] * toAttacker[2] > Math.cos(shieldHalfAngle);
+};
@@ -0,0 +1,14 @@
+import { describe, expect, it } from 'vitest';
+import { summarizeFrameTimes } from './frame-timing';
+
+describe('summarizeFrameTimes', () => {
+  it('reports average, 95th percentile and worst frame', () => {
+    const samples = Array.from({ length: 100 }, (_, index) => index + 1).reverse();
+    expect(summarizeFrameTimes(samples)).toEqual({ frames: 100, averageMs: 50.5, p95Ms: 95, worstMs: 100 });
+  });
+
+  it('handles a single frame and an empty run', () => {
+    expect(summarizeFrameTimes([4])).toEqual({ frames: 1, averageMs: 4, p95Ms: 4, worstMs: 4 });
+    expect(summarizeFrameTimes([])).toEqual({ frames: 0, averageMs: 0, p95Ms: 0, worstMs: 0 });
+  });
+});
@@ -0,0 +1,20 @@
+export interface FrameTimingSummary {
+  frames: number;
+  averageMs: number;
+  /** 95% of frames took this long or less. */
+  p95Ms: number;
+  worstMs: number;
+}
+
+/** Average, 95th percentile and worst of a run of frame times, in milliseconds. */
+export const summarizeFrameTimes = (samples: readonly number[]): FrameTimingSummary => {
+  if (samples.length === 0) return { frames: 0, averageMs: 0, p95Ms: 0, worstMs: 0 };
+  const sorted = [...samples].sort((a, b) => a - b);
+  const total = sorted.reduce((sum, sample) => sum + sample, 0);
+  return {
+    frames: sorted.length,
+    averageMs: total / sorted.length,
+    p95Ms: sorted[Math.min(sorted.length - 1, Math.ceil(sorted.length * 0.95) - 1)],
+    worstMs: sorted[sorted.length - 1],
+  };
+};
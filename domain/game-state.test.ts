@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import { ABILITY_COOLDOWN_MS, MAX_HEALTH, PICKUP_PROFILES, WEAPON_PROFILES } from '../config/gameConfig';
+import { GameStatus, LoadoutId } from '../types';
+import { createInitialState, gameReducer, getCooldownRemaining } from './game-state';
+
+const START = 1_000_000;
+
+const startMatch = (loadout: LoadoutId = 'ASSAULT') =>
+  gameReducer(createInitialState('CASUAL'), { type: 'START_MATCH', difficulty: 'CASUAL', loadout, startedAt: START });
+
+describe('gameReducer abilities', () => {
+  it('alternates weapons and ignores switches inside the cooldown', () => {
+    const switched = gameReducer(startMatch(), { type: 'SWITCH_WEAPON', at: START });
+    expect(switched.weapon).toBe('SIDEARM');
+    expect(getCooldownRemaining(switched, 'weaponSwitch', START + 100)).toBe(ABILITY_COOLDOWN_MS.weaponSwitch - 100);
+    expect(gameReducer(switched, { type: 'SWITCH_WEAPON', at: START + 100 }).weapon).toBe('SIDEARM');
+    const back = gameReducer(switched, { type: 'SWITCH_WEAPON', at: START + ABILITY_COOLDOWN_MS.weaponSwitch });
+    expect(back.weapon).toBe('RIFLE');
+  });
+
+  it('fires the sidearm without spending rifle ammo, even while reloading', () => {
+    const sidearm = gameReducer(startMatch(), { type: 'SWITCH_WEAPON', at: START });
+    const reloading = { ...sidearm, ammo: { RIFLE: 0 }, isReloading: true };
+    const fired = gameReducer(reloading, { type: 'REGISTER_SHOT', didHit: true });
+    expect(fired.ammo).toEqual({ RIFLE: 0 });
+    expect(fired.stats.shotsFired).toBe(1);
+    expect(gameReducer(startMatch(), { type: 'REGISTER_SHOT', didHit: false }).ammo.RIFLE).toBe(
+      (WEAPON_PROFILES.RIFLE.magazineSize ?? 0) - 1,
+    );
+  });
+
+  it('starts with the chosen loadout and keeps ammo per weapon', () => {
+    const match = startMatch('MARKSMAN');
+    expect(match.weapon).toBe('MARKSMAN');
+    expect(match.ammo).toEqual({ MARKSMAN: 6, SMG: 32 });
+
+    const fired = gameReducer(match, { type: 'REGISTER_SHOT', didHit: false });
+    const smg = gameReducer(fired, { type: 'SWITCH_WEAPON', at: START });
+    expect(gameReducer(smg, { type: 'REGISTER_SHOT', didHit: false }).ammo).toEqual({ MARKSMAN: 5, SMG: 31 });
+  });
+
+  it('selects weapons by slot, ignoring ones outside the loadout', () => {
+    const match = startMatch('CLOSE_QUARTERS');
+    expect(gameReducer(match, { type: 'SELECT_WEAPON', weapon: 'RIFLE', at: START })).toBe(match);
+    expect(gameReducer(match, { type: 'SELECT_WEAPON', weapon: 'SMG', at: START })).toBe(match);
+    expect(gameReducer(match, { type: 'SELECT_WEAPON', weapon: 'SIDEARM', at: START }).weapon).toBe('SIDEARM');
+  });
+
+  it('abandons a reload when the weapon is put away', () => {
+    const reloading = gameReducer(gameReducer(startMatch(), { type: 'REGISTER_SHOT', didHit: false }), {
+      type: 'RELOAD_START',
+    });
+    expect(reloading.isReloading).toBe(true);
+    const sidearm = gameReducer(reloading, { type: 'SELECT_WEAPON', weapon: 'SIDEARM', at: START });
+    expect(sidearm.isReloading).toBe(false);
+    expect(gameReducer(sidearm, { type: 'RELOAD_COMPLETE' })).toBe(sidearm);
+  });
+
+  it('ignores weapon switches outside a running match', () => {
+    const menu = createInitialState();
+    expect(gameReducer(menu, { type: 'SWITCH_WEAPON', at: START })).toBe(menu);
+  });
+});
+
+describe('gameReducer defeats', () => {
+  it('adds the points and counts weak-spot kills from the hit metadata', () => {
+    const body = { cause: 'SHOT' as const, damage: 40, weakSpot: false, distance: 12 };
+    const afterBody = gameReducer(startMatch(), { type: 'ENEMY_DEFEATED', points: 320, hit: body });
+    const afterEye = gameReducer(afterBody, { type: 'ENEMY_DEFEATED', points: 480, hit: { ...body, weakSpot: true } });
+
+    expect(afterEye.score).toBe(800);
+    expect(afterEye.stats.enemiesDefeated).toBe(2);
+    expect(afterEye.stats.weakSpotKills).toBe(1);
+  });
+});
+
+describe('gameReducer pickups', () => {
+  it('heals up to full health and refills every magazine', () => {
+    const hurt = gameReducer(startMatch(), { type: 'TAKE_DAMAGE', amount: 80, at: START });
+    const healed = gameReducer(hurt, { type: 'COLLECT_PICKUP', kind: 'MEDKIT' });
+    expect(healed.health).toBe(20 + (PICKUP_PROFILES.MEDKIT.heal ?? 0));
+    expect(gameReducer(startMatch(), { type: 'COLLECT_PICKUP', kind: 'MEDKIT' }).health).toBe(MAX_HEALTH);
+
+    const reloading = { ...startMatch(), ammo: { RIFLE: 0 }, isReloading: true };
+    const restocked = gameReducer(reloading, { type: 'COLLECT_PICKUP', kind: 'AMMO' });
+    expect(restocked.ammo).toEqual({ RIFLE: WEAPON_PROFILES.RIFLE.magazineSize });
+    expect(restocked.isReloading).toBe(false);
+  });
+
+  it('applies pickups collected during an intermission', () => {
+    const hurt = gameReducer(startMatch(), { type: 'TAKE_DAMAGE', amount: 80, at: START });
+    const resting = gameReducer(hurt, { type: 'WAVE_CLEARED', wave: 1, nextWave: 2, bossIncoming: false });
+    expect(resting.status).toBe(GameStatus.INTERMISSION);
+
+    const healed = gameReducer(resting, { type: 'COLLECT_PICKUP', kind: 'MEDKIT' });
+    expect(healed.health).toBe(20 + (PICKUP_PROFILES.MEDKIT.heal ?? 0));
+    const restocked = gameReducer({ ...resting, ammo: { RIFLE: 0 } }, { type: 'COLLECT_PICKUP', kind: 'AMMO' });
+    expect(restocked.ammo).toEqual({ RIFLE: WEAPON_PROFILES.RIFLE.magazineSize });
+  });
+
+  it('ignores pickups outside a running match', () => {
+    const menu = createInitialState();
+    expect(gameReducer(menu, { type: 'COLLECT_PICKUP', kind: 'MEDKIT' })).toBe(menu);
+  });
+});
+
+describe('gameReducer waves', () => {
+  it('rests between waves, keeps the intermission through a pause and ends it with the next wave', () => {
+    const cleared = gameReducer(startMatch(), { type: 'WAVE_CLEARED', wave: 1, nextWave: 2, bossIncoming: false });
+    expect(cleared.status).toBe(GameStatus.INTERMISSION);
+    expect(cleared.intermission).toEqual({ clearedWave: 1, nextWave: 2, bossIncoming: false });
+    expect(gameReducer(cleared, { type: 'REGISTER_SHOT', didHit: false }).stats.shotsFired).toBe(1);
+
+    const paused = gameReducer(cleared, { type: 'PAUSE_MATCH' });
+    expect(paused.status).toBe(GameStatus.PAUSED);
+    expect(gameReducer(paused, { type: 'RESUME_MATCH' }).status).toBe(GameStatus.INTERMISSION);
+
+    const next = gameReducer(cleared, { type: 'SET_WAVE', wave: 2, at: START });
+    expect(next.status).toBe(GameStatus.PLAYING);
+    expect(next.intermission).toBeNull();
+    expect(next.stats.highestWave).toBe(2);
+  });
+});
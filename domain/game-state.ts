@@ -1,5 +1,23 @@
-import { BASE_AMMO, MAX_HEALTH } from '../config/gameConfig';
-import { DifficultyLevel, GameState, GameStatus, MatchStats } from '../types';
+import {
+  ABILITY_COOLDOWN_MS,
+  DEFAULT_LOADOUT,
+  LOADOUTS,
+  MAX_HEALTH,
+  PICKUP_PROFILES,
+  WEAPON_PROFILES,
+} from '../config/gameConfig';
+import {
+  AbilityCooldowns,
+  DifficultyLevel,
+  EnemyHit,
+  GameState,
+  GameStatus,
+  LoadoutId,
+  MatchStats,
+  PickupKind,
+  WeaponId,
+} from '../types';
+import { createLoadoutAmmo, getActiveAmmo, getNextWeapon } from './weapons';
 
 const createBaseStats = (): MatchStats => ({
   shotsFired: 0,
@@ -8,13 +26,40 @@ const createBaseStats = (): MatchStats => ({
   highestWave: 1,
   currentStreak: 0,
   bestStreak: 0,
+  weakSpotKills: 0,
   sessionStartedAt: null,
   sessionEndedAt: null,
 });
 
-export const createInitialState = (difficulty: DifficultyLevel = 'EASY'): GameState => ({
-  ammo: BASE_AMMO,
-  maxAmmo: BASE_AMMO,
+const createReadyCooldowns = (): AbilityCooldowns => ({
+  weaponSwitch: 0,
+});
+
+/** Milliseconds until an ability can be used again; 0 when it is ready. */
+export const getCooldownRemaining = (state: GameState, ability: keyof AbilityCooldowns, at: number) =>
+  Math.max(0, state.cooldowns[ability] + ABILITY_COOLDOWN_MS[ability] - at);
+
+/** The match is in progress, fighting a wave or catching breath between two. */
+export const isMatchRunning = (status: GameStatus) =>
+  status === GameStatus.PLAYING || status === GameStatus.INTERMISSION;
+
+const startCooldown = (state: GameState, ability: keyof AbilityCooldowns, at: number): GameState | null => {
+  if (!isMatchRunning(state.status) || getCooldownRemaining(state, ability, at) > 0) return null;
+  return { ...state, cooldowns: { ...state.cooldowns, [ability]: at } };
+};
+
+/** Draws `weapon` once the switch cooldown allows it; a reload in progress is abandoned. */
+const drawWeapon = (state: GameState, weapon: WeaponId, at: number): GameState => {
+  if (weapon === state.weapon || !LOADOUTS[state.loadout].weapons.includes(weapon)) return state;
+  const next = startCooldown(state, 'weaponSwitch', at);
+  return next ? { ...next, weapon, isReloading: false } : state;
+};
+
+export const createInitialState = (
+  difficulty: DifficultyLevel = 'EASY',
+  loadout: LoadoutId = DEFAULT_LOADOUT,
+): GameState => ({
+  ammo: createLoadoutAmmo(loadout),
   score: 0,
   health: MAX_HEALTH,
   status: GameStatus.MENU,
@@ -23,26 +68,34 @@ export const createInitialState = (difficulty: DifficultyLevel = 'EASY'): GameSt
   isGameOver: false,
   wave: 1,
   difficulty,
+  loadout,
+  weapon: LOADOUTS[loadout].weapons[0],
+  cooldowns: createReadyCooldowns(),
+  intermission: null,
   stats: createBaseStats(),
 });
 
 export type GameAction =
-  | { type: 'START_MATCH'; difficulty: DifficultyLevel; startedAt: number }
-  | { type: 'RETURN_MENU'; difficulty: DifficultyLevel }
+  | { type: 'START_MATCH'; difficulty: DifficultyLevel; loadout: LoadoutId; startedAt: number }
+  | { type: 'RETURN_MENU'; difficulty: DifficultyLevel; loadout: LoadoutId }
   | { type: 'PAUSE_MATCH' }
   | { type: 'RESUME_MATCH' }
   | { type: 'REGISTER_SHOT'; didHit: boolean }
   | { type: 'RELOAD_START' }
   | { type: 'RELOAD_COMPLETE' }
   | { type: 'TAKE_DAMAGE'; amount: number; at: number }
-  | { type: 'ENEMY_DEFEATED'; points: number }
-  | { type: 'SET_WAVE'; wave: number; at: number };
+  | { type: 'ENEMY_DEFEATED'; points: number; hit: EnemyHit }
+  | { type: 'SET_WAVE'; wave: number; at: number }
+  | { type: 'WAVE_CLEARED'; wave: number; nextWave: number; bossIncoming: boolean }
+  | { type: 'SWITCH_WEAPON'; at: number }
+  | { type: 'SELECT_WEAPON'; weapon: WeaponId; at: number }
+  | { type: 'COLLECT_PICKUP'; kind: PickupKind };
 
 export const gameReducer = (state: GameState, action: GameAction): GameState => {
   switch (action.type) {
     case 'START_MATCH':
       return {
-        ...createInitialState(action.difficulty),
+        ...createInitialState(action.difficulty, action.loadout),
         status: GameStatus.PLAYING,
         difficulty: action.difficulty,
         stats: {
@@ -51,18 +104,19 @@ export const gameReducer = (state: GameState, action: GameAction): GameState =>
         },
       };
     case 'RETURN_MENU':
-      return createInitialState(action.difficulty);
+      return createInitialState(action.difficulty, action.loadout);
     case 'PAUSE_MATCH':
-      if (state.status !== GameStatus.PLAYING) return state;
+      if (!isMatchRunning(state.status)) return state;
       return { ...state, status: GameStatus.PAUSED };
     case 'RESUME_MATCH':
       if (state.status !== GameStatus.PAUSED) return state;
-      return { ...state, status: GameStatus.PLAYING };
-    case 'REGISTER_SHOT':
-      if (state.status !== GameStatus.PLAYING || state.isReloading || state.ammo <= 0) return state;
+      return { ...state, status: state.intermission ? GameStatus.INTERMISSION : GameStatus.PLAYING };
+    case 'REGISTER_SHOT': {
+      const ammo = getActiveAmmo(state);
+      if (!isMatchRunning(state.status) || (ammo !== null && (state.isReloading || ammo <= 0))) return state;
       return {
         ...state,
-        ammo: state.ammo - 1,
+        ammo: ammo === null ? state.ammo : { ...state.ammo, [state.weapon]: ammo - 1 },
         stats: {
           ...state.stats,
           shotsFired: state.stats.shotsFired + 1,
@@ -73,14 +127,20 @@ export const gameReducer = (state: GameState, action: GameAction): GameState =>
             : state.stats.bestStreak,
         },
       };
-    case 'RELOAD_START':
-      if (state.isReloading || state.ammo === state.maxAmmo || state.status !== GameStatus.PLAYING) return state;
+    }
+    case 'RELOAD_START': {
+      const { magazineSize } = WEAPON_PROFILES[state.weapon];
+      if (state.isReloading || !isMatchRunning(state.status)) return state;
+      if (magazineSize === null || getActiveAmmo(state) === magazineSize) return state;
       return { ...state, isReloading: true };
-    case 'RELOAD_COMPLETE':
-      if (!state.isReloading) return state;
-      return { ...state, isReloading: false, ammo: state.maxAmmo };
+    }
+    case 'RELOAD_COMPLETE': {
+      const { magazineSize } = WEAPON_PROFILES[state.weapon];
+      if (!state.isReloading || magazineSize === null) return state;
+      return { ...state, isReloading: false, ammo: { ...state.ammo, [state.weapon]: magazineSize } };
+    }
     case 'TAKE_DAMAGE': {
-      if (state.status !== GameStatus.PLAYING || state.health <= 0) return state;
+      if (!isMatchRunning(state.status) || state.health <= 0) return state;
       const newHealth = Math.max(0, state.health - action.amount);
       const defeated = newHealth <= 0;
       return {
@@ -98,26 +158,50 @@ export const gameReducer = (state: GameState, action: GameAction): GameState =>
       };
     }
     case 'ENEMY_DEFEATED':
-      if (state.status !== GameStatus.PLAYING) return state;
+      if (!isMatchRunning(state.status)) return state;
       return {
         ...state,
         score: state.score + action.points,
         stats: {
           ...state.stats,
           enemiesDefeated: state.stats.enemiesDefeated + 1,
+          weakSpotKills: state.stats.weakSpotKills + (action.hit.weakSpot ? 1 : 0),
         },
       };
+    case 'WAVE_CLEARED':
+      if (state.status !== GameStatus.PLAYING) return state;
+      return {
+        ...state,
+        status: GameStatus.INTERMISSION,
+        intermission: { clearedWave: action.wave, nextWave: action.nextWave, bossIncoming: action.bossIncoming },
+      };
     case 'SET_WAVE':
       if (state.status === GameStatus.MENU) return state;
+      // The next wave ends any intermission.
       return {
         ...state,
         wave: action.wave,
+        status: state.status === GameStatus.INTERMISSION ? GameStatus.PLAYING : state.status,
+        intermission: null,
         stats: {
           ...state.stats,
           highestWave: Math.max(action.wave, state.stats.highestWave),
           sessionEndedAt: state.status === GameStatus.GAMEOVER ? action.at : state.stats.sessionEndedAt,
         },
       };
+    case 'SWITCH_WEAPON':
+      return drawWeapon(state, getNextWeapon(state.loadout, state.weapon), action.at);
+    case 'SELECT_WEAPON':
+      return drawWeapon(state, action.weapon, action.at);
+    case 'COLLECT_PICKUP': {
+      if (!isMatchRunning(state.status)) return state;
+      const { heal = 0 } = PICKUP_PROFILES[action.kind];
+      if (action.kind === 'MEDKIT') return { ...state, health: Math.min(MAX_HEALTH, state.health + heal) };
+      // Fresh magazines make any reload in progress pointless.
+      if (action.kind === 'AMMO') return { ...state, ammo: createLoadoutAmmo(state.loadout), isReloading: false };
+      // Power-ups run on the simulation clock, so the world keeps them.
+      return state;
+    }
     default:
       return state;
   }
@@ -0,0 +1,221 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_TRACKER_CALIBRATION } from '../config/gameConfig';
+import { CombatGesture, MovementGesture } from '../types';
+import { COMBAT_POSES, MOVEMENT_POSES, translatePose } from './__fixtures__/hand-poses';
+import {
+  classifyCombat,
+  classifyLook,
+  classifyMovement,
+  classifyMovementVector,
+  HAND_LANDMARK_COUNT,
+  isHandLandmarks,
+  movementGestureFromVector,
+  projectAimPoint,
+  quantizeAimPoint,
+  smoothAimPoint,
+} from './gesture-classifier';
+
+const calibration = DEFAULT_TRACKER_CALIBRATION;
+
+describe('classifyMovement', () => {
+  it.each([
+    ['neutral', MovementGesture.STOP],
+    ['raised', MovementGesture.FORWARD],
+    ['lowered', MovementGesture.BACKWARD],
+    ['towardCenter', MovementGesture.RIGHT],
+    ['towardEdge', MovementGesture.LEFT],
+  ] as const)('maps the %s pose to %s', (pose, expected) => {
+    expect(classifyMovement(MOVEMENT_POSES[pose], calibration)).toBe(expected);
+  });
+
+  it('resolves diagonal offsets to the dominant axis', () => {
+    expect(classifyMovement(MOVEMENT_POSES.raisedDiagonal, calibration)).toBe(MovementGesture.FORWARD);
+    expect(classifyMovement(translatePose(MOVEMENT_POSES.raisedDiagonal, -0.06, 0.02), calibration)).toBe(
+      MovementGesture.RIGHT,
+    );
+  });
+
+  it('stays stopped inside the deadzone and moves just past it', () => {
+    expect(classifyMovement(MOVEMENT_POSES.insideDeadzone, calibration)).toBe(MovementGesture.STOP);
+    expect(classifyMovement(MOVEMENT_POSES.justPastDeadzone, calibration)).toBe(MovementGesture.FORWARD);
+  });
+
+  it('stops on a closed fist regardless of wrist position', () => {
+    expect(classifyMovement(MOVEMENT_POSES.fistCentered, calibration)).toBe(MovementGesture.STOP);
+    expect(classifyMovement(MOVEMENT_POSES.fistRaised, calibration)).toBe(MovementGesture.STOP);
+  });
+
+  it('recognises the same pose at any camera distance', () => {
+    expect(classifyMovement(MOVEMENT_POSES.fistRaisedNear, calibration)).toBe(MovementGesture.STOP);
+    expect(classifyMovement(MOVEMENT_POSES.raisedFar, calibration)).toBe(MovementGesture.FORWARD);
+  });
+
+  it('requires every finger inside the fist threshold', () => {
+    expect(classifyMovement(MOVEMENT_POSES.fistPinkyLoose, calibration)).toBe(MovementGesture.FORWARD);
+  });
+
+  it('follows the calibrated movement centre', () => {
+    const shifted = { ...calibration, movementCenterY: 0.38 };
+    expect(classifyMovement(MOVEMENT_POSES.raised, shifted)).toBe(MovementGesture.STOP);
+  });
+
+  it('never reports NONE for a tracked hand', () => {
+    Object.values(MOVEMENT_POSES).forEach((pose) => {
+      expect(classifyMovement(pose, calibration)).not.toBe(MovementGesture.NONE);
+    });
+  });
+});
+
+describe('classifyMovementVector', () => {
+  it('is zero inside the deadzone and on a fist', () => {
+    expect(classifyMovementVector(MOVEMENT_POSES.neutral, calibration).magnitude).toBe(0);
+    expect(classifyMovementVector(MOVEMENT_POSES.fistRaised, calibration).magnitude).toBe(0);
+  });
+
+  it('grows with the offset beyond the deadzone', () => {
+    const gentle = classifyMovementVector(MOVEMENT_POSES.justPastDeadzone, calibration);
+    const strong = classifyMovementVector(MOVEMENT_POSES.raised, calibration);
+    expect(gentle.y).toBeGreaterThan(0);
+    expect(strong.y).toBeGreaterThan(gentle.y);
+    expect(strong.x).toBe(0);
+  });
+
+  it('keeps both axes on diagonals without exceeding unit magnitude', () => {
+    const vector = classifyMovementVector(translatePose(MOVEMENT_POSES.neutral, -0.3, -0.3), calibration);
+    expect(vector.x).toBeGreaterThan(0);
+    expect(vector.y).toBeGreaterThan(0);
+    expect(vector.magnitude).toBe(1);
+    expect(Math.hypot(vector.x, vector.y)).toBeCloseTo(1);
+  });
+
+  it('derives the discrete gesture from the vector', () => {
+    expect(movementGestureFromVector({ x: 0, y: 0, magnitude: 0 })).toBe(MovementGesture.STOP);
+    expect(movementGestureFromVector({ x: 0.2, y: -0.6, magnitude: 0.63 })).toBe(MovementGesture.BACKWARD);
+    expect(movementGestureFromVector({ x: -0.7, y: 0.3, magnitude: 0.76 })).toBe(MovementGesture.LEFT);
+  });
+});
+
+describe('classifyCombat', () => {
+  it.each([
+    ['relaxed', CombatGesture.IDLE],
+    ['fist', CombatGesture.IDLE],
+    ['openPalm', CombatGesture.RELOAD],
+    ['aim', CombatGesture.AIM],
+    ['ironSight', CombatGesture.IRON_SIGHT],
+    ['fire', CombatGesture.FIRE],
+    ['pinch', CombatGesture.SWITCH_WEAPON],
+  ] as const)('maps the %s pose to %s', (pose, expected) => {
+    expect(classifyCombat(COMBAT_POSES[pose], calibration)).toBe(expected);
+  });
+
+  it('keeps the gun pose when the hand moves toward or away from the camera', () => {
+    expect(classifyCombat(COMBAT_POSES.aimNear, calibration)).toBe(CombatGesture.AIM);
+    expect(classifyCombat(COMBAT_POSES.aimFar, calibration)).toBe(CombatGesture.AIM);
+  });
+
+  it('does not reload when a single finger stays folded', () => {
+    expect(classifyCombat(COMBAT_POSES.openPalmPinkyFolded, calibration)).toBe(CombatGesture.IDLE);
+  });
+
+  it('prefers FIRE over IRON_SIGHT when the index is curled', () => {
+    expect(classifyCombat(COMBAT_POSES.fireWithMiddleExtended, calibration)).toBe(CombatGesture.FIRE);
+  });
+
+  it('drops the gun pose when any precondition fails', () => {
+    expect(classifyCombat(COMBAT_POSES.aimIndexShort, calibration)).toBe(CombatGesture.IDLE);
+    expect(classifyCombat(COMBAT_POSES.aimThumbTucked, calibration)).toBe(CombatGesture.IDLE);
+    expect(classifyCombat(COMBAT_POSES.aimRingLoose, calibration)).toBe(CombatGesture.IDLE);
+  });
+
+  it('honours a stricter trigger curl threshold', () => {
+    const strict = { ...calibration, fireCurlThreshold: 0.5 };
+    expect(classifyCombat(COMBAT_POSES.fire, strict)).toBe(CombatGesture.AIM);
+  });
+
+  it('only switches weapons while the thumb and index actually touch', () => {
+    expect(classifyCombat(COMBAT_POSES.pinch, { ...calibration, pinchThreshold: 0.05 })).toBe(CombatGesture.IDLE);
+    expect(classifyCombat(COMBAT_POSES.fire, calibration)).toBe(CombatGesture.FIRE);
+  });
+
+  it('reads a fast sideways fist as a melee swipe', () => {
+    const swipe = { motion: { x: -(calibration.meleeSwipeSpeed + 1), y: 0 } };
+    expect(classifyCombat(COMBAT_POSES.fist, calibration, swipe)).toBe(CombatGesture.MELEE);
+    expect(classifyCombat(COMBAT_POSES.fist, calibration, { motion: { x: 2, y: 0 } })).toBe(CombatGesture.IDLE);
+    expect(classifyCombat(COMBAT_POSES.aim, calibration, swipe)).toBe(CombatGesture.AIM);
+  });
+
+  it('readies a grenade only when both fists are held together', () => {
+    const together = { otherHand: MOVEMENT_POSES.fistBesideCombat };
+    expect(classifyCombat(COMBAT_POSES.fist, calibration, together)).toBe(CombatGesture.GRENADE);
+    expect(classifyCombat(COMBAT_POSES.fist, calibration, { otherHand: MOVEMENT_POSES.fistCentered })).toBe(
+      CombatGesture.IDLE,
+    );
+    expect(classifyCombat(COMBAT_POSES.aim, calibration, together)).toBe(CombatGesture.AIM);
+  });
+});
+
+describe('classifyLook', () => {
+  const lookCalibration = { ...calibration, lookCenterX: 0.7, lookCenterY: 0.78 };
+
+  it('holds still inside the look deadzone', () => {
+    expect(classifyLook(translatePose(COMBAT_POSES.aim, 0.05, 0), lookCalibration)).toEqual({ yaw: 0, pitch: 0 });
+  });
+
+  it('turns toward the side the aiming hand moves, scaled by sensitivity', () => {
+    const left = classifyLook(translatePose(COMBAT_POSES.aim, 0.15, 0), lookCalibration);
+    const right = classifyLook(translatePose(COMBAT_POSES.aim, -0.15, 0), lookCalibration);
+    expect(left.yaw).toBeCloseTo(0.6 * lookCalibration.lookSensitivity);
+    expect(right.yaw).toBeCloseTo(-0.6 * lookCalibration.lookSensitivity);
+  });
+
+  it('saturates at full deflection', () => {
+    const look = classifyLook(translatePose(COMBAT_POSES.aim, 0.28, 0), lookCalibration);
+    expect(look.yaw).toBeCloseTo(lookCalibration.lookSensitivity);
+  });
+
+  it('only pitches when vertical sensitivity is enabled', () => {
+    const raised = translatePose(COMBAT_POSES.aim, 0, -0.2);
+    expect(classifyLook(raised, lookCalibration).pitch).toBe(0);
+    expect(classifyLook(raised, { ...lookCalibration, lookPitchSensitivity: 1 }).pitch).toBeCloseTo(1);
+  });
+});
+
+describe('aim projection', () => {
+  // The aim pose's index tip sits at (0.67, 0.58) in the frame.
+  const aimCalibration = { ...calibration, aimCenterX: 0.67, aimCenterY: 0.58, aimRange: 0.16 };
+
+  it('maps the calibrated aim centre to the screen centre', () => {
+    const point = projectAimPoint(COMBAT_POSES.aim, aimCalibration);
+    expect(point.x).toBeCloseTo(0);
+    expect(point.y).toBeCloseTo(0);
+  });
+
+  it('mirrors the horizontal axis and flips the vertical axis into NDC', () => {
+    const point = projectAimPoint(translatePose(COMBAT_POSES.aim, -0.08, -0.04), aimCalibration);
+    expect(point.x).toBeCloseTo(0.5);
+    expect(point.y).toBeCloseTo(0.25);
+  });
+
+  it('clamps to the viewport edges', () => {
+    expect(projectAimPoint(translatePose(COMBAT_POSES.aim, 0.4, 0.4), aimCalibration)).toEqual({ x: -1, y: -1 });
+  });
+
+  it('smooths toward the target and quantizes for HandState', () => {
+    const smoothed = smoothAimPoint({ x: 0, y: 0 }, { x: 1, y: -1 }, 0.75);
+    expect(smoothed.x).toBeCloseTo(0.25);
+    expect(smoothed.y).toBeCloseTo(-0.25);
+    expect(quantizeAimPoint({ x: 0.123, y: -0.456 }).x).toBeCloseTo(0.12);
+  });
+});
+
+describe('isHandLandmarks', () => {
+  it('accepts recorded poses', () => {
+    expect(isHandLandmarks(COMBAT_POSES.aim)).toBe(true);
+  });
+
+  it('rejects incomplete or malformed hands', () => {
+    expect(isHandLandmarks(COMBAT_POSES.aim.slice(0, HAND_LANDMARK_COUNT - 1))).toBe(false);
+    expect(isHandLandmarks([...COMBAT_POSES.aim.slice(1), { x: Number.NaN, y: 0 }])).toBe(false);
+    expect(isHandLandmarks(null)).toBe(false);
+  });
+});
@@ -0,0 +1,205 @@
+import { AimPoint, CombatGesture, HandMotion, LookVector, MovementGesture, MovementVector, TrackerCalibration } from '../types';
+
+export interface HandLandmark {
+  x: number;
+  y: number;
+  z?: number;
+}
+
+/**
+ * The 21 normalized points produced by MediaPipe Hands for a single hand,
+ * ordered wrist → thumb → index → middle → ring → pinky.
+ */
+export type HandLandmarks = readonly HandLandmark[];
+
+export const HAND_LANDMARK_COUNT = 21;
+
+/** Landmarks of the current frame split by the role each hand plays. */
+export interface TrackedHands {
+  movement: HandLandmarks | null;
+  combat: HandLandmarks | null;
+}
+
+/** What the combat classifier knows beyond the current pose: wrist motion and the other hand. */
+export interface CombatContext {
+  motion?: HandMotion | null;
+  otherHand?: HandLandmarks | null;
+}
+
+export const LANDMARK = {
+  WRIST: 0,
+  THUMB_TIP: 4,
+  INDEX_MCP: 5,
+  INDEX_TIP: 8,
+  MIDDLE_MCP: 9,
+  MIDDLE_TIP: 12,
+  RING_TIP: 16,
+  PINKY_TIP: 20,
+} as const;
+
+export const FINGER_TIPS = [LANDMARK.INDEX_TIP, LANDMARK.MIDDLE_TIP, LANDMARK.RING_TIP, LANDMARK.PINKY_TIP] as const;
+/** Ring and pinky count as folded below this reach, in hand-scale units. */
+export const CURLED_FINGER_LIMIT = 1.25;
+/** Floor for the hand scale so a degenerate frame cannot divide by zero. */
+const MIN_HAND_SCALE = 0.01;
+/** Wrist offset from a calibrated centre at which an analog axis saturates. */
+const FULL_DEFLECTION = 0.2;
+/** Deflection is quantized so small wrist tremor does not re-emit HandState every frame. */
+const DEFLECTION_STEP = 0.05;
+
+/** Aim points are rounded to this NDC step before they reach HandState. */
+const AIM_STEP = 0.01;
+
+const ZERO_MOVEMENT: MovementVector = { x: 0, y: 0, magnitude: 0 };
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+export const isHandLandmarks = (value: unknown): value is HandLandmarks =>
+  Array.isArray(value) &&
+  value.length === HAND_LANDMARK_COUNT &&
+  value.every((point) => point && isFiniteNumber(point.x) && isFiniteNumber(point.y));
+
+export const getLandmarkDistance = (a: HandLandmark, b: HandLandmark) => Math.hypot(a.x - b.x, a.y - b.y);
+
+/**
+ * Wrist → middle-finger knuckle span of the current frame. Gesture thresholds
+ * are expressed in multiples of it, so they hold regardless of camera distance.
+ */
+export const getHandScale = (landmarks: HandLandmarks) =>
+  Math.max(MIN_HAND_SCALE, getLandmarkDistance(landmarks[LANDMARK.WRIST], landmarks[LANDMARK.MIDDLE_MCP]));
+
+/** Distance between two landmarks of the same hand, in hand-scale units. */
+export const getRelativeDistance = (landmarks: HandLandmarks, from: number, to: number) =>
+  getLandmarkDistance(landmarks[from], landmarks[to]) / getHandScale(landmarks);
+
+const isClosedFist = (landmarks: HandLandmarks, calibration: TrackerCalibration) =>
+  FINGER_TIPS.every((idx) => getRelativeDistance(landmarks, idx, LANDMARK.WRIST) < calibration.fistStopThreshold);
+
+const toAxisDeflection = (offset: number, deadzone: number) => {
+  const magnitude = Math.abs(offset) - deadzone;
+  if (magnitude <= 0) return 0;
+  const normalized = Math.min(1, magnitude / Math.max(DEFLECTION_STEP, FULL_DEFLECTION - deadzone));
+  const quantized = Math.max(DEFLECTION_STEP, Math.round(normalized / DEFLECTION_STEP) * DEFLECTION_STEP);
+  return Math.sign(offset) * quantized;
+};
+
+/**
+ * Analog movement from the movement hand: `y` is forward, `x` is the strafe
+ * axis reported as RIGHT, and `magnitude` is clamped to 1 so diagonals are not faster.
+ */
+export const classifyMovementVector = (
+  landmarks: HandLandmarks,
+  calibration: TrackerCalibration,
+): MovementVector => {
+  const wrist = landmarks[LANDMARK.WRIST];
+  if (isClosedFist(landmarks, calibration)) return ZERO_MOVEMENT;
+
+  const x = toAxisDeflection(calibration.movementCenterX - wrist.x, calibration.movementDeadzone);
+  const y = toAxisDeflection(calibration.movementCenterY - wrist.y, calibration.movementDeadzone);
+  const length = Math.hypot(x, y);
+  if (length === 0) return ZERO_MOVEMENT;
+
+  const scale = length > 1 ? 1 / length : 1;
+  return { x: x * scale, y: y * scale, magnitude: Math.min(1, length) };
+};
+
+/** Collapses an analog vector onto its dominant axis for the HUD and haptics. */
+export const movementGestureFromVector = (vector: MovementVector): MovementGesture => {
+  if (vector.magnitude === 0) return MovementGesture.STOP;
+  if (Math.abs(vector.y) >= Math.abs(vector.x)) {
+    return vector.y > 0 ? MovementGesture.FORWARD : MovementGesture.BACKWARD;
+  }
+  return vector.x > 0 ? MovementGesture.RIGHT : MovementGesture.LEFT;
+};
+
+export const classifyMovement = (landmarks: HandLandmarks, calibration: TrackerCalibration): MovementGesture =>
+  movementGestureFromVector(classifyMovementVector(landmarks, calibration));
+
+/**
+ * Both hands closed with the wrists together, in hand-scale units of the
+ * combat hand: the two-handed grip that readies a grenade.
+ */
+const isGrenadeGrip = (landmarks: HandLandmarks, otherHand: HandLandmarks, calibration: TrackerCalibration) =>
+  isClosedFist(landmarks, calibration) &&
+  isClosedFist(otherHand, calibration) &&
+  getLandmarkDistance(landmarks[LANDMARK.WRIST], otherHand[LANDMARK.WRIST]) / getHandScale(landmarks) <
+    calibration.grenadeHandGap;
+
+export const classifyCombat = (
+  landmarks: HandLandmarks,
+  calibration: TrackerCalibration,
+  { motion = null, otherHand = null }: CombatContext = {},
+): CombatGesture => {
+  const thumbTip = landmarks[LANDMARK.THUMB_TIP];
+  const indexBase = landmarks[LANDMARK.INDEX_MCP];
+  const reach = (idx: number) => getRelativeDistance(landmarks, idx, LANDMARK.WRIST);
+
+  if (otherHand && isGrenadeGrip(landmarks, otherHand, calibration)) return CombatGesture.GRENADE;
+  if (motion && Math.abs(motion.x) > calibration.meleeSwipeSpeed && isClosedFist(landmarks, calibration)) {
+    return CombatGesture.MELEE;
+  }
+
+  const isFullHand = FINGER_TIPS.every((idx) => reach(idx) > calibration.openHandThreshold);
+  if (isFullHand) return CombatGesture.RELOAD;
+
+  // An "OK" sign: thumb and index pinched while the other three fingers stay up.
+  const isPinch =
+    getRelativeDistance(landmarks, LANDMARK.THUMB_TIP, LANDMARK.INDEX_TIP) < calibration.pinchThreshold &&
+    [LANDMARK.MIDDLE_TIP, LANDMARK.RING_TIP, LANDMARK.PINKY_TIP].every((idx) => reach(idx) > CURLED_FINGER_LIMIT);
+  if (isPinch) return CombatGesture.SWITCH_WEAPON;
+
+  const indexExtended = reach(LANDMARK.INDEX_TIP) > calibration.indexExtendedThreshold;
+  const middleExtended = reach(LANDMARK.MIDDLE_TIP) > calibration.indexExtendedThreshold;
+  const thumbUp = thumbTip.y < indexBase.y;
+  const othersCurled = [LANDMARK.RING_TIP, LANDMARK.PINKY_TIP].every((idx) => reach(idx) < CURLED_FINGER_LIMIT);
+
+  if (indexExtended && thumbUp && othersCurled) {
+    const indexCurvature = getRelativeDistance(landmarks, LANDMARK.INDEX_TIP, LANDMARK.INDEX_MCP);
+    if (indexCurvature < calibration.fireCurlThreshold) return CombatGesture.FIRE;
+    if (middleExtended) return CombatGesture.IRON_SIGHT;
+    return CombatGesture.AIM;
+  }
+
+  return CombatGesture.IDLE;
+};
+
+export const classifyLook = (landmarks: HandLandmarks, calibration: TrackerCalibration): LookVector => {
+  const wrist = landmarks[LANDMARK.WRIST];
+  // Image x grows toward the player's left (the preview is mirrored), so a larger x turns left.
+  const yaw = toAxisDeflection(wrist.x - calibration.lookCenterX, calibration.lookDeadzone);
+  const pitch = toAxisDeflection(calibration.lookCenterY - wrist.y, calibration.lookDeadzone);
+
+  return {
+    yaw: yaw * calibration.lookSensitivity,
+    pitch: pitch * calibration.lookPitchSensitivity,
+  };
+};
+
+const clampUnit = (value: number) => Math.min(1, Math.max(-1, value));
+
+/**
+ * Projects the index fingertip from the camera frame onto the screen. The
+ * calibrated aim box (centre ± `aimRange`) spans the full viewport.
+ */
+export const projectAimPoint = (landmarks: HandLandmarks, calibration: TrackerCalibration): AimPoint => {
+  const tip = landmarks[LANDMARK.INDEX_TIP];
+  const range = Math.max(0.01, calibration.aimRange);
+  return {
+    x: clampUnit((calibration.aimCenterX - tip.x) / range),
+    y: clampUnit((calibration.aimCenterY - tip.y) / range),
+  };
+};
+
+/** Exponential smoothing; `smoothing` is the weight kept from the previous point. */
+export const smoothAimPoint = (previous: AimPoint, next: AimPoint, smoothing: number): AimPoint => {
+  const keep = Math.min(0.95, Math.max(0, smoothing));
+  return {
+    x: previous.x * keep + next.x * (1 - keep),
+    y: previous.y * keep + next.y * (1 - keep),
+  };
+};
+
+export const quantizeAimPoint = (point: AimPoint): AimPoint => ({
+  x: Math.round(point.x / AIM_STEP) * AIM_STEP,
+  y: Math.round(point.y / AIM_STEP) * AIM_STEP,
+});
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_TRACKER_CALIBRATION } from '../config/gameConfig';
+import { CombatGesture, MovementGesture } from '../types';
+import { COMBAT_POSES, MOVEMENT_POSES } from './__fixtures__/hand-poses';
+import { diagnoseCombat, diagnoseMovement, GestureRuleCheck } from './gesture-diagnostics';
+
+const calibration = DEFAULT_TRACKER_CALIBRATION;
+
+const findCheck = (checks: GestureRuleCheck[], label: string) => {
+  const check = checks.find((entry) => entry.label === label);
+  if (!check) throw new Error(`Regra ausente: ${label}`);
+  return check;
+};
+
+describe('diagnoseMovement', () => {
+  it('passes the fist rule for a closed hand and reports each fingertip', () => {
+    const { gesture, checks } = diagnoseMovement(MOVEMENT_POSES.fistCentered, calibration);
+    const fist = findCheck(checks, 'Punho (pontas → pulso)');
+    expect(gesture).toBe(MovementGesture.STOP);
+    expect(fist.passed).toBe(true);
+    expect(fist.threshold).toBe(calibration.fistStopThreshold);
+    expect(fist.measurements.map((entry) => entry.label)).toEqual(['ind', 'méd', 'anel', 'mín']);
+  });
+
+  it('pinpoints the finger that keeps a loose fist from stopping', () => {
+    const fist = findCheck(diagnoseMovement(MOVEMENT_POSES.fistPinkyLoose, calibration).checks, 'Punho (pontas → pulso)');
+    expect(fist.passed).toBe(false);
+    expect(fist.measurements.filter((entry) => !entry.passed).map((entry) => entry.label)).toEqual(['mín']);
+  });
+
+  it('reports wrist deflection against the deadzone', () => {
+    const { gesture, checks } = diagnoseMovement(MOVEMENT_POSES.raised, calibration);
+    expect(gesture).toBe(MovementGesture.FORWARD);
+    expect(findCheck(checks, 'Desvio vertical').passed).toBe(true);
+    expect(findCheck(checks, 'Desvio horizontal').passed).toBe(false);
+  });
+});
+
+describe('diagnoseCombat', () => {
+  it('agrees with the classifier on a trigger pull', () => {
+    const { gesture, checks } = diagnoseCombat(COMBAT_POSES.fire, calibration);
+    expect(gesture).toBe(CombatGesture.FIRE);
+    expect(findCheck(checks, 'Curvatura de tiro').passed).toBe(true);
+    expect(findCheck(checks, 'Mão aberta (recarga)').passed).toBe(false);
+  });
+
+  it('shows which rule fails when the aim pose is lost', () => {
+    const tucked = diagnoseCombat(COMBAT_POSES.aimThumbTucked, calibration);
+    expect(tucked.gesture).toBe(CombatGesture.IDLE);
+    expect(findCheck(tucked.checks, 'Polegar para cima').passed).toBe(false);
+    expect(findCheck(tucked.checks, 'Indicador estendido').passed).toBe(true);
+
+    const loose = diagnoseCombat(COMBAT_POSES.aimRingLoose, calibration);
+    expect(findCheck(loose.checks, 'Anelar e mínimo dobrados').measurements[0]).toMatchObject({
+      label: 'anel',
+      passed: false,
+    });
+  });
+
+  it('adds the swipe and grenade rules when motion and the other hand are known', () => {
+    const { gesture, checks } = diagnoseCombat(COMBAT_POSES.fist, calibration, {
+      otherHand: MOVEMENT_POSES.fistBesideCombat,
+      motion: { x: 3, y: 0 },
+    });
+    expect(gesture).toBe(CombatGesture.GRENADE);
+    expect(findCheck(checks, 'Punhos juntos (granada)').passed).toBe(true);
+    expect(findCheck(checks, 'Golpe (velocidade lateral)').passed).toBe(false);
+    expect(diagnoseCombat(COMBAT_POSES.fist, calibration).checks.some((check) => check.label.startsWith('Golpe'))).toBe(
+      false,
+    );
+  });
+
+  it('measures the same values at any camera distance', () => {
+    const near = diagnoseCombat(COMBAT_POSES.aimNear, calibration).checks;
+    const far = diagnoseCombat(COMBAT_POSES.aimFar, calibration).checks;
+    near.forEach((check, index) => {
+      check.measurements.forEach((entry, entryIndex) => {
+        expect(entry.value).toBeCloseTo(far[index].measurements[entryIndex].value, 5);
+      });
+    });
+  });
+});
@@ -0,0 +1,142 @@
+import { CombatGesture, MovementGesture, TrackerCalibration } from '../types';
+import {
+  classifyCombat,
+  classifyMovement,
+  CombatContext,
+  CURLED_FINGER_LIMIT,
+  FINGER_TIPS,
+  getHandScale,
+  getLandmarkDistance,
+  getRelativeDistance,
+  HandLandmarks,
+  LANDMARK,
+} from './gesture-classifier';
+
+export type RuleComparison = 'below' | 'above';
+
+export interface RuleMeasurement {
+  label: string;
+  value: number;
+  passed: boolean;
+}
+
+/** One rule of the classifier with what was measured this frame; it passes when every measurement does. */
+export interface GestureRuleCheck {
+  label: string;
+  comparison: RuleComparison;
+  threshold: number;
+  measurements: RuleMeasurement[];
+  passed: boolean;
+}
+
+export interface HandDiagnostics<T> {
+  gesture: T;
+  checks: GestureRuleCheck[];
+}
+
+const FINGER_LABELS: Record<(typeof FINGER_TIPS)[number], string> = {
+  [LANDMARK.INDEX_TIP]: 'ind',
+  [LANDMARK.MIDDLE_TIP]: 'méd',
+  [LANDMARK.RING_TIP]: 'anel',
+  [LANDMARK.PINKY_TIP]: 'mín',
+};
+
+const compare = (value: number, comparison: RuleComparison, threshold: number) =>
+  comparison === 'below' ? value < threshold : value > threshold;
+
+const checkRule = (
+  label: string,
+  comparison: RuleComparison,
+  threshold: number,
+  values: readonly [string, number][],
+): GestureRuleCheck => {
+  const measurements = values.map(([name, value]) => ({
+    label: name,
+    value,
+    passed: compare(value, comparison, threshold),
+  }));
+  return { label, comparison, threshold, measurements, passed: measurements.every((entry) => entry.passed) };
+};
+
+const fingertipReach = (landmarks: HandLandmarks, tips: readonly (typeof FINGER_TIPS)[number][]) =>
+  tips.map((idx): [string, number] => [FINGER_LABELS[idx], getRelativeDistance(landmarks, idx, LANDMARK.WRIST)]);
+
+/**
+ * Measures every rule `classifyMovement` evaluates against its threshold.
+ * Reaches are in hand-scale units, deflections in normalized frame units.
+ */
+export const diagnoseMovement = (
+  landmarks: HandLandmarks,
+  calibration: TrackerCalibration,
+): HandDiagnostics<MovementGesture> => {
+  const wrist = landmarks[LANDMARK.WRIST];
+  return {
+    gesture: classifyMovement(landmarks, calibration),
+    checks: [
+      checkRule('Punho (pontas → pulso)', 'below', calibration.fistStopThreshold, fingertipReach(landmarks, FINGER_TIPS)),
+      checkRule('Desvio horizontal', 'above', calibration.movementDeadzone, [
+        ['x', Math.abs(calibration.movementCenterX - wrist.x)],
+      ]),
+      checkRule('Desvio vertical', 'above', calibration.movementDeadzone, [
+        ['y', Math.abs(calibration.movementCenterY - wrist.y)],
+      ]),
+    ],
+  };
+};
+
+/**
+ * Measures every rule `classifyCombat` evaluates, in the order it evaluates
+ * them. Motion and two-hand rules only appear when that context is available.
+ */
+export const diagnoseCombat = (
+  landmarks: HandLandmarks,
+  calibration: TrackerCalibration,
+  context: CombatContext = {},
+): HandDiagnostics<CombatGesture> => {
+  const scale = getHandScale(landmarks);
+  const thumbLift = (landmarks[LANDMARK.INDEX_MCP].y - landmarks[LANDMARK.THUMB_TIP].y) / scale;
+  const contextChecks: GestureRuleCheck[] = [];
+  if (context.otherHand) {
+    const gap = getLandmarkDistance(landmarks[LANDMARK.WRIST], context.otherHand[LANDMARK.WRIST]) / scale;
+    contextChecks.push(checkRule('Punhos juntos (granada)', 'below', calibration.grenadeHandGap, [['pulsos', gap]]));
+  }
+  if (context.motion) {
+    contextChecks.push(
+      checkRule('Golpe (velocidade lateral)', 'above', calibration.meleeSwipeSpeed, [['vel', Math.abs(context.motion.x)]]),
+    );
+  }
+
+  return {
+    gesture: classifyCombat(landmarks, calibration, context),
+    checks: [
+      checkRule('Punho fechado', 'below', calibration.fistStopThreshold, fingertipReach(landmarks, FINGER_TIPS)),
+      ...contextChecks,
+      checkRule('Mão aberta (recarga)', 'above', calibration.openHandThreshold, fingertipReach(landmarks, FINGER_TIPS)),
+      checkRule(
+        'Indicador estendido',
+        'above',
+        calibration.indexExtendedThreshold,
+        fingertipReach(landmarks, [LANDMARK.INDEX_TIP]),
+      ),
+      checkRule('Pinça (troca de arma)', 'below', calibration.pinchThreshold, [
+        ['pinça', getRelativeDistance(landmarks, LANDMARK.THUMB_TIP, LANDMARK.INDEX_TIP)],
+      ]),
+      checkRule('Polegar para cima', 'above', 0, [['pol', thumbLift]]),
+      checkRule(
+        'Anelar e mínimo dobrados',
+        'below',
+        CURLED_FINGER_LIMIT,
+        fingertipReach(landmarks, [LANDMARK.RING_TIP, LANDMARK.PINKY_TIP]),
+      ),
+      checkRule('Curvatura de tiro', 'below', calibration.fireCurlThreshold, [
+        ['ind', getRelativeDistance(landmarks, LANDMARK.INDEX_TIP, LANDMARK.INDEX_MCP)],
+      ]),
+      checkRule(
+        'Médio estendido (iron sight)',
+        'above',
+        calibration.indexExtendedThreshold,
+        fingertipReach(landmarks, [LANDMARK.MIDDLE_TIP]),
+      ),
+    ],
+  };
+};
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_TRACKER_CALIBRATION } from '../config/gameConfig';
+import { CombatGesture, MovementGesture } from '../types';
+import { createGestureLatch, getCombatHysteresis, getMovementHysteresis } from './gesture-hysteresis';
+
+const calibration = {
+  ...DEFAULT_TRACKER_CALIBRATION,
+  smoothingFrames: 2,
+  fireEnterFrames: 1,
+  fireExitFrames: 3,
+  movementEnterFrames: 2,
+  movementExitFrames: 3,
+};
+
+const createCombatLatch = () =>
+  createGestureLatch(CombatGesture.IDLE, (gesture) => getCombatHysteresis(gesture, calibration));
+
+const feed = (sequence: CombatGesture[]) => {
+  const latch = createCombatLatch();
+  return sequence.map((gesture) => latch.update(gesture));
+};
+
+describe('createGestureLatch', () => {
+  it('needs smoothingFrames consecutive frames for regular gestures', () => {
+    expect(feed([CombatGesture.AIM, CombatGesture.AIM])).toEqual([CombatGesture.IDLE, CombatGesture.AIM]);
+  });
+
+  it('engages FIRE on the first frame and holds it through brief dropouts', () => {
+    const output = feed([
+      CombatGesture.AIM,
+      CombatGesture.AIM,
+      CombatGesture.FIRE,
+      CombatGesture.AIM,
+      CombatGesture.FIRE,
+      CombatGesture.AIM,
+      CombatGesture.AIM,
+      CombatGesture.AIM,
+    ]);
+    expect(output.slice(2)).toEqual([
+      CombatGesture.FIRE,
+      CombatGesture.FIRE,
+      CombatGesture.FIRE,
+      CombatGesture.FIRE,
+      CombatGesture.FIRE,
+      CombatGesture.AIM,
+    ]);
+  });
+
+  it('restarts the count when the candidate changes and returns to the initial value on reset', () => {
+    const latch = createCombatLatch();
+    latch.update(CombatGesture.AIM);
+    expect(latch.update(CombatGesture.RELOAD)).toBe(CombatGesture.IDLE);
+    expect(latch.update(CombatGesture.RELOAD)).toBe(CombatGesture.RELOAD);
+    latch.reset();
+    expect(latch.update(CombatGesture.IDLE)).toBe(CombatGesture.IDLE);
+  });
+
+  it('reports the pending candidate and how many frames it still needs', () => {
+    const latch = createCombatLatch();
+    latch.update(CombatGesture.AIM);
+    expect(latch.getStatus()).toEqual({
+      current: CombatGesture.IDLE,
+      pending: CombatGesture.AIM,
+      pendingFrames: 1,
+      requiredFrames: 2,
+    });
+    latch.update(CombatGesture.AIM);
+    latch.update(CombatGesture.FIRE);
+    expect(latch.getStatus()).toMatchObject({ current: CombatGesture.FIRE, pending: null, requiredFrames: 0 });
+    latch.update(CombatGesture.AIM);
+    expect(latch.getStatus()).toMatchObject({ pending: CombatGesture.AIM, pendingFrames: 1, requiredFrames: 3 });
+  });
+});
+
+describe('movement hysteresis', () => {
+  const { STOP, FORWARD, LEFT } = MovementGesture;
+  const feedMovement = (sequence: MovementGesture[]) => {
+    const latch = createGestureLatch(STOP, (gesture) => getMovementHysteresis(gesture, calibration));
+    return sequence.map((gesture) => latch.update(gesture));
+  };
+
+  it('ignores a hand flickering across the deadzone edge', () => {
+    expect(feedMovement([FORWARD, STOP, FORWARD, STOP, FORWARD, STOP])).toEqual([STOP, STOP, STOP, STOP, STOP, STOP]);
+  });
+
+  it('starts after movementEnterFrames and keeps moving through brief dropouts', () => {
+    expect(feedMovement([FORWARD, FORWARD, STOP, STOP, FORWARD, STOP, STOP, STOP])).toEqual([
+      STOP,
+      FORWARD,
+      FORWARD,
+      FORWARD,
+      FORWARD,
+      FORWARD,
+      FORWARD,
+      STOP,
+    ]);
+  });
+
+  it('changes direction once the current one has been let go', () => {
+    expect(feedMovement([FORWARD, FORWARD, LEFT, LEFT, LEFT])).toEqual([STOP, FORWARD, FORWARD, FORWARD, LEFT]);
+  });
+});
@@ -0,0 +1,100 @@
+import { CombatGesture, MovementGesture, TrackerCalibration } from '../types';
+
+/** Consecutive frames a gesture needs to take over (`enter`) or to be let go (`exit`). */
+export interface HysteresisFrames {
+  enter: number;
+  exit: number;
+}
+
+/** Snapshot of a latch for diagnostics: the held gesture and the candidate trying to replace it. */
+export interface GestureLatchStatus<T> {
+  current: T;
+  pending: T | null;
+  pendingFrames: number;
+  /** Frames the pending candidate needs before it takes over; 0 when nothing is pending. */
+  requiredFrames: number;
+}
+
+export interface GestureLatch<T> {
+  update: (candidate: T) => T;
+  reset: () => void;
+  getStatus: () => GestureLatchStatus<T>;
+}
+
+const toFrameCount = (value: number) => Math.max(1, Math.floor(value));
+
+/**
+ * Holds the last accepted gesture and switches only after the candidate has
+ * persisted for the larger of its enter count and the current gesture's exit count.
+ */
+export const createGestureLatch = <T>(initial: T, getFrames: (gesture: T) => HysteresisFrames): GestureLatch<T> => {
+  let current = initial;
+  let pending: T | null = null;
+  let pendingFrames = 0;
+
+  const getRequiredFrames = (candidate: T) =>
+    Math.max(toFrameCount(getFrames(candidate).enter), toFrameCount(getFrames(current).exit));
+
+  const update = (candidate: T) => {
+    if (candidate === current) {
+      pending = null;
+      pendingFrames = 0;
+      return current;
+    }
+
+    if (candidate === pending) {
+      pendingFrames += 1;
+    } else {
+      pending = candidate;
+      pendingFrames = 1;
+    }
+
+    if (pendingFrames >= getRequiredFrames(candidate)) {
+      current = candidate;
+      pending = null;
+      pendingFrames = 0;
+    }
+    return current;
+  };
+
+  const reset = () => {
+    current = initial;
+    pending = null;
+    pendingFrames = 0;
+  };
+
+  const getStatus = (): GestureLatchStatus<T> => ({
+    current,
+    pending,
+    pendingFrames,
+    requiredFrames: pending === null ? 0 : getRequiredFrames(pending),
+  });
+
+  return { update, reset, getStatus };
+};
+
+/** Gestures without their own tuning enter after `smoothingFrames` and leave immediately. */
+export const getDefaultHysteresis = (calibration: TrackerCalibration): HysteresisFrames => ({
+  enter: calibration.smoothingFrames,
+  exit: 1,
+});
+
+/**
+ * FIRE has its own counts so a shot can engage quickly and survive a jittery
+ * frame; a melee swipe only lasts a few frames, so it engages on the first.
+ */
+export const getCombatHysteresis = (gesture: CombatGesture, calibration: TrackerCalibration): HysteresisFrames => {
+  if (gesture === CombatGesture.FIRE) return { enter: calibration.fireEnterFrames, exit: calibration.fireExitFrames };
+  if (gesture === CombatGesture.MELEE) return { enter: 1, exit: 1 };
+  return getDefaultHysteresis(calibration);
+};
+
+/**
+ * Directions start after `movementEnterFrames` and are let go after
+ * `movementExitFrames`; STOP adds no delay of its own, so stopping and
+ * switching direction wait only for the current direction to let go.
+ */
+export const getMovementHysteresis = (gesture: MovementGesture, calibration: TrackerCalibration): HysteresisFrames =>
+  gesture === MovementGesture.STOP
+    ? { enter: 1, exit: 1 }
+    : { enter: calibration.movementEnterFrames, exit: calibration.movementExitFrames };
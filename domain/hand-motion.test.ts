@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { COMBAT_POSES, translatePose } from './__fixtures__/hand-poses';
+import { createHandMotionTracker } from './hand-motion';
+
+const FRAME_MS = 1000 / 30;
+
+/** Feeds a pose sliding sideways by `dxPerFrame` (image units) and returns the last estimate. */
+const slide = (pose = COMBAT_POSES.fist, dxPerFrame = 0.03, frames = 8) => {
+  const tracker = createHandMotionTracker();
+  let motion = tracker.update(pose, 0);
+  for (let frame = 1; frame <= frames; frame += 1) {
+    motion = tracker.update(translatePose(pose, dxPerFrame * frame, 0), frame * FRAME_MS);
+  }
+  return motion;
+};
+
+describe('createHandMotionTracker', () => {
+  it('reports a still hand as not moving', () => {
+    expect(slide(COMBAT_POSES.fist, 0)).toEqual({ x: 0, y: 0 });
+  });
+
+  it('measures a sideways swipe in hand-scale units per second', () => {
+    // 0.03 image units per frame at 30 fps with a 0.1 hand scale is 9 hand-scales per second.
+    const motion = slide();
+    expect(motion.x).toBeCloseTo(9, 1);
+    expect(Math.abs(motion.y)).toBeLessThan(1e-6);
+  });
+
+  it('starts over after a reset or a long gap between frames', () => {
+    const tracker = createHandMotionTracker();
+    tracker.update(COMBAT_POSES.fist, 0);
+    expect(tracker.update(translatePose(COMBAT_POSES.fist, 0.1, 0), 1000).x).toBe(0);
+    tracker.reset();
+    expect(tracker.update(translatePose(COMBAT_POSES.fist, 0.2, 0), 1010).x).toBe(0);
+  });
+});
@@ -0,0 +1,48 @@
+import { HandMotion } from '../types';
+import { getHandScale, HandLandmarks, LANDMARK } from './gesture-classifier';
+
+/** Weight kept from the previous estimate, so a single jumpy frame does not read as a swipe. */
+const VELOCITY_SMOOTHING = 0.4;
+/** Frames further apart than this are treated as a new track rather than one fast move. */
+const MAX_FRAME_GAP_MS = 250;
+
+const STILL: HandMotion = { x: 0, y: 0 };
+
+export interface HandMotionTracker {
+  update: (landmarks: HandLandmarks, timestampMs: number) => HandMotion;
+  reset: () => void;
+}
+
+/**
+ * Estimates wrist velocity in hand-scale units per second, so a swipe reads
+ * the same whether the hand is close to the camera or at arm's length.
+ */
+export const createHandMotionTracker = (): HandMotionTracker => {
+  let previous: { x: number; y: number; timestampMs: number } | null = null;
+  let velocity = STILL;
+
+  const reset = () => {
+    previous = null;
+    velocity = STILL;
+  };
+
+  const update = (landmarks: HandLandmarks, timestampMs: number) => {
+    const wrist = landmarks[LANDMARK.WRIST];
+    const elapsedMs = previous ? timestampMs - previous.timestampMs : 0;
+
+    if (!previous || elapsedMs <= 0 || elapsedMs > MAX_FRAME_GAP_MS) {
+      velocity = STILL;
+    } else {
+      const scale = getHandScale(landmarks) * (elapsedMs / 1000);
+      velocity = {
+        x: velocity.x * VELOCITY_SMOOTHING + ((wrist.x - previous.x) / scale) * (1 - VELOCITY_SMOOTHING),
+        y: velocity.y * VELOCITY_SMOOTHING + ((wrist.y - previous.y) / scale) * (1 - VELOCITY_SMOOTHING),
+      };
+    }
+
+    previous = { x: wrist.x, y: wrist.y, timestampMs };
+    return velocity;
+  };
+
+  return { update, reset };
+};
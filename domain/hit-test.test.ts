@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_ARENA_MAP } from '../config/arenaMaps';
+import { ENEMY_HITBOXES } from '../config/gameConfig';
+import { EnemyAIState, EnemyArchetypeId } from '../types';
+import { createTarget } from './__fixtures__/targets';
+import { ArenaMap } from './arena-map';
+import { Vec3 } from './combat-abilities';
+import {
+  buildEnemyColliders,
+  findShotHit,
+  intersectCapsule,
+  intersectSphere,
+  raycastColliders,
+} from './hit-test';
+
+const enemyAt = (id: string, position: Vec3, archetype: EnemyArchetypeId = 'DRONE', heading = 0) =>
+  createTarget({ id, archetype, position, heading, state: EnemyAIState.ALERT });
+
+/** Looking down -z from the origin, at `height`. */
+const lookNorth = (height: number) => ({ origin: [0, height, 0] as Vec3, direction: [0, 0, -1] as Vec3 });
+
+describe('shape intersections', () => {
+  it('finds the entry distance into a sphere, or misses it', () => {
+    expect(intersectSphere(lookNorth(0), [0, 0, -10], 1)).toBeCloseTo(9);
+    expect(intersectSphere(lookNorth(2), [0, 0, -10], 1)).toBeNull();
+    expect(intersectSphere(lookNorth(0), [0, 0, 10], 1)).toBeNull();
+    expect(intersectSphere(lookNorth(0), [0, 0, -0.5], 1)).toBe(0);
+  });
+
+  it('hits a capsule on its side and on its caps, even along the axis', () => {
+    expect(intersectCapsule(lookNorth(0), [-2, 0, -10], [2, 0, -10], 0.5)).toBeCloseTo(9.5);
+    expect(intersectCapsule(lookNorth(0), [0.3, 0, -10], [4, 0, -10], 0.5)).toBeCloseTo(10 - Math.sqrt(0.16));
+    expect(intersectCapsule(lookNorth(0), [0, 0, -5], [0, 0, -10], 0.5)).toBeCloseTo(4.5);
+    expect(intersectCapsule(lookNorth(1), [-2, 0, -10], [2, 0, -10], 0.5)).toBeNull();
+  });
+});
+
+describe('enemy colliders', () => {
+  it('follow the enemy position and heading, and skip the dead', () => {
+    const turned = enemyAt('turned', [5, 2, 0], 'DRONE', Math.PI / 2);
+    const dead = { ...enemyAt('dead', [0, 2, 0]), state: EnemyAIState.DEAD };
+    const colliders = buildEnemyColliders([turned, dead]);
+
+    expect(colliders.every((collider) => collider.enemyId === 'turned')).toBe(true);
+    const eye = colliders.find((collider) => collider.part === 'WEAK_SPOT');
+    const { center, radius } = ENEMY_HITBOXES.DRONE.weakSpot;
+    expect(eye?.shape).toMatchObject({ kind: 'SPHERE', radius });
+    if (eye?.shape.kind !== 'SPHERE') return;
+    // Facing +x, the eye sits on the drone's +x side.
+    expect(eye.shape.center[0]).toBeCloseTo(5 + center[2]);
+    expect(eye.shape.center[2]).toBeCloseTo(0);
+  });
+
+  it('report the eye when the ray meets it first, and the body otherwise', () => {
+    // A drone 10 m north, facing the player (+z).
+    const colliders = buildEnemyColliders([enemyAt('drone', [0, 2, -10])]);
+    const eyeShot = raycastColliders(colliders, lookNorth(2));
+    expect(eyeShot).toMatchObject({ enemyId: 'drone', part: 'WEAK_SPOT' });
+    expect(eyeShot?.distance).toBeCloseTo(10 - 0.58 - 0.19);
+
+    expect(raycastColliders(colliders, lookNorth(1.5))).toMatchObject({ part: 'BODY' });
+    expect(raycastColliders(colliders, lookNorth(4))).toBeNull();
+  });
+
+  it('keep the tank eye behind its hull when shot from the front', () => {
+    const colliders = buildEnemyColliders([enemyAt('tank', [0, 2, -10], 'TANK')]);
+    expect(raycastColliders(colliders, lookNorth(2.2))).toMatchObject({ part: 'BODY' });
+
+    const fromBehind = buildEnemyColliders([enemyAt('tank', [0, 2, -10], 'TANK', Math.PI)]);
+    expect(raycastColliders(fromBehind, lookNorth(2.2))).toMatchObject({ part: 'WEAK_SPOT' });
+  });
+
+  it('return the nearest of several enemies in line', () => {
+    const colliders = buildEnemyColliders([enemyAt('far', [0, 2, -20]), enemyAt('near', [0, 2, -8])]);
+    expect(raycastColliders(colliders, lookNorth(2))?.enemyId).toBe('near');
+  });
+});
+
+describe('findShotHit', () => {
+  const walledMap: ArenaMap = {
+    ...DEFAULT_ARENA_MAP,
+    halfExtent: 20,
+    obstacles: [{ kind: 'WALL', center: [0, -5], size: [6, 3, 1] }],
+  };
+
+  it('is stopped by a wall between the player and the enemy', () => {
+    const colliders = buildEnemyColliders([enemyAt('drone', [0, 1.6, -10])]);
+    expect(findShotHit(walledMap, colliders, lookNorth(1.6))).toBeNull();
+    expect(findShotHit(DEFAULT_ARENA_MAP, colliders, lookNorth(1.6))).toMatchObject({ enemyId: 'drone' });
+  });
+
+  it('ignores walls behind the enemy and accepts any direction length', () => {
+    const colliders = buildEnemyColliders([enemyAt('drone', [0, 1.6, -3])]);
+    const hit = findShotHit(walledMap, colliders, { origin: [0, 1.6, 0], direction: [0, 0, -4] });
+    expect(hit?.enemyId).toBe('drone');
+    expect(hit?.distance).toBeCloseTo(3 - 0.58 - 0.19);
+  });
+});
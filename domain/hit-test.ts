@@ -0,0 +1,125 @@
+import { ENEMY_HITBOXES } from '../config/gameConfig';
+import { ColliderShape, EnemyAIState, Target } from '../types';
+import { findCoverEntry } from './arena-collision';
+import { ArenaMap } from './arena-map';
+import { Vec3 } from './combat-abilities';
+import { normalize } from './vector-math';
+
+export type HitPart = 'BODY' | 'WEAK_SPOT';
+
+/** One volume of one enemy, placed in the arena. */
+export interface EnemyCollider {
+  enemyId: string;
+  part: HitPart;
+  shape: ColliderShape;
+}
+
+export interface Ray {
+  origin: Vec3;
+  direction: Vec3;
+}
+
+export interface RayHit {
+  enemyId: string;
+  /** From the ray origin, in metres. */
+  distance: number;
+  part: HitPart;
+}
+
+const dot = (a: Vec3, b: Vec3) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+const subtract = (a: Vec3, b: Vec3): Vec3 => [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+
+/** Turns a point in the enemy's frame by its heading and moves it to its position. */
+const toArena = ({ position, heading }: Target, [x, y, z]: Vec3): Vec3 => {
+  const cos = Math.cos(heading);
+  const sin = Math.sin(heading);
+  return [position[0] + x * cos + z * sin, position[1] + y, position[2] - x * sin + z * cos];
+};
+
+const placeShape = (enemy: Target, shape: ColliderShape): ColliderShape =>
+  shape.kind === 'SPHERE'
+    ? { ...shape, center: toArena(enemy, shape.center) }
+    : { ...shape, start: toArena(enemy, shape.start), end: toArena(enemy, shape.end) };
+
+/** The hit volumes of every living enemy, where the enemy stands and facing its heading. */
+export const buildEnemyColliders = (enemies: readonly Target[]): EnemyCollider[] =>
+  enemies.flatMap((enemy) => {
+    if (enemy.state === EnemyAIState.DEAD) return [];
+    const { body, weakSpot } = ENEMY_HITBOXES[enemy.archetype];
+    return [
+      ...body.map((shape): EnemyCollider => ({ enemyId: enemy.id, part: 'BODY', shape: placeShape(enemy, shape) })),
+      {
+        enemyId: enemy.id,
+        part: 'WEAK_SPOT',
+        shape: { kind: 'SPHERE', center: toArena(enemy, weakSpot.center), radius: weakSpot.radius },
+      },
+    ];
+  });
+
+/** Distance along a unit-direction ray to a sphere, 0 when the origin is inside, or null on a miss. */
+export const intersectSphere = ({ origin, direction }: Ray, center: Vec3, radius: number): number | null => {
+  const offset = subtract(origin, center);
+  const along = dot(offset, direction);
+  const discriminant = along * along - (dot(offset, offset) - radius * radius);
+  if (discriminant < 0) return null;
+  const root = Math.sqrt(discriminant);
+  if (-along - root >= 0) return -along - root;
+  return -along + root >= 0 ? 0 : null;
+};
+
+/** Like `intersectSphere`, for a capsule: the side of a cylinder between two sphere caps. */
+export const intersectCapsule = (ray: Ray, start: Vec3, end: Vec3, radius: number): number | null => {
+  const { origin, direction } = ray;
+  const axis = subtract(end, start);
+  const offset = subtract(origin, start);
+  const axisLength2 = dot(axis, axis);
+  const axisAlongRay = dot(axis, direction);
+  const axisAlongOffset = dot(axis, offset);
+
+  let nearest: number | null = null;
+  const keep = (distance: number | null) => {
+    if (distance !== null && (nearest === null || distance < nearest)) nearest = distance;
+  };
+
+  // The side: a ray parallel to the axis can only enter through a cap.
+  const a = axisLength2 - axisAlongRay * axisAlongRay;
+  if (a > 1e-9) {
+    const b = axisLength2 * dot(offset, direction) - axisAlongOffset * axisAlongRay;
+    const c = axisLength2 * dot(offset, offset) - axisAlongOffset * axisAlongOffset - radius * radius * axisLength2;
+    const discriminant = b * b - a * c;
+    if (discriminant >= 0) {
+      const distance = (-b - Math.sqrt(discriminant)) / a;
+      const height = axisAlongOffset + distance * axisAlongRay;
+      if (distance >= 0 && height >= 0 && height <= axisLength2) keep(distance);
+    }
+  }
+  keep(intersectSphere(ray, start, radius));
+  keep(intersectSphere(ray, end, radius));
+  return nearest;
+};
+
+const intersectShape = (ray: Ray, shape: ColliderShape) =>
+  shape.kind === 'SPHERE'
+    ? intersectSphere(ray, shape.center, shape.radius)
+    : intersectCapsule(ray, shape.start, shape.end, shape.radius);
+
+/** The nearest collider along the ray, or null when it hits none. */
+export const raycastColliders = (colliders: readonly EnemyCollider[], ray: Ray): RayHit | null => {
+  const unitRay = { origin: ray.origin, direction: normalize(ray.direction) };
+  let nearest: RayHit | null = null;
+  colliders.forEach(({ enemyId, part, shape }) => {
+    const distance = intersectShape(unitRay, shape);
+    if (distance !== null && (nearest === null || distance < nearest.distance)) nearest = { enemyId, distance, part };
+  });
+  return nearest;
+};
+
+/** The enemy a shot along `ray` strikes, or null when it misses or a wall or crate stops it first. */
+export const findShotHit = (map: ArenaMap, colliders: readonly EnemyCollider[], ray: Ray): RayHit | null => {
+  const hit = raycastColliders(colliders, ray);
+  if (!hit) return null;
+  const [x, y, z] = normalize(ray.direction);
+  const { origin } = ray;
+  const impact: Vec3 = [origin[0] + x * hit.distance, origin[1] + y * hit.distance, origin[2] + z * hit.distance];
+  return findCoverEntry(map, origin, impact) === null ? hit : null;
+};
@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_HAND_STATE } from '../config/gameConfig';
+import { CombatGesture, HandState, MovementGesture } from '../types';
+import {
+  gamepadToHandState,
+  handStatesEqual,
+  KeyboardMouseSnapshot,
+  keyboardMouseToHandState,
+  mergeHandStates,
+} from './input-state';
+
+const idleKeys: KeyboardMouseSnapshot = {
+  forward: false,
+  backward: false,
+  left: false,
+  right: false,
+  turnLeft: false,
+  turnRight: false,
+  lookUp: false,
+  lookDown: false,
+  fire: false,
+  ironSight: false,
+  reload: false,
+  switchWeapon: false,
+  melee: false,
+  grenade: false,
+  pointer: null,
+};
+
+const pad = (axes: number[], pressed: number[] = []) => ({
+  axes,
+  buttons: Array.from({ length: 16 }, (_, index) => ({ pressed: pressed.includes(index) })),
+});
+
+describe('keyboardMouseToHandState', () => {
+  it('maps WASD to a normalized movement vector', () => {
+    const state = keyboardMouseToHandState({ ...idleKeys, forward: true, right: true });
+    expect(state.moveVector.x).toBeCloseTo(Math.SQRT1_2);
+    expect(state.moveVector.y).toBeCloseTo(Math.SQRT1_2);
+    expect(state.moveVector.magnitude).toBe(1);
+  });
+
+  it('fires on click, reloads on R and reports both hands present', () => {
+    expect(keyboardMouseToHandState({ ...idleKeys, fire: true }).combat).toBe(CombatGesture.FIRE);
+    expect(keyboardMouseToHandState({ ...idleKeys, fire: true, reload: true }).combat).toBe(CombatGesture.RELOAD);
+    expect(keyboardMouseToHandState({ ...idleKeys, fire: true, grenade: true }).combat).toBe(CombatGesture.GRENADE);
+    const idle = keyboardMouseToHandState(idleKeys);
+    expect(idle.movement).toBe(MovementGesture.STOP);
+    expect(idle.leftHandPresent && idle.rightHandPresent).toBe(true);
+  });
+
+  it('uses the pointer as the free-aim point and Q as a left turn', () => {
+    const state = keyboardMouseToHandState({ ...idleKeys, turnLeft: true, pointer: { x: 0.504, y: -0.25 } });
+    expect(state.aim).toEqual({ x: 0.5, y: -0.25 });
+    expect(state.look.yaw).toBeGreaterThan(0);
+  });
+});
+
+describe('gamepadToHandState', () => {
+  it('is idle and absent without a pad', () => {
+    expect(gamepadToHandState(null)).toBe(DEFAULT_HAND_STATE);
+  });
+
+  it('ignores stick drift inside the deadzone', () => {
+    expect(gamepadToHandState(pad([0.08, -0.1, 0.05, 0])).moveVector.magnitude).toBe(0);
+  });
+
+  it('maps the face buttons and bumper to the melee, switch and grenade actions', () => {
+    expect(gamepadToHandState(pad([0, 0, 0, 0], [1])).combat).toBe(CombatGesture.MELEE);
+    expect(gamepadToHandState(pad([0, 0, 0, 0], [3])).combat).toBe(CombatGesture.SWITCH_WEAPON);
+    expect(gamepadToHandState(pad([0, 0, 0, 0], [5, 7])).combat).toBe(CombatGesture.GRENADE);
+  });
+
+  it('moves forward on stick up, turns right on right stick right and fires on RT', () => {
+    const state = gamepadToHandState(pad([0, -1, 1, 0], [7]));
+    expect(state.movement).toBe(MovementGesture.FORWARD);
+    expect(state.look.yaw).toBeLessThan(0);
+    expect(state.combat).toBe(CombatGesture.FIRE);
+  });
+});
+
+describe('mergeHandStates', () => {
+  const hands: HandState = {
+    ...DEFAULT_HAND_STATE,
+    combat: CombatGesture.AIM,
+    moveVector: { x: 0, y: 0.6, magnitude: 0.6 },
+    movement: MovementGesture.FORWARD,
+    aim: { x: 0.2, y: 0.1 },
+    rightHandPresent: true,
+  };
+
+  it('returns a single source unchanged', () => {
+    expect(mergeHandStates([hands])).toBe(hands);
+  });
+
+  it('sums movement, keeps the decisive gesture and the first non-centred aim', () => {
+    const keys = keyboardMouseToHandState({ ...idleKeys, right: true, fire: true });
+    const merged = mergeHandStates([hands, keys]);
+    expect(merged.combat).toBe(CombatGesture.FIRE);
+    expect(merged.moveVector.magnitude).toBeLessThanOrEqual(1);
+    expect(merged.moveVector.x).toBeGreaterThan(0);
+    expect(merged.aim).toEqual(hands.aim);
+    expect(merged.leftHandPresent).toBe(true);
+  });
+
+  it('compares states field by field', () => {
+    expect(handStatesEqual(hands, { ...hands, aim: { ...hands.aim } })).toBe(true);
+    expect(handStatesEqual(hands, { ...hands, combat: CombatGesture.FIRE })).toBe(false);
+    expect(handStatesEqual(null, hands)).toBe(false);
+  });
+});
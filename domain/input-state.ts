@@ -0,0 +1,199 @@
+import { DEFAULT_HAND_STATE } from '../config/gameConfig';
+import { AimPoint, CombatGesture, HandState, MovementVector } from '../types';
+import { movementGestureFromVector, quantizeAimPoint } from './gesture-classifier';
+
+export type InputMode = 'HAND' | 'KEYBOARD_MOUSE' | 'GAMEPAD' | 'MERGED';
+
+export type InputSourceId = Exclude<InputMode, 'MERGED'>;
+
+export const INPUT_MODE_LABELS: Record<InputMode, string> = {
+  HAND: 'Mãos (câmera)',
+  KEYBOARD_MOUSE: 'Teclado + mouse',
+  GAMEPAD: 'Gamepad',
+  MERGED: 'Combinado (depuração)',
+};
+
+/** Sources each mode listens to; MERGED combines every provider for debugging. */
+export const INPUT_MODE_SOURCES: Record<InputMode, readonly InputSourceId[]> = {
+  HAND: ['HAND'],
+  KEYBOARD_MOUSE: ['KEYBOARD_MOUSE'],
+  GAMEPAD: ['GAMEPAD'],
+  MERGED: ['HAND', 'KEYBOARD_MOUSE', 'GAMEPAD'],
+};
+
+export const isInputMode = (value: unknown): value is InputMode =>
+  value === 'HAND' || value === 'KEYBOARD_MOUSE' || value === 'GAMEPAD' || value === 'MERGED';
+
+/** When merged sources disagree, the more decisive combat gesture wins. */
+const COMBAT_PRIORITY: readonly CombatGesture[] = [
+  CombatGesture.GRENADE,
+  CombatGesture.MELEE,
+  CombatGesture.FIRE,
+  CombatGesture.RELOAD,
+  CombatGesture.SWITCH_WEAPON,
+  CombatGesture.IRON_SIGHT,
+  CombatGesture.AIM,
+  CombatGesture.IDLE,
+];
+
+/** Turn rate, in rad/s, for keys and a fully deflected stick; matches the default hand look sensitivity. */
+const TURN_RATE = 1.6;
+const STICK_DEADZONE = 0.15;
+/** Stick values are quantized like hand deflection so an idle pad does not emit every frame. */
+const STICK_STEP = 0.05;
+
+const toMovementVector = (x: number, y: number): MovementVector => {
+  const length = Math.hypot(x, y);
+  if (length === 0) return { x: 0, y: 0, magnitude: 0 };
+  const scale = length > 1 ? 1 / length : 1;
+  return { x: x * scale, y: y * scale, magnitude: Math.min(1, length) };
+};
+
+const withMovement = (state: HandState, moveVector: MovementVector): HandState => ({
+  ...state,
+  moveVector,
+  movement: movementGestureFromVector(moveVector),
+});
+
+export const handStatesEqual = (a: HandState | null, b: HandState) => {
+  if (!a) return false;
+  return (
+    a.movement === b.movement &&
+    a.moveVector.x === b.moveVector.x &&
+    a.moveVector.y === b.moveVector.y &&
+    a.combat === b.combat &&
+    a.look.yaw === b.look.yaw &&
+    a.look.pitch === b.look.pitch &&
+    a.aim.x === b.aim.x &&
+    a.aim.y === b.aim.y &&
+    a.leftHandPresent === b.leftHandPresent &&
+    a.rightHandPresent === b.rightHandPresent
+  );
+};
+
+export const mergeHandStates = (states: readonly HandState[]): HandState => {
+  if (states.length === 0) return DEFAULT_HAND_STATE;
+  if (states.length === 1) return states[0];
+
+  const sum = (pick: (state: HandState) => number) => states.reduce((total, state) => total + pick(state), 0);
+  const combat = COMBAT_PRIORITY.find((gesture) => states.some((state) => state.combat === gesture));
+  const aimSource = states.find((state) => state.aim.x !== 0 || state.aim.y !== 0);
+
+  return withMovement(
+    {
+      ...DEFAULT_HAND_STATE,
+      combat: combat ?? CombatGesture.IDLE,
+      look: { yaw: sum((state) => state.look.yaw), pitch: sum((state) => state.look.pitch) },
+      aim: aimSource?.aim ?? DEFAULT_HAND_STATE.aim,
+      leftHandPresent: states.some((state) => state.leftHandPresent),
+      rightHandPresent: states.some((state) => state.rightHandPresent),
+    },
+    toMovementVector(sum((state) => state.moveVector.x), sum((state) => state.moveVector.y)),
+  );
+};
+
+export interface KeyboardMouseSnapshot {
+  forward: boolean;
+  backward: boolean;
+  left: boolean;
+  right: boolean;
+  turnLeft: boolean;
+  turnRight: boolean;
+  lookUp: boolean;
+  lookDown: boolean;
+  fire: boolean;
+  ironSight: boolean;
+  reload: boolean;
+  switchWeapon: boolean;
+  melee: boolean;
+  grenade: boolean;
+  /** Pointer position in NDC, or null before the mouse has moved. */
+  pointer: AimPoint | null;
+}
+
+const axis = (positive: boolean, negative: boolean) => Number(positive) - Number(negative);
+
+/** First held action in priority order; with nothing held the weapon is simply raised. */
+const pickCombat = (held: readonly [boolean, CombatGesture][]) =>
+  held.find(([isHeld]) => isHeld)?.[1] ?? CombatGesture.AIM;
+
+/** Keyboard and mouse always count as both hands being present, so auto-pause never triggers. */
+export const keyboardMouseToHandState = (snapshot: KeyboardMouseSnapshot): HandState => {
+  const combat = pickCombat([
+    [snapshot.grenade, CombatGesture.GRENADE],
+    [snapshot.melee, CombatGesture.MELEE],
+    [snapshot.reload, CombatGesture.RELOAD],
+    [snapshot.switchWeapon, CombatGesture.SWITCH_WEAPON],
+    [snapshot.fire, CombatGesture.FIRE],
+    [snapshot.ironSight, CombatGesture.IRON_SIGHT],
+  ]);
+
+  return withMovement(
+    {
+      ...DEFAULT_HAND_STATE,
+      combat,
+      look: {
+        yaw: axis(snapshot.turnLeft, snapshot.turnRight) * TURN_RATE,
+        pitch: axis(snapshot.lookUp, snapshot.lookDown) * TURN_RATE * 0.5,
+      },
+      aim: snapshot.pointer ? quantizeAimPoint(snapshot.pointer) : DEFAULT_HAND_STATE.aim,
+      leftHandPresent: true,
+      rightHandPresent: true,
+    },
+    toMovementVector(axis(snapshot.right, snapshot.left), axis(snapshot.forward, snapshot.backward)),
+  );
+};
+
+export interface GamepadSnapshot {
+  axes: readonly number[];
+  buttons: readonly { pressed: boolean }[];
+}
+
+/** Standard-mapping button indices. */
+const GAMEPAD_BUTTON = {
+  MELEE: 1,
+  RELOAD: 2,
+  SWITCH_WEAPON: 3,
+  GRENADE: 5,
+  IRON_SIGHT: 6,
+  FIRE: 7,
+} as const;
+
+const readStick = (value: number | undefined) => {
+  if (value === undefined || Math.abs(value) < STICK_DEADZONE) return 0;
+  const normalized = (Math.abs(value) - STICK_DEADZONE) / (1 - STICK_DEADZONE);
+  return Math.sign(value) * Math.round(Math.min(1, normalized) / STICK_STEP) * STICK_STEP;
+};
+
+/**
+ * Left stick moves, right stick turns (screen-right is negative yaw), right
+ * trigger fires, left trigger aims down sights, X reloads, Y switches weapons,
+ * B strikes and the right bumper throws a grenade.
+ */
+export const gamepadToHandState = (snapshot: GamepadSnapshot | null): HandState => {
+  if (!snapshot) return DEFAULT_HAND_STATE;
+  const pressed = (index: number) => Boolean(snapshot.buttons[index]?.pressed);
+
+  const combat = pickCombat([
+    [pressed(GAMEPAD_BUTTON.GRENADE), CombatGesture.GRENADE],
+    [pressed(GAMEPAD_BUTTON.MELEE), CombatGesture.MELEE],
+    [pressed(GAMEPAD_BUTTON.RELOAD), CombatGesture.RELOAD],
+    [pressed(GAMEPAD_BUTTON.SWITCH_WEAPON), CombatGesture.SWITCH_WEAPON],
+    [pressed(GAMEPAD_BUTTON.FIRE), CombatGesture.FIRE],
+    [pressed(GAMEPAD_BUTTON.IRON_SIGHT), CombatGesture.IRON_SIGHT],
+  ]);
+
+  return withMovement(
+    {
+      ...DEFAULT_HAND_STATE,
+      combat,
+      look: {
+        yaw: -readStick(snapshot.axes[2]) * TURN_RATE,
+        pitch: -readStick(snapshot.axes[3]) * TURN_RATE * 0.5,
+      },
+      leftHandPresent: true,
+      rightHandPresent: true,
+    },
+    toMovementVector(readStick(snapshot.axes[0]), -readStick(snapshot.axes[1])),
+  );
+};
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_TRACKER_CALIBRATION } from '../config/gameConfig';
+import { CombatGesture, MovementGesture } from '../types';
+import { COMBAT_POSES, MOVEMENT_POSES } from './__fixtures__/hand-poses';
+import { classifyCombat, classifyMovement } from './gesture-classifier';
+import {
+  createLandmarkRecorder,
+  getReplayFrameIndex,
+  LANDMARK_RECORDING_VERSION,
+  parseLandmarkRecording,
+  serializeLandmarkRecording,
+} from './landmark-recording';
+
+const recordSession = () => {
+  const recorder = createLandmarkRecorder();
+  recorder.capture(
+    {
+      multiHandLandmarks: [MOVEMENT_POSES.neutral, COMBAT_POSES.aim],
+      multiHandedness: [
+        { label: 'Left', score: 0.97 },
+        { label: 'Right', score: 0.95 },
+      ],
+    },
+    1_000,
+  );
+  recorder.capture(
+    {
+      multiHandLandmarks: [MOVEMENT_POSES.raised, COMBAT_POSES.fire],
+      multiHandedness: [
+        { label: 'Left', score: 0.96 },
+        { label: 'Right', score: 0.94 },
+      ],
+    },
+    1_033,
+  );
+  recorder.capture({}, 1_066);
+  return recorder.finish(new Date('2026-01-01T00:00:00.000Z'));
+};
+
+describe('landmark recording', () => {
+  it('captures frames relative to the first timestamp', () => {
+    const recording = recordSession();
+    expect(recording.version).toBe(LANDMARK_RECORDING_VERSION);
+    expect(recording.frames.map((frame) => frame.t)).toEqual([0, 33, 66]);
+    expect(recording.durationMs).toBe(66);
+    expect(recording.frames[2].multiHandLandmarks).toEqual([]);
+  });
+
+  it('round-trips through JSON and still classifies the same gestures', () => {
+    const replayed = parseLandmarkRecording(serializeLandmarkRecording(recordSession()));
+    const [left, right] = replayed.frames[1].multiHandLandmarks;
+    expect(classifyMovement(left, DEFAULT_TRACKER_CALIBRATION)).toBe(MovementGesture.FORWARD);
+    expect(classifyCombat(right, DEFAULT_TRACKER_CALIBRATION)).toBe(CombatGesture.FIRE);
+  });
+
+  it('rejects unknown versions and malformed payloads', () => {
+    const recording = recordSession();
+    expect(() => parseLandmarkRecording(JSON.stringify({ ...recording, version: 99 }))).toThrow(/99/);
+    expect(() => parseLandmarkRecording('{not json')).toThrow();
+    expect(() =>
+      parseLandmarkRecording(JSON.stringify({ ...recording, frames: [{ t: 0, multiHandLandmarks: [[]] }] })),
+    ).toThrow();
+  });
+
+  it('locates the frame for a playback cursor, looping by default', () => {
+    const recording = recordSession();
+    expect(getReplayFrameIndex(recording, 0)).toBe(0);
+    expect(getReplayFrameIndex(recording, 40)).toBe(1);
+    expect(getReplayFrameIndex(recording, 66 + 35)).toBe(1);
+    expect(getReplayFrameIndex(recording, 500, false)).toBe(2);
+  });
+});
@@ -0,0 +1,151 @@
+import { HandLandmark, HandLandmarks, isHandLandmarks } from './gesture-classifier';
+
+export const LANDMARK_RECORDING_FORMAT = 'gesturestrike.landmarks';
+export const LANDMARK_RECORDING_VERSION = 1;
+
+export type HandednessLabel = 'Left' | 'Right';
+
+export interface HandednessEntry {
+  label: HandednessLabel;
+  score: number;
+}
+
+/** Subset of the MediaPipe `onResults` payload that gesture detection reads. */
+export interface HandLandmarkResults {
+  multiHandLandmarks?: HandLandmarks[];
+  multiHandedness?: HandednessEntry[];
+}
+
+export interface LandmarkFrame extends Required<HandLandmarkResults> {
+  /** Milliseconds since the first captured frame. */
+  t: number;
+}
+
+export interface LandmarkRecording {
+  format: typeof LANDMARK_RECORDING_FORMAT;
+  version: typeof LANDMARK_RECORDING_VERSION;
+  recordedAt: string;
+  durationMs: number;
+  frames: LandmarkFrame[];
+}
+
+const COORDINATE_PRECISION = 5;
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const roundCoordinate = (value: number) => Number(value.toFixed(COORDINATE_PRECISION));
+
+const compactLandmark = (point: HandLandmark): HandLandmark => ({
+  x: roundCoordinate(point.x),
+  y: roundCoordinate(point.y),
+  z: roundCoordinate(point.z ?? 0),
+});
+
+const isHandednessEntry = (value: unknown): value is HandednessEntry => {
+  if (!value || typeof value !== 'object') return false;
+  const entry = value as Record<string, unknown>;
+  return (entry.label === 'Left' || entry.label === 'Right') && isFiniteNumber(entry.score);
+};
+
+const isLandmarkFrame = (value: unknown): value is LandmarkFrame => {
+  if (!value || typeof value !== 'object') return false;
+  const frame = value as Record<string, unknown>;
+  return (
+    isFiniteNumber(frame.t) &&
+    frame.t >= 0 &&
+    Array.isArray(frame.multiHandLandmarks) &&
+    Array.isArray(frame.multiHandedness) &&
+    frame.multiHandLandmarks.length === frame.multiHandedness.length &&
+    frame.multiHandLandmarks.every(isHandLandmarks) &&
+    frame.multiHandedness.every(isHandednessEntry)
+  );
+};
+
+export const isLandmarkRecording = (value: unknown): value is LandmarkRecording => {
+  if (!value || typeof value !== 'object') return false;
+  const recording = value as Record<string, unknown>;
+  return (
+    recording.format === LANDMARK_RECORDING_FORMAT &&
+    recording.version === LANDMARK_RECORDING_VERSION &&
+    typeof recording.recordedAt === 'string' &&
+    isFiniteNumber(recording.durationMs) &&
+    Array.isArray(recording.frames) &&
+    recording.frames.every(isLandmarkFrame)
+  );
+};
+
+export const parseLandmarkRecording = (raw: string): LandmarkRecording => {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(raw);
+  } catch {
+    throw new Error('Arquivo de gravação não é um JSON válido.');
+  }
+
+  const version = (payload as { version?: unknown } | null)?.version;
+  if (version !== undefined && version !== LANDMARK_RECORDING_VERSION) {
+    throw new Error(`Versão de gravação não suportada: ${String(version)}.`);
+  }
+  if (!isLandmarkRecording(payload)) {
+    throw new Error('Arquivo de gravação inválido ou corrompido.');
+  }
+  if (!payload.frames.length) {
+    throw new Error('Gravação não contém quadros.');
+  }
+  return payload;
+};
+
+export const serializeLandmarkRecording = (recording: LandmarkRecording) => JSON.stringify(recording);
+
+export const createLandmarkRecorder = () => {
+  const frames: LandmarkFrame[] = [];
+  let startedAt: number | null = null;
+
+  return {
+    capture(results: HandLandmarkResults, timestamp: number) {
+      if (startedAt === null) startedAt = timestamp;
+      const hands = results.multiHandLandmarks ?? [];
+      const handedness = results.multiHandedness ?? [];
+      const count = Math.min(hands.length, handedness.length);
+
+      frames.push({
+        t: Math.max(0, Math.round(timestamp - startedAt)),
+        multiHandLandmarks: hands.slice(0, count).map((landmarks) => landmarks.map(compactLandmark)),
+        multiHandedness: handedness.slice(0, count).map(({ label, score }) => ({ label, score: roundCoordinate(score) })),
+      });
+    },
+    get frameCount() {
+      return frames.length;
+    },
+    finish(recordedAt = new Date()): LandmarkRecording {
+      return {
+        format: LANDMARK_RECORDING_FORMAT,
+        version: LANDMARK_RECORDING_VERSION,
+        recordedAt: recordedAt.toISOString(),
+        durationMs: frames.length ? frames[frames.length - 1].t : 0,
+        frames: [...frames],
+      };
+    },
+  };
+};
+
+export type LandmarkRecorder = ReturnType<typeof createLandmarkRecorder>;
+
+/**
+ * Returns the index of the frame that should be on screen `elapsedMs` after
+ * playback started. Looping playback wraps around the recording duration.
+ */
+export const getReplayFrameIndex = (recording: LandmarkRecording, elapsedMs: number, loop = true) => {
+  const { frames, durationMs } = recording;
+  if (!frames.length) return -1;
+
+  const cursor = loop && durationMs > 0 ? elapsedMs % durationMs : Math.min(elapsedMs, durationMs);
+  let low = 0;
+  let high = frames.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (frames[mid].t <= cursor) low = mid;
+    else high = mid - 1;
+  }
+  return low;
+};
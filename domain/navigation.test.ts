@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_ARENA_MAP } from '../config/arenaMaps';
+import { PATH_REPLAN_INTERVAL_MS } from '../config/gameConfig';
+import { EnemyAIState } from '../types';
+import { createTarget } from './__fixtures__/targets';
+import { ArenaMap } from './arena-map';
+import { Vec3 } from './combat-abilities';
+import { buildNavGrid, createPathPlanner, findPath, getNavGrid, hasClearPath } from './navigation';
+
+/** A 40 m arena with a 20 m wall across the middle, leaving gaps at both ends. */
+const walledMap: ArenaMap = {
+  ...DEFAULT_ARENA_MAP,
+  halfExtent: 20,
+  obstacles: [{ kind: 'WALL', center: [0, 0], size: [20, 3, 1] }],
+};
+
+const NORTH: Vec3 = [0, 1.6, -8];
+const SOUTH: Vec3 = [0, 1.6, 8];
+
+const enemyAt = (position: Vec3) => createTarget({ position, state: EnemyAIState.ALERT });
+
+describe('navigation grid', () => {
+  it('blocks cells an enemy would not fit in', () => {
+    expect(getNavGrid(DEFAULT_ARENA_MAP).walkable.every(Boolean)).toBe(true);
+    expect(getNavGrid(DEFAULT_ARENA_MAP)).toBe(getNavGrid(DEFAULT_ARENA_MAP));
+
+    const grid = buildNavGrid(walledMap);
+    expect(grid.walkable.filter((walkable) => !walkable).length).toBeGreaterThan(0);
+    expect(hasClearPath(grid, NORTH, SOUTH)).toBe(false);
+    expect(hasClearPath(grid, [-15, 1.6, -8], [-15, 1.6, 8])).toBe(true);
+  });
+
+  it('routes around cover through corners in view of each other', () => {
+    const grid = buildNavGrid(walledMap);
+    const path = findPath(grid, NORTH, SOUTH) ?? [];
+    expect(path[path.length - 1]).toEqual(SOUTH);
+    expect(path.some(([x]) => Math.abs(x) > 10)).toBe(true);
+
+    const legs = [NORTH, ...path];
+    legs.slice(1).forEach((corner, index) => expect(hasClearPath(grid, legs[index], corner)).toBe(true));
+  });
+
+  it('gives up when the goal is sealed off', () => {
+    const sealed: ArenaMap = { ...walledMap, obstacles: [{ kind: 'WALL', center: [0, 0], size: [44, 3, 1] }] };
+    expect(findPath(buildNavGrid(sealed), NORTH, SOUTH)).toBeNull();
+  });
+});
+
+describe('path planner', () => {
+  it('heads straight for goals in plain view', () => {
+    const steering = createPathPlanner(getNavGrid(DEFAULT_ARENA_MAP), 0).steer(enemyAt(NORTH), SOUTH);
+    expect(steering).toEqual({ direction: [0, 0, 1], route: null, direct: true });
+  });
+
+  it('keeps a route until its goal drifts and the replan interval passes', () => {
+    const grid = getNavGrid(walledMap);
+    const first = createPathPlanner(grid, 1000).steer(enemyAt(NORTH), SOUTH);
+    expect(first.direct).toBe(false);
+    expect(first.route?.plannedAt).toBe(1000);
+
+    const moved: Vec3 = [4, 1.6, 12];
+    const enemy = { ...enemyAt(NORTH), route: first.route };
+    expect(createPathPlanner(grid, 1100).steer(enemy, moved).route?.plannedAt).toBe(1000);
+    expect(createPathPlanner(grid, 1000 + PATH_REPLAN_INTERVAL_MS).steer(enemy, moved).route?.goal).toEqual(moved);
+  });
+
+  it('caps the searches run in one step', () => {
+    const planner = createPathPlanner(getNavGrid(walledMap), 0, 1);
+    expect(planner.steer(enemyAt(NORTH), SOUTH).route).not.toBeNull();
+    const starved = planner.steer(enemyAt([2, 1.6, -8]), SOUTH);
+    expect(starved.route).toBeNull();
+    expect(planner.searchesLeft).toBe(0);
+  });
+});
@@ -0,0 +1,276 @@
+import {
+  ENEMY_COLLISION_RADIUS,
+  NAV_CELL_SIZE,
+  PATH_GOAL_DRIFT,
+  PATH_REPLAN_INTERVAL_MS,
+  PATH_SEARCHES_PER_STEP,
+  WAYPOINT_REACHED_RADIUS,
+} from '../config/gameConfig';
+import { EnemyRoute, Target } from '../types';
+import { constrainToArena } from './arena-collision';
+import { ArenaMap } from './arena-map';
+import { Vec3 } from './combat-abilities';
+import { horizontalDirection } from './vector-math';
+
+/** Where on the arena floor an enemy fits, as a square grid of cells. */
+export interface NavGrid {
+  cellSize: number;
+  halfExtent: number;
+  /** Cells per side. */
+  columns: number;
+  /** Row-major along z, then x. */
+  walkable: boolean[];
+}
+
+/** Which way to move this step, and the route to keep for the next one. */
+export interface Steering {
+  direction: Vec3;
+  route: EnemyRoute | null;
+  /** Nothing stands between the enemy and its goal. */
+  direct: boolean;
+}
+
+const cellCenter = (grid: NavGrid, cell: number): Vec3 => [
+  -grid.halfExtent + ((cell % grid.columns) + 0.5) * grid.cellSize,
+  0,
+  -grid.halfExtent + (Math.floor(cell / grid.columns) + 0.5) * grid.cellSize,
+];
+
+const cellAt = (grid: NavGrid, x: number, z: number) => {
+  const index = (value: number) =>
+    Math.min(grid.columns - 1, Math.max(0, Math.floor((value + grid.halfExtent) / grid.cellSize)));
+  return index(z) * grid.columns + index(x);
+};
+
+const horizontalGap = (a: Vec3, b: Vec3) => Math.hypot(a[0] - b[0], a[2] - b[2]);
+
+/** A cell is walkable when an enemy standing at its centre would not be pushed anywhere. */
+export const buildNavGrid = (map: ArenaMap, cellSize = NAV_CELL_SIZE, clearance = ENEMY_COLLISION_RADIUS): NavGrid => {
+  const columns = Math.max(1, Math.ceil((map.halfExtent * 2) / cellSize));
+  const grid: NavGrid = { cellSize, halfExtent: map.halfExtent, columns, walkable: [] };
+  grid.walkable = Array.from({ length: columns * columns }, (_, cell) => {
+    const center = cellCenter(grid, cell);
+    const [x, , z] = constrainToArena(map, center, clearance);
+    return x === center[0] && z === center[2];
+  });
+  return grid;
+};
+
+const gridCache = new WeakMap<ArenaMap, NavGrid>();
+
+/** The map's grid, built on first use; maps are immutable, so it never goes stale. */
+export const getNavGrid = (map: ArenaMap) => {
+  let grid = gridCache.get(map);
+  if (!grid) {
+    grid = buildNavGrid(map);
+    gridCache.set(map, grid);
+  }
+  return grid;
+};
+
+/**
+ * Whether an enemy can move in a straight line from `from` to `to`. The end
+ * cells are not checked, since bodies resting against cover sit in blocked cells.
+ */
+export const hasClearPath = (grid: NavGrid, from: Vec3, to: Vec3) => {
+  const startCell = cellAt(grid, from[0], from[2]);
+  const goalCell = cellAt(grid, to[0], to[2]);
+  const samples = Math.ceil(horizontalGap(from, to) / (grid.cellSize / 2));
+  for (let sample = 1; sample < samples; sample += 1) {
+    const t = sample / samples;
+    const cell = cellAt(grid, from[0] + (to[0] - from[0]) * t, from[2] + (to[2] - from[2]) * t);
+    if (cell !== startCell && cell !== goalCell && !grid.walkable[cell]) return false;
+  }
+  return true;
+};
+
+const NEAREST_WALKABLE_SEARCH = 3;
+
+const nearestWalkable = (grid: NavGrid, cell: number) => {
+  if (grid.walkable[cell]) return cell;
+  const column = cell % grid.columns;
+  const row = Math.floor(cell / grid.columns);
+  for (let ring = 1; ring <= NEAREST_WALKABLE_SEARCH; ring += 1) {
+    for (let dz = -ring; dz <= ring; dz += 1) {
+      for (let dx = -ring; dx <= ring; dx += 1) {
+        if (Math.max(Math.abs(dx), Math.abs(dz)) !== ring) continue;
+        const x = column + dx;
+        const z = row + dz;
+        if (x < 0 || z < 0 || x >= grid.columns || z >= grid.columns) continue;
+        if (grid.walkable[z * grid.columns + x]) return z * grid.columns + x;
+      }
+    }
+  }
+  return null;
+};
+
+const NEIGHBOURS: readonly [number, number, number][] = [
+  [1, 0, 1],
+  [-1, 0, 1],
+  [0, 1, 1],
+  [0, -1, 1],
+  [1, 1, Math.SQRT2],
+  [1, -1, Math.SQRT2],
+  [-1, 1, Math.SQRT2],
+  [-1, -1, Math.SQRT2],
+];
+
+/** Octile distance in cells, exact for 8-way movement on an empty grid. */
+const octile = (grid: NavGrid, a: number, b: number) => {
+  const dx = Math.abs((a % grid.columns) - (b % grid.columns));
+  const dz = Math.abs(Math.floor(a / grid.columns) - Math.floor(b / grid.columns));
+  return Math.max(dx, dz) + (Math.SQRT2 - 1) * Math.min(dx, dz);
+};
+
+/** A* over the grid with 8-way moves; diagonals may not cut blocked corners. Returns cells from start to goal. */
+const searchCells = (grid: NavGrid, start: number, goal: number): number[] | null => {
+  const { columns, walkable } = grid;
+  const cost = new Float64Array(walkable.length).fill(Number.POSITIVE_INFINITY);
+  const cameFrom = new Int32Array(walkable.length).fill(-1);
+  const closed = new Uint8Array(walkable.length);
+  // Binary min-heap of [estimated total, cell].
+  const open: [number, number][] = [];
+  const push = (entry: [number, number]) => {
+    open.push(entry);
+    let child = open.length - 1;
+    while (child > 0) {
+      const parent = (child - 1) >> 1;
+      if (open[parent][0] <= open[child][0]) break;
+      [open[parent], open[child]] = [open[child], open[parent]];
+      child = parent;
+    }
+  };
+  const pop = () => {
+    const top = open[0];
+    const last = open.pop() as [number, number];
+    if (open.length > 0) {
+      open[0] = last;
+      let parent = 0;
+      for (;;) {
+        const left = parent * 2 + 1;
+        const right = left + 1;
+        let smallest = parent;
+        if (left < open.length && open[left][0] < open[smallest][0]) smallest = left;
+        if (right < open.length && open[right][0] < open[smallest][0]) smallest = right;
+        if (smallest === parent) break;
+        [open[parent], open[smallest]] = [open[smallest], open[parent]];
+        parent = smallest;
+      }
+    }
+    return top;
+  };
+
+  cost[start] = 0;
+  push([octile(grid, start, goal), start]);
+  while (open.length > 0) {
+    const [, cell] = pop();
+    if (cell === goal) {
+      const cells = [goal];
+      while (cells[0] !== start) cells.unshift(cameFrom[cells[0]]);
+      return cells;
+    }
+    if (closed[cell]) continue;
+    closed[cell] = 1;
+
+    const column = cell % columns;
+    const row = Math.floor(cell / columns);
+    NEIGHBOURS.forEach(([dx, dz, step]) => {
+      const x = column + dx;
+      const z = row + dz;
+      if (x < 0 || z < 0 || x >= columns || z >= columns) return;
+      const next = z * columns + x;
+      if (!walkable[next] || closed[next]) return;
+      if (dx !== 0 && dz !== 0 && (!walkable[row * columns + x] || !walkable[z * columns + column])) return;
+      const nextCost = cost[cell] + step;
+      if (nextCost >= cost[next]) return;
+      cost[next] = nextCost;
+      cameFrom[next] = cell;
+      push([nextCost + octile(grid, next, goal), next]);
+    });
+  }
+  return null;
+};
+
+/**
+ * Corners to pass on the way from `from` to `to`, ending at `to`, or null when
+ * the goal cannot be reached. Cells in view of each other are merged, so the
+ * route only turns where cover forces it to.
+ */
+export const findPath = (grid: NavGrid, from: Vec3, to: Vec3): Vec3[] | null => {
+  const start = nearestWalkable(grid, cellAt(grid, from[0], from[2]));
+  const goal = nearestWalkable(grid, cellAt(grid, to[0], to[2]));
+  if (start === null || goal === null) return null;
+  const cells = searchCells(grid, start, goal);
+  if (!cells) return null;
+
+  const points: Vec3[] = [
+    ...cells.slice(1, -1).map((cell): Vec3 => {
+      const [x, , z] = cellCenter(grid, cell);
+      return [x, to[1], z];
+    }),
+    to,
+  ];
+  const corners: Vec3[] = [];
+  let anchor = from;
+  let index = 0;
+  while (index < points.length) {
+    let furthest = index;
+    while (furthest + 1 < points.length && hasClearPath(grid, anchor, points[furthest + 1])) furthest += 1;
+    corners.push(points[furthest]);
+    anchor = points[furthest];
+    index = furthest + 1;
+  }
+  return corners;
+};
+
+/** Drops corners the enemy has reached, or can already skip past. */
+const advanceRoute = (grid: NavGrid, route: EnemyRoute, position: Vec3): EnemyRoute => {
+  let skipped = 0;
+  const { waypoints } = route;
+  while (
+    skipped < waypoints.length &&
+    (horizontalGap(position, waypoints[skipped]) <= WAYPOINT_REACHED_RADIUS ||
+      (skipped + 1 < waypoints.length && hasClearPath(grid, position, waypoints[skipped + 1])))
+  ) {
+    skipped += 1;
+  }
+  return skipped === 0 ? route : { ...route, waypoints: waypoints.slice(skipped) };
+};
+
+/**
+ * Steers enemies for one simulation step. Enemies with a clear line head
+ * straight for their goal; the rest follow a cached route, which is searched
+ * again only once its goal has drifted and the enemy's replan interval has
+ * passed. At most `searches` A* runs happen per planner, so a crowd losing
+ * sight of the player at once spreads its searches over several steps.
+ */
+export const createPathPlanner = (grid: NavGrid, timeMs: number, searches = PATH_SEARCHES_PER_STEP) => {
+  let searchesLeft = searches;
+
+  return {
+    steer(enemy: Target, goal: Vec3): Steering {
+      const { position } = enemy;
+      if (hasClearPath(grid, position, goal)) {
+        return { direction: horizontalDirection(position, goal), route: null, direct: true };
+      }
+
+      let route = enemy.route;
+      const isStale = !route || route.waypoints.length === 0 || horizontalGap(route.goal, goal) > PATH_GOAL_DRIFT;
+      const isDue = !route || timeMs - route.plannedAt >= PATH_REPLAN_INTERVAL_MS;
+      if (isStale && isDue && searchesLeft > 0) {
+        searchesLeft -= 1;
+        route = { goal, waypoints: findPath(grid, position, goal) ?? [], plannedAt: timeMs };
+      }
+      if (route) route = advanceRoute(grid, route, position);
+
+      // Without a usable route, push straight on and let collisions slide the enemy along the cover.
+      const next = route?.waypoints[0] ?? goal;
+      return { direction: horizontalDirection(position, next), route, direct: false };
+    },
+    get searchesLeft() {
+      return searchesLeft;
+    },
+  };
+};
+
+export type PathPlanner = ReturnType<typeof createPathPlanner>;
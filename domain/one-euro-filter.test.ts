@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { COMBAT_POSES, translatePose } from './__fixtures__/hand-poses';
+import { createLandmarkFilter, filterOneEuro, OneEuroParams } from './one-euro-filter';
+
+const params: OneEuroParams = { minCutoff: 1.5, beta: 8, derivativeCutoff: 1 };
+const FRAME_S = 1 / 30;
+
+const run = (values: number[], settings = params) => {
+  let state = null as ReturnType<typeof filterOneEuro> | null;
+  return values.map((value) => {
+    state = filterOneEuro(state, value, FRAME_S, settings);
+    return state.value;
+  });
+};
+
+describe('filterOneEuro', () => {
+  it('passes the first sample through', () => {
+    expect(run([0.42])).toEqual([0.42]);
+  });
+
+  it('damps jitter around a still value', () => {
+    const jitter = Array.from({ length: 30 }, (_, index) => 0.5 + (index % 2 ? 0.01 : -0.01));
+    const filtered = run(jitter).slice(10);
+    const spread = Math.max(...filtered) - Math.min(...filtered);
+    expect(spread).toBeLessThan(0.01);
+  });
+
+  it('follows fast moves more closely as beta grows', () => {
+    const step = [0, ...Array.from({ length: 5 }, () => 0.3)];
+    const sluggish = run(step, { ...params, beta: 0 }).at(-1) ?? 0;
+    const responsive = run(step, { ...params, beta: 30 }).at(-1) ?? 0;
+    expect(responsive).toBeGreaterThan(sluggish);
+    expect(responsive).toBeLessThanOrEqual(0.3);
+  });
+});
+
+describe('createLandmarkFilter', () => {
+  it('starts over after a reset or when time runs backwards', () => {
+    const filter = createLandmarkFilter(() => params);
+    filter.filter(COMBAT_POSES.aim, 0);
+    const moved = translatePose(COMBAT_POSES.aim, 0.2, 0);
+
+    expect(filter.filter(moved, 33)[0].x).toBeLessThan(moved[0].x);
+    expect(filter.filter(moved, 0)[0].x).toBeCloseTo(moved[0].x);
+
+    filter.reset();
+    expect(filter.filter(COMBAT_POSES.aim, 66)[0].x).toBeCloseTo(COMBAT_POSES.aim[0].x);
+  });
+});
@@ -0,0 +1,84 @@
+import { HAND_LANDMARK_COUNT, HandLandmark, HandLandmarks } from './gesture-classifier';
+
+export interface OneEuroParams {
+  /** Cutoff in Hz applied when the signal is still; lower removes more jitter. */
+  minCutoff: number;
+  /** How fast the cutoff rises with speed; higher reduces lag on quick moves. */
+  beta: number;
+  /** Cutoff in Hz for the speed estimate itself. */
+  derivativeCutoff: number;
+}
+
+interface ScalarState {
+  value: number;
+  derivative: number;
+}
+
+const smoothingFactor = (cutoff: number, dtSeconds: number) => {
+  const tau = 1 / (2 * Math.PI * Math.max(cutoff, 1e-3));
+  return 1 / (1 + tau / dtSeconds);
+};
+
+/**
+ * One-Euro step for a single value (Casiez et al., 2012): heavy smoothing while
+ * the value holds still, little smoothing while it moves fast.
+ */
+export const filterOneEuro = (
+  previous: ScalarState | null,
+  value: number,
+  dtSeconds: number,
+  params: OneEuroParams,
+): ScalarState => {
+  if (!previous || dtSeconds <= 0) return { value, derivative: 0 };
+
+  const rawDerivative = (value - previous.value) / dtSeconds;
+  const derivativeAlpha = smoothingFactor(params.derivativeCutoff, dtSeconds);
+  const derivative = previous.derivative + derivativeAlpha * (rawDerivative - previous.derivative);
+  const cutoff = params.minCutoff + params.beta * Math.abs(derivative);
+  const alpha = smoothingFactor(cutoff, dtSeconds);
+
+  return { value: previous.value + alpha * (value - previous.value), derivative };
+};
+
+export interface LandmarkFilter {
+  filter: (landmarks: HandLandmarks, timestampMs: number) => HandLandmarks;
+  reset: () => void;
+}
+
+/**
+ * Filters every coordinate of one hand. Call `reset` when the hand leaves the
+ * frame so a re-entering hand does not glide in from its old position.
+ */
+export const createLandmarkFilter = (getParams: () => OneEuroParams): LandmarkFilter => {
+  let states: ScalarState[] | null = null;
+  let lastTimestamp: number | null = null;
+
+  const reset = () => {
+    states = null;
+    lastTimestamp = null;
+  };
+
+  const filter = (landmarks: HandLandmarks, timestampMs: number): HandLandmarks => {
+    // Timestamps running backwards mean a looped replay: start over instead of extrapolating.
+    if (lastTimestamp !== null && timestampMs < lastTimestamp) reset();
+    const dtSeconds = lastTimestamp === null ? 0 : (timestampMs - lastTimestamp) / 1000;
+    const params = getParams();
+    const previous = states;
+    const next: ScalarState[] = [];
+
+    const filtered = landmarks.slice(0, HAND_LANDMARK_COUNT).map((landmark, index): HandLandmark => {
+      const base = index * 3;
+      const x = filterOneEuro(previous?.[base] ?? null, landmark.x, dtSeconds, params);
+      const y = filterOneEuro(previous?.[base + 1] ?? null, landmark.y, dtSeconds, params);
+      const z = filterOneEuro(previous?.[base + 2] ?? null, landmark.z ?? 0, dtSeconds, params);
+      next.push(x, y, z);
+      return { x: x.value, y: y.value, z: z.value };
+    });
+
+    states = next;
+    lastTimestamp = timestampMs;
+    return filtered;
+  };
+
+  return { filter, reset };
+};
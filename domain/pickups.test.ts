@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { PICKUP_COLLECT_RADIUS, PICKUP_LIFETIME_MS } from '../config/gameConfig';
+import { createPickup, isPickupExpired, isPickupInReach, pickPickupKind } from './pickups';
+import { createSeededRng } from './rng';
+
+describe('pickups', () => {
+  it('draws every kind, favouring the common ones', () => {
+    const rng = createSeededRng(3);
+    const counts: Record<string, number> = {};
+    for (let draw = 0; draw < 1000; draw += 1) {
+      const kind = pickPickupKind(rng);
+      counts[kind] = (counts[kind] ?? 0) + 1;
+    }
+    expect(Object.keys(counts).sort()).toEqual(['AMMO', 'DAMAGE_BOOST', 'MEDKIT', 'SHIELD']);
+    expect(counts.MEDKIT).toBeGreaterThan(counts.SHIELD);
+  });
+
+  it('is collected only by a player standing over it', () => {
+    const pickup = createPickup('pickup-1', 'AMMO', [0, 0, 0], 0);
+    expect(isPickupInReach(pickup, [PICKUP_COLLECT_RADIUS - 0.1, 1.6, 0], 0)).toBe(true);
+    expect(isPickupInReach(pickup, [PICKUP_COLLECT_RADIUS + 0.1, 1.6, 0], 0)).toBe(false);
+    // Right above it, on top of a platform.
+    expect(isPickupInReach(pickup, [0, 4.6, 0], 3)).toBe(false);
+  });
+
+  it('disappears once its lifetime runs out', () => {
+    const pickup = createPickup('pickup-1', 'SHIELD', [0, 0, 0], 1000);
+    expect(isPickupExpired(pickup, 1000 + PICKUP_LIFETIME_MS - 1)).toBe(false);
+    expect(isPickupExpired(pickup, 1000 + PICKUP_LIFETIME_MS)).toBe(true);
+  });
+});
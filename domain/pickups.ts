@@ -0,0 +1,43 @@
+import { PICKUP_COLLECT_RADIUS, PICKUP_LIFETIME_MS, PICKUP_PROFILES, STEP_HEIGHT } from '../config/gameConfig';
+import { PickupKind, PowerUpKind } from '../types';
+import { Vec3 } from './combat-abilities';
+import { Rng } from './rng';
+
+/** Something lying on the arena floor for the player to walk over. */
+export interface Pickup {
+  id: string;
+  kind: PickupKind;
+  /** On the floor or whatever surface it landed on. */
+  position: Vec3;
+  /** Simulation time it appeared. */
+  spawnedAt: number;
+}
+
+const PICKUP_KINDS = Object.keys(PICKUP_PROFILES) as PickupKind[];
+
+/** Draws a kind with odds proportional to each profile's weight. */
+export const pickPickupKind = (rng: Rng): PickupKind => {
+  const total = PICKUP_KINDS.reduce((sum, kind) => sum + PICKUP_PROFILES[kind].weight, 0);
+  let roll = rng() * total;
+  for (const kind of PICKUP_KINDS) {
+    roll -= PICKUP_PROFILES[kind].weight;
+    if (roll < 0) return kind;
+  }
+  return 'MEDKIT';
+};
+
+export const createPickup = (id: string, kind: PickupKind, position: Vec3, spawnedAt: number): Pickup => ({
+  id,
+  kind,
+  position,
+  spawnedAt,
+});
+
+export const isPowerUpKind = (kind: PickupKind): kind is PowerUpKind => kind === 'DAMAGE_BOOST' || kind === 'SHIELD';
+
+export const isPickupExpired = (pickup: Pickup, timeMs: number) => timeMs - pickup.spawnedAt >= PICKUP_LIFETIME_MS;
+
+/** Whether a player at `player`, with their feet at height `feet`, stands over the pickup. */
+export const isPickupInReach = (pickup: Pickup, player: Vec3, feet: number) =>
+  Math.hypot(pickup.position[0] - player[0], pickup.position[2] - player[2]) <= PICKUP_COLLECT_RADIUS &&
+  Math.abs(pickup.position[1] - feet) <= STEP_HEIGHT;
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { PLAYER_CAPSULE_RADIUS, PROJECTILE_LIFETIME_MS } from '../config/gameConfig';
+import { Vec3 } from './combat-abilities';
+import {
+  createProjectile,
+  isProjectileExpired,
+  playerCapsule,
+  projectileHitsCapsule,
+  projectilePositionAt,
+  segmentDistance,
+} from './projectiles';
+
+const EYE: Vec3 = [0, 1.6, 0];
+
+describe('segmentDistance', () => {
+  it('measures crossing, parallel and degenerate segments', () => {
+    expect(segmentDistance([-1, 0, 0], [1, 0, 0], [0, -1, 1], [0, 1, 1])).toBeCloseTo(1);
+    expect(segmentDistance([0, 0, 0], [1, 0, 0], [0, 2, 0], [1, 2, 0])).toBeCloseTo(2);
+    expect(segmentDistance([3, 0, 0], [3, 0, 0], [0, 0, 0], [1, 0, 0])).toBeCloseTo(2);
+  });
+});
+
+describe('enemy projectiles', () => {
+  it('travel in a straight line at their speed', () => {
+    const round = createProjectile('p', 'enemy', [0, 1.6, -20], [0, 1.6, 0], 20, 10, 1000);
+    expect(projectilePositionAt(round, 1500)).toEqual([0, 1.6, -10]);
+  });
+
+  it('hit the capsule they are aimed at, even across a long step', () => {
+    const round = createProjectile('p', 'enemy', [0, 1.2, -30], [0, 1.2, 0], 60, 10, 0);
+    const capsule = playerCapsule(EYE);
+    expect(projectileHitsCapsule(round, capsule, 0, 100)).toBe(false);
+    // 30 m in one 1 s step: the round passes straight through the player.
+    expect(projectileHitsCapsule(round, capsule, 0, 1000)).toBe(true);
+  });
+
+  it('miss once the player has stepped aside', () => {
+    const round = createProjectile('p', 'enemy', [0, 1.2, -10], [0, 1.2, 0], 20, 10, 0);
+    const moved = playerCapsule([PLAYER_CAPSULE_RADIUS + 0.5, 1.6, 0]);
+    expect(projectileHitsCapsule(round, moved, 0, 1000)).toBe(false);
+  });
+
+  it('expire after their lifetime or below the floor', () => {
+    const level = createProjectile('p', 'enemy', [0, 1.6, 0], [0, 1.6, -10], 20, 10, 0);
+    expect(isProjectileExpired(level, PROJECTILE_LIFETIME_MS - 1)).toBe(false);
+    expect(isProjectileExpired(level, PROJECTILE_LIFETIME_MS)).toBe(true);
+
+    const falling = createProjectile('p', 'enemy', [0, 1.6, 0], [0, 0, -1], 20, 10, 0);
+    expect(isProjectileExpired(falling, 500)).toBe(true);
+  });
+});
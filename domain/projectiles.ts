@@ -0,0 +1,114 @@
+import { PLAYER_CAPSULE_RADIUS, PROJECTILE_LIFETIME_MS, PROJECTILE_RADIUS } from '../config/gameConfig';
+import { Vec3 } from './combat-abilities';
+import { add, normalize, scale } from './vector-math';
+
+/**
+ * A round fired by an enemy. It flies in a straight line at constant speed, so
+ * its position at any time follows from where and when it was fired.
+ */
+export interface EnemyProjectile {
+  id: string;
+  ownerId: string;
+  origin: Vec3;
+  /** Metres per second. */
+  velocity: Vec3;
+  /** Simulation time of the shot. */
+  firedAt: number;
+  damage: number;
+}
+
+/** The player's body, a vertical capsule standing on the floor under the camera. */
+export interface Capsule {
+  base: Vec3;
+  top: Vec3;
+  radius: number;
+}
+
+export const createProjectile = (
+  id: string,
+  ownerId: string,
+  origin: Vec3,
+  target: Vec3,
+  speed: number,
+  damage: number,
+  firedAt: number,
+): EnemyProjectile => ({
+  id,
+  ownerId,
+  origin,
+  velocity: scale(normalize([target[0] - origin[0], target[1] - origin[1], target[2] - origin[2]]), speed),
+  firedAt,
+  damage,
+});
+
+export const projectilePositionAt = (projectile: EnemyProjectile, timeMs: number): Vec3 =>
+  add(projectile.origin, scale(projectile.velocity, (timeMs - projectile.firedAt) / 1000));
+
+export const isProjectileExpired = (projectile: EnemyProjectile, timeMs: number) =>
+  timeMs - projectile.firedAt >= PROJECTILE_LIFETIME_MS || projectilePositionAt(projectile, timeMs)[1] < 0;
+
+/** Capsule for a player whose eyes are at `eye`; the axis runs from their feet to head, inset by the radius. */
+export const playerCapsule = (eye: Vec3, feet = 0): Capsule => ({
+  base: [eye[0], feet + PLAYER_CAPSULE_RADIUS, eye[2]],
+  top: [eye[0], eye[1] + 0.1 - PLAYER_CAPSULE_RADIUS, eye[2]],
+  radius: PLAYER_CAPSULE_RADIUS,
+});
+
+const sub = (a: Vec3, b: Vec3): Vec3 => [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+const dot = (a: Vec3, b: Vec3) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+/** Shortest distance between segments p0→p1 and q0→q1 (Ericson, Real-Time Collision Detection §5.1.9). */
+export const segmentDistance = (p0: Vec3, p1: Vec3, q0: Vec3, q1: Vec3) => {
+  const d1 = sub(p1, p0);
+  const d2 = sub(q1, q0);
+  const r = sub(p0, q0);
+  const a = dot(d1, d1);
+  const e = dot(d2, d2);
+  const f = dot(d2, r);
+  const EPSILON = 1e-9;
+
+  let s = 0;
+  let t = 0;
+  if (a <= EPSILON && e <= EPSILON) {
+    return Math.sqrt(dot(r, r));
+  }
+  if (a <= EPSILON) {
+    t = clamp01(f / e);
+  } else {
+    const c = dot(d1, r);
+    if (e <= EPSILON) {
+      s = clamp01(-c / a);
+    } else {
+      const b = dot(d1, d2);
+      const denominator = a * e - b * b;
+      s = denominator > EPSILON ? clamp01((b * f - c * e) / denominator) : 0;
+      t = (b * s + f) / e;
+      if (t < 0) {
+        t = 0;
+        s = clamp01(-c / a);
+      } else if (t > 1) {
+        t = 1;
+        s = clamp01((b - c) / a);
+      }
+    }
+  }
+
+  const closestP = add(p0, scale(d1, s));
+  const closestQ = add(q0, scale(d2, t));
+  const gap = sub(closestP, closestQ);
+  return Math.sqrt(dot(gap, gap));
+};
+
+/**
+ * Whether the projectile touched the capsule between `fromMs` and `toMs`.
+ * The whole path of the step is tested, so fast rounds cannot tunnel through.
+ */
+export const projectileHitsCapsule = (projectile: EnemyProjectile, capsule: Capsule, fromMs: number, toMs: number) =>
+  segmentDistance(
+    projectilePositionAt(projectile, Math.max(fromMs, projectile.firedAt)),
+    projectilePositionAt(projectile, toMs),
+    capsule.base,
+    capsule.top,
+  ) <=
+  capsule.radius + PROJECTILE_RADIUS;
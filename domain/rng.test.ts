@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { createSeededRng } from './rng';
+
+const take = (seed: number, count: number) => {
+  const rng = createSeededRng(seed);
+  return Array.from({ length: count }, () => rng());
+};
+
+describe('createSeededRng', () => {
+  it('repeats the same sequence for the same seed', () => {
+    expect(take(42, 20)).toEqual(take(42, 20));
+    expect(take(42, 5)).not.toEqual(take(43, 5));
+  });
+
+  it('stays within [0, 1) and spreads across the range', () => {
+    const values = take(7, 2000);
+    expect(values.every((value) => value >= 0 && value < 1)).toBe(true);
+    const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+    expect(mean).toBeGreaterThan(0.45);
+    expect(mean).toBeLessThan(0.55);
+  });
+});
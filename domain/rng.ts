@@ -0,0 +1,17 @@
+/** Uniform random numbers in [0, 1), like `Math.random`. */
+export type Rng = () => number;
+
+/**
+ * Mulberry32: a tiny seeded generator. The same seed always yields the same
+ * sequence, so a match can be replayed or asserted on in tests.
+ */
+export const createSeededRng = (seed: number): Rng => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
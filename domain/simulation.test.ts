@@ -0,0 +1,389 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  ABILITY_COOLDOWN_MS,
+  DEFAULT_HAND_STATE,
+  DEFAULT_TRACKER_CALIBRATION,
+  DIFFICULTY_PROFILES,
+  GRENADE_FUSE_MS,
+  PICKUP_PROFILES,
+  PICKUP_SPAWN_INTERVAL_MS,
+  SHIELD_DAMAGE_FACTOR,
+  WAVE_INTERMISSION_MS,
+  WAVE_TABLE,
+  WEAPON_PROFILES,
+} from '../config/gameConfig';
+import { DEFAULT_ARENA_MAP } from '../config/arenaMaps';
+import { CombatGesture, DifficultyLevel, EnemyAIState, HandState, MovementGesture, Target } from '../types';
+import { MOVEMENT_POSES } from './__fixtures__/hand-poses';
+import { createTarget } from './__fixtures__/targets';
+import { ArenaMap } from './arena-map';
+import { createGrenadeThrow, grenadePositionAt, Vec3 } from './combat-abilities';
+import { classifyMovementVector, movementGestureFromVector } from './gesture-classifier';
+import { keyboardMouseToHandState } from './input-state';
+import { createPickup } from './pickups';
+import { createSeededRng, Rng } from './rng';
+import {
+  AimedHit,
+  createWorld,
+  forwardFromYaw,
+  getAbilityCooldownRemaining,
+  getPowerUpRemaining,
+  SimulationEvent,
+  SimulationInput,
+  simulateStep,
+  World,
+} from './simulation';
+
+const input = (hand: Partial<HandState> = {}, aimedHit: AimedHit | null = null): SimulationInput => ({
+  hand: { ...DEFAULT_HAND_STATE, ...hand },
+  weapon: 'RIFLE',
+  canFire: true,
+  aimedHit,
+});
+
+const enemyAt = (id: string, position: Vec3) => createTarget({ id, position, state: EnemyAIState.PATROLLING });
+
+/** Runs `steps` fixed steps and collects every event with the simulation time it happened at. */
+const run = (world: World, rng: Rng, steps: number, dtSeconds: number, next: SimulationInput = input()) => {
+  const events: (SimulationEvent & { at: number })[] = [];
+  let current = world;
+  for (let step = 0; step < steps; step += 1) {
+    const result = simulateStep(current, next, dtSeconds, rng);
+    current = result.world;
+    events.push(...result.events.map((event) => ({ ...event, at: current.timeMs })));
+  }
+  return { world: current, events };
+};
+
+const arena = (difficulty: DifficultyLevel, enemies: Target[], seed = 1, map: ArenaMap = DEFAULT_ARENA_MAP) => {
+  const rng = createSeededRng(seed);
+  return { rng, world: { ...createWorld(difficulty, rng, map), enemies } };
+};
+
+/** The open arena cut in two by a wall 4.5 m ahead of the start. */
+const coveredArena: ArenaMap = {
+  ...DEFAULT_ARENA_MAP,
+  obstacles: [
+    { kind: 'WALL', center: [0, 2.5], size: [200, 3, 1] },
+    { kind: 'RAMP', center: [6, 7], size: [2, 1.5, 6], rises: '-z' },
+  ],
+};
+
+describe('simulateStep', () => {
+  it('is deterministic for a given seed', () => {
+    const play = (seed: number) => {
+      const rng = createSeededRng(seed);
+      const moving = input({ moveVector: { x: 0.3, y: 1, magnitude: 1 }, look: { yaw: 0.4, pitch: 0 } });
+      return run(createWorld('TACTICAL', rng), rng, 300, 1 / 30, moving);
+    };
+
+    expect(play(99)).toEqual(play(99));
+    expect(play(99).world.enemies).not.toEqual(play(100).world.enemies);
+  });
+
+  it('opens the match with a squad of three patrolling drones away from the player', () => {
+    const world = createWorld('CASUAL', createSeededRng(5));
+    expect(world.enemies).toHaveLength(3);
+    world.enemies.forEach((enemy) => {
+      expect(enemy.state).toBe(EnemyAIState.PATROLLING);
+      expect(Math.hypot(enemy.position[0] - world.player.position[0], enemy.position[2] - world.player.position[2]))
+        .toBeGreaterThan(25);
+    });
+  });
+
+  it('switches drone behaviour by distance to the player', () => {
+    const [x, y, z] = createWorld('CASUAL', createSeededRng(1)).player.position;
+    const { world, rng } = arena('CASUAL', [
+      enemyAt('close', [x, y, z - 5]),
+      enemyAt('mid', [x, y, z - 20]),
+      enemyAt('far', [x + 50, y, z - 50]),
+    ]);
+
+    const states = simulateStep(world, input(), 0.01, rng).world.enemies.map((enemy) => [enemy.id, enemy.state]);
+    expect(states).toEqual([
+      ['close', EnemyAIState.ATTACKING],
+      ['mid', EnemyAIState.ALERT],
+      ['far', EnemyAIState.PATROLLING],
+    ]);
+  });
+
+  it('has attacking drones fire once per attack cooldown, hurting only when the round arrives', () => {
+    const [x, y, z] = createWorld('CASUAL', createSeededRng(1)).player.position;
+    const { world, rng } = arena('CASUAL', [enemyAt('attacker', [x, y, z - 9])]);
+    const profile = DIFFICULTY_PROFILES.CASUAL;
+
+    const { events } = run(world, rng, 100, 0.05);
+    const fired = events.filter((event) => event.type === 'PROJECTILE_FIRED');
+    const damage = events.filter((event) => event.type === 'PLAYER_DAMAGED');
+    expect(fired.map((event) => event.at)).toEqual([2150, 4300]);
+    expect(damage).toHaveLength(2);
+    damage.forEach((event, index) => {
+      expect(event.at).toBeGreaterThan(fired[index].at);
+      expect(event.type === 'PLAYER_DAMAGED' && event.amount).toBe(profile.enemyDamage);
+    });
+  });
+
+  it('strafes toward the player\'s right while D is held', () => {
+    const { world, rng } = arena('CASUAL', []);
+    const holdingD = keyboardMouseToHandState({
+      forward: false,
+      backward: false,
+      left: false,
+      right: true,
+      turnLeft: false,
+      turnRight: false,
+      lookUp: false,
+      lookDown: false,
+      fire: false,
+      ironSight: false,
+      reload: false,
+      switchWeapon: false,
+      melee: false,
+      grenade: false,
+      pointer: null,
+    });
+    const { world: after } = run(world, rng, 10, 0.05, input(holdingD));
+
+    const [forwardX, , forwardZ] = forwardFromYaw(world.player.yaw);
+    const right = [-forwardZ, forwardX];
+    const movedX = after.player.position[0] - world.player.position[0];
+    const movedZ = after.player.position[2] - world.player.position[2];
+    expect(movedX * right[0] + movedZ * right[1]).toBeGreaterThan(1);
+  });
+
+  it('strafes the way a RIGHT or LEFT movement gesture points', () => {
+    const strafeFor = (pose: keyof typeof MOVEMENT_POSES) => {
+      const { world, rng } = arena('CASUAL', []);
+      const moveVector = classifyMovementVector(MOVEMENT_POSES[pose], DEFAULT_TRACKER_CALIBRATION);
+      const movement = movementGestureFromVector(moveVector);
+      const { world: after } = run(world, rng, 10, 0.05, input({ moveVector, movement }));
+      const [forwardX, , forwardZ] = forwardFromYaw(world.player.yaw);
+      return {
+        movement,
+        rightward:
+          (after.player.position[0] - world.player.position[0]) * -forwardZ +
+          (after.player.position[2] - world.player.position[2]) * forwardX,
+      };
+    };
+
+    const towardCenter = strafeFor('towardCenter');
+    expect(towardCenter.movement).toBe(MovementGesture.RIGHT);
+    expect(towardCenter.rightward).toBeGreaterThan(0.1);
+
+    const towardEdge = strafeFor('towardEdge');
+    expect(towardEdge.movement).toBe(MovementGesture.LEFT);
+    expect(towardEdge.rightward).toBeLessThan(-0.1);
+  });
+
+  it('lets a strafing player dodge incoming rounds', () => {
+    const [x, y, z] = createWorld('CASUAL', createSeededRng(1)).player.position;
+    const { world, rng } = arena('CASUAL', [enemyAt('attacker', [x, y, z - 9])]);
+    const { world: armed } = run(world, rng, 43, 0.05);
+    expect(armed.projectiles).toHaveLength(1);
+
+    const strafing = input({ moveVector: { x: 1, y: 0, magnitude: 1 } });
+    const { world: after, events } = run(armed, rng, 20, 0.05, strafing);
+    expect(events.filter((event) => event.type === 'PLAYER_DAMAGED')).toHaveLength(0);
+    expect(after.projectiles).toHaveLength(1);
+  });
+
+  it('stops enemy rounds at cover', () => {
+    const [x, y, z] = createWorld('CASUAL', createSeededRng(1)).player.position;
+    const { world, rng } = arena('CASUAL', [enemyAt('attacker', [x, y, z - 9])], 1, coveredArena);
+
+    // There is no way around, so the drone keeps firing into the wall.
+    const { world: after, events } = run(world, rng, 100, 0.05);
+    expect(events.filter((event) => event.type === 'PROJECTILE_FIRED')).toHaveLength(2);
+    expect(events.filter((event) => event.type === 'PLAYER_DAMAGED')).toHaveLength(0);
+    expect(after.projectiles).toHaveLength(0);
+    expect(after.enemies[0].route?.waypoints).toEqual([]);
+  });
+
+  it('stops the player at walls and lifts them up ramps', () => {
+    const { world, rng } = arena('CASUAL', [], 1, coveredArena);
+    const forward = input({ moveVector: { x: 0, y: 1, magnitude: 1 } });
+    const { world: blocked } = run(world, rng, 30, 0.05, forward);
+    expect(blocked.player.position[2]).toBeCloseTo(3.45);
+
+    const onRamp = { ...world, player: { ...world.player, position: [6, world.player.position[1], 10] as Vec3 } };
+    const { world: climbed } = run(onRamp, rng, 10, 0.05, forward);
+    expect(climbed.player.position[2]).toBeCloseTo(7);
+    expect(climbed.player.position[1]).toBeCloseTo(0.75 + world.player.position[1]);
+  });
+
+  it('sends the rest of the wave in bursts on the difficulty interval, up to the cap', () => {
+    const rng = createSeededRng(3);
+    const world = createWorld('CASUAL', rng);
+    const { spawnIntervalMs, maxEnemies } = DIFFICULTY_PROFILES.CASUAL;
+    const stepsPerBurst = spawnIntervalMs / 100;
+
+    expect(run(world, rng, stepsPerBurst - 1, 0.1).world.enemies).toHaveLength(3);
+    const reinforced = run(world, createSeededRng(3), stepsPerBurst, 0.1).world;
+    expect(reinforced.enemies).toHaveLength(maxEnemies);
+    expect(reinforced.director.queue).toHaveLength((WAVE_TABLE[0].enemies.DRONE ?? 0) - maxEnemies);
+  });
+
+  it('wears drones down with body shots and remembers the last hit', () => {
+    const [x, y, z] = createWorld('CASUAL', createSeededRng(1)).player.position;
+    const { world, rng } = arena('CASUAL', [enemyAt('drone', [x + 60, y, z - 60])]);
+    const aimed = { enemyId: 'drone', distance: 5, weakSpot: false };
+
+    const { world: after, events } = simulateStep(world, input({ combat: CombatGesture.FIRE }, aimed), 0.1, rng);
+    const drone = after.enemies.find((enemy) => enemy.id === 'drone');
+    expect(drone?.health).toBe(100 - WEAPON_PROFILES.RIFLE.damage);
+    expect(drone?.lastHit).toEqual({ at: after.timeMs, weakSpot: false });
+    expect(events.map((event) => event.type)).toEqual(['ENEMY_HIT', 'SHOT']);
+  });
+
+  it('scores kills from the aimed drone and clears the wave once everything is down', () => {
+    const [x, y, z] = createWorld('CASUAL', createSeededRng(1)).player.position;
+    const targets = Array.from({ length: 4 }, (_, index) => enemyAt(`drone-${index}`, [x + 60, y, z - 60 - index]));
+    const setup = arena('CASUAL', targets);
+    const { rng } = setup;
+    // Everything the wave had left to send is already out.
+    let world: World = { ...setup.world, director: { ...setup.world.director, queue: [] } };
+    const events: SimulationEvent[] = [];
+
+    // Two close-range hits on the eye finish a drone.
+    targets.forEach((target) => {
+      for (let shot = 0; shot < 2; shot += 1) {
+        const aimed = { enemyId: target.id, distance: 5, weakSpot: true };
+        const result = simulateStep(world, input({ combat: CombatGesture.FIRE }, aimed), 0.3, rng);
+        world = result.world;
+        events.push(...result.events);
+      }
+    });
+
+    const defeats = events.filter((event) => event.type === 'ENEMY_DEFEATED');
+    expect(events.filter((event) => event.type === 'SHOT')).toHaveLength(targets.length * 2);
+    expect(defeats).toHaveLength(targets.length);
+    expect(defeats.every((event) => event.type === 'ENEMY_DEFEATED' && event.hit.weakSpot)).toBe(true);
+    expect(world.kills).toBe(targets.length);
+    expect(world.enemies).toEqual([]);
+
+    const cleared = run(world, rng, 1, 0.1);
+    expect(cleared.events).toContainEqual(
+      expect.objectContaining({ type: 'WAVE_CLEARED', wave: 1, nextWave: 2, bossIncoming: false }),
+    );
+    expect(cleared.world.director.phase).toBe('INTERMISSION');
+
+    // No one arrives during the breather; the next wave opens with a burst.
+    const breather = run(cleared.world, rng, WAVE_INTERMISSION_MS / 100 - 1, 0.1);
+    expect(breather.world.enemies).toEqual([]);
+    const next = run(breather.world, rng, 1, 0.1);
+    expect(next.events).toContainEqual(expect.objectContaining({ type: 'WAVE_STARTED', wave: 2, boss: false }));
+    expect(next.world.enemies).toHaveLength(WAVE_TABLE[1].burstSize);
+  });
+
+  it('respects the weapon fire cooldown and the loaded round', () => {
+    const { world, rng } = arena('CASUAL', []);
+    const firing = run(world, rng, 10, 0.05, input({ combat: CombatGesture.FIRE }));
+    expect(firing.events.filter((event) => event.type === 'SHOT')).toHaveLength(2);
+
+    const dry = run(world, rng, 10, 0.05, { ...input({ combat: CombatGesture.FIRE }), canFire: false });
+    expect(dry.events.filter((event) => event.type === 'SHOT')).toHaveLength(0);
+  });
+
+  it('fires semi-automatic weapons once per pull of the trigger', () => {
+    const { world, rng } = arena('CASUAL', []);
+    const pull = { ...input({ combat: CombatGesture.FIRE }), weapon: 'SIDEARM' as const };
+    const held = run(world, rng, 40, 0.05, pull);
+    expect(held.events.filter((event) => event.type === 'SHOT')).toHaveLength(1);
+
+    const released = run(held.world, rng, 1, 0.05, { ...pull, hand: input().hand });
+    expect(released.world.triggerHeld).toBe(false);
+    const again = run(released.world, rng, 1, 0.05, pull);
+    expect(again.events.filter((event) => event.type === 'SHOT')).toHaveLength(1);
+  });
+
+  it('scales the player\'s hits while the damage boost lasts', () => {
+    const [x, y, z] = createWorld('CASUAL', createSeededRng(1)).player.position;
+    const { world, rng } = arena('CASUAL', [enemyAt('drone', [x, y, z - 5])]);
+    const aimed = { enemyId: 'drone', distance: 5, weakSpot: false };
+    const boosted = { ...world, powerUps: { DAMAGE_BOOST: 1000, SHIELD: 0 } };
+    const { events } = simulateStep(boosted, input({ combat: CombatGesture.FIRE }, aimed), 0.05, rng);
+    const hit = events.find((event) => event.type === 'ENEMY_HIT');
+    expect(hit?.type === 'ENEMY_HIT' && hit.hit.damage).toBe(WEAPON_PROFILES.RIFLE.damage * 1.5);
+  });
+
+  it('lets the shield soak most of the damage that reaches the player', () => {
+    const [x, y, z] = createWorld('CASUAL', createSeededRng(1)).player.position;
+    const { world, rng } = arena('CASUAL', [enemyAt('attacker', [x, y, z - 9])]);
+    const shielded = { ...world, powerUps: { DAMAGE_BOOST: 0, SHIELD: 60000 } };
+
+    const damage = run(shielded, rng, 100, 0.05).events.filter((event) => event.type === 'PLAYER_DAMAGED');
+    expect(damage).toHaveLength(2);
+    damage.forEach((event) => {
+      expect(event.type === 'PLAYER_DAMAGED' && event.amount).toBe(
+        Math.round(DIFFICULTY_PROFILES.CASUAL.enemyDamage * SHIELD_DAMAGE_FACTOR),
+      );
+    });
+  });
+
+  it('runs collected power-ups on the simulation clock, so a pause does not use them up', () => {
+    vi.useFakeTimers();
+    const { world, rng } = arena('EASY', []);
+    const [x, , z] = world.player.position;
+    const shield = createPickup('pickup-test', 'SHIELD', [x + 0.5, 0, z], 0);
+    const collected = run({ ...world, pickups: [shield] }, rng, 1, 0.05).world;
+    const duration = PICKUP_PROFILES.SHIELD.durationMs ?? 0;
+    expect(getPowerUpRemaining(collected, 'SHIELD')).toBe(duration);
+
+    // A paused match takes no steps, however long the wall clock runs.
+    vi.advanceTimersByTime(duration * 2);
+    expect(getPowerUpRemaining(collected, 'SHIELD')).toBe(duration);
+
+    const played = run(collected, rng, 10, 0.5).world;
+    expect(getPowerUpRemaining(played, 'SHIELD')).toBe(duration - 5000);
+    expect(getPowerUpRemaining(run(played, rng, 10, 0.5).world, 'SHIELD')).toBe(0);
+    vi.useRealTimers();
+  });
+
+  it('collects pickups the player walks over and scatters new ones on a timer', () => {
+    const { world, rng } = arena('EASY', []);
+    const [x, , z] = world.player.position;
+    const medkit = createPickup('pickup-test', 'MEDKIT', [x + 0.5, 0, z], 0);
+    const { world: after, events } = run({ ...world, pickups: [medkit] }, rng, 1, 0.05);
+    expect(events).toContainEqual(expect.objectContaining({ type: 'PICKUP_COLLECTED', kind: 'MEDKIT' }));
+    expect(after.pickups).toEqual([]);
+
+    const spawned = run(after, rng, Math.ceil(PICKUP_SPAWN_INTERVAL_MS / 500), 0.5).world;
+    expect(spawned.pickups).toHaveLength(1);
+    expect(Math.hypot(spawned.pickups[0].position[0] - x, spawned.pickups[0].position[2] - z)).toBeLessThanOrEqual(18);
+  });
+
+  it('counts melee and grenade cooldowns on the simulation clock', () => {
+    const { world, rng } = arena('EASY', []);
+    const grenade = input({ combat: CombatGesture.GRENADE });
+    const throwEvent = expect.objectContaining({ type: 'GRENADE_THROWN' });
+    const thrown = simulateStep(world, grenade, 0.05, rng).world;
+    expect(getAbilityCooldownRemaining(thrown, 'grenade')).toBe(ABILITY_COOLDOWN_MS.grenade);
+    expect(getAbilityCooldownRemaining(thrown, 'melee')).toBe(0);
+
+    const waited = run(thrown, rng, 10, 0.1).world;
+    expect(getAbilityCooldownRemaining(waited, 'grenade')).toBeCloseTo(ABILITY_COOLDOWN_MS.grenade - 1000);
+    expect(run(waited, rng, 1, 0.05, grenade).events).not.toContainEqual(throwEvent);
+
+    const ready = run(waited, rng, Math.ceil((ABILITY_COOLDOWN_MS.grenade - 1000) / 100), 0.1).world;
+    expect(getAbilityCooldownRemaining(ready, 'grenade')).toBe(0);
+    expect(run(ready, rng, 1, 0.05, grenade).events).toContainEqual(throwEvent);
+  });
+
+  it('detonates a thrown grenade after its fuse and clears drones in the blast', () => {
+    const start = createWorld('EASY', createSeededRng(1));
+    const landing = grenadePositionAt(
+      createGrenadeThrow('probe', start.player.position, forwardFromYaw(0), 0),
+      GRENADE_FUSE_MS,
+    );
+    const { world, rng } = arena('EASY', [enemyAt('victim', [landing[0], start.player.position[1], landing[2]])]);
+
+    const thrown = simulateStep(world, input({ combat: CombatGesture.GRENADE }), 0.001, rng);
+    expect(thrown.events).toEqual([{ type: 'GRENADE_THROWN' }]);
+    expect(thrown.world.grenades).toHaveLength(1);
+
+    const { world: after, events } = run(thrown.world, rng, 12, 0.1);
+    expect(after.grenades).toHaveLength(0);
+    expect(events.map((event) => event.type)).toEqual(['ENEMY_HIT', 'ENEMY_DEFEATED', 'GRENADE_EXPLODED']);
+    expect(after.enemies.find((enemy) => enemy.id === 'victim')).toBeUndefined();
+  });
+});
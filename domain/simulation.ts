@@ -0,0 +1,508 @@
+import { DEFAULT_ARENA_MAP } from '../config/arenaMaps';
+import {
+  ABILITY_COOLDOWN_MS,
+  DAMAGE_BOOST_MULTIPLIER,
+  DIFFICULTY_PROFILES,
+  ENEMY_ARCHETYPES,
+  ENEMY_COLLISION_RADIUS,
+  GRENADE_DAMAGE,
+  GRENADE_FUSE_MS,
+  MAX_PICKUPS,
+  MELEE_DAMAGE,
+  PICKUP_DROP_CHANCE,
+  PICKUP_PROFILES,
+  PICKUP_SPAWN_INTERVAL_MS,
+  PICKUP_SPAWN_RADIUS,
+  PLAYER_CAPSULE_RADIUS,
+  SHIELD_DAMAGE_FACTOR,
+  WEAPON_PROFILES,
+} from '../config/gameConfig';
+import {
+  CombatGesture,
+  DifficultyLevel,
+  EnemyAIState,
+  EnemyArchetypeId,
+  EnemyHit,
+  HandState,
+  PickupKind,
+  PowerUpKind,
+  SimulatedAbility,
+  Target,
+  WeaponId,
+} from '../types';
+import { constrainToArena, findCoverEntry, groundHeightAt } from './arena-collision';
+import { ArenaMap } from './arena-map';
+import {
+  createGrenadeThrow,
+  findBlastTargets,
+  findMeleeTarget,
+  GrenadeThrow,
+  grenadePositionAt,
+  Vec3,
+} from './combat-abilities';
+import { applyEnemyHit, computeShotDamage, scoreDefeat } from './damage';
+import { healAllies, stepEnemy } from './enemy-ai';
+import { isShieldFacing } from './enemy-archetypes';
+import { createPathPlanner, getNavGrid } from './navigation';
+import { createPickup, isPickupExpired, isPickupInReach, isPowerUpKind, Pickup, pickPickupKind } from './pickups';
+import {
+  createProjectile,
+  EnemyProjectile,
+  isProjectileExpired,
+  playerCapsule,
+  projectileHitsCapsule,
+  projectilePositionAt,
+} from './projectiles';
+import { Rng } from './rng';
+import { add, distance, headingToward, scale } from './vector-math';
+import { createWaveDirector, stepWaveDirector, WaveDirector, WaveEvent } from './wave-director';
+
+export const PLAYER_HEIGHT = 1.6;
+export const LOOK_PITCH_LIMIT = 0.6;
+export const EXPLOSION_DURATION_MS = 450;
+const BASE_MOVE_SPEED = 6;
+const IRON_SIGHT_SPEED_FACTOR = 0.75;
+/** Enemies aim this far below the camera, at the middle of the body. */
+const PLAYER_CHEST_DROP = 0.4;
+
+export interface PlayerState {
+  /** Camera position: the ground under the player plus `PLAYER_HEIGHT`. */
+  position: Vec3;
+  /** Radians; positive turns left, 0 looks down -z. */
+  yaw: number;
+  pitch: number;
+}
+
+export interface Explosion {
+  id: string;
+  position: Vec3;
+  at: number;
+}
+
+/**
+ * Everything the match needs to advance. Timestamps (`timeMs`, enemy
+ * `lastActionTime`, grenade `thrownAt`, power-up expiry) are on the simulation
+ * clock, which only moves through `simulateStep`, so a paused match is frozen in time.
+ */
+export interface World {
+  timeMs: number;
+  difficulty: DifficultyLevel;
+  map: ArenaMap;
+  player: PlayerState;
+  enemies: Target[];
+  grenades: GrenadeThrow[];
+  projectiles: EnemyProjectile[];
+  explosions: Explosion[];
+  pickups: Pickup[];
+  /** Which wave is on, what it still has to send and when. */
+  director: WaveDirector;
+  pickupClockMs: number;
+  kills: number;
+  nextEntityId: number;
+  lastShotAt: number;
+  /** The fire gesture has been held since the last shot; semi-automatic weapons wait for it to be released. */
+  triggerHeld: boolean;
+  lastMeleeAt: number;
+  lastGrenadeAt: number;
+  /** When each power-up wears off; 0 when it was never collected. */
+  powerUps: Record<PowerUpKind, number>;
+}
+
+export interface SimulationInput {
+  hand: HandState;
+  weapon: WeaponId;
+  /** The weapon has a round ready; ammo and reloads stay in the game reducer. */
+  canFire: boolean;
+  /** Drone under the crosshair, resolved by whoever renders the world. */
+  aimedHit: AimedHit | null;
+}
+
+export interface AimedHit {
+  enemyId: string;
+  /** Metres from the camera to the point the ray struck. */
+  distance: number;
+  weakSpot: boolean;
+}
+
+export type SimulationEvent =
+  | { type: 'SHOT'; didHit: boolean }
+  | { type: 'ENEMY_HIT'; enemyId: string; hit: EnemyHit }
+  | { type: 'ENEMY_DEFEATED'; enemyId: string; points: number; hit: EnemyHit }
+  | { type: 'ENEMY_DETONATED'; enemyId: string }
+  | { type: 'SHIELD_BLOCKED'; enemyId: string }
+  | { type: 'PLAYER_DAMAGED'; amount: number }
+  | { type: 'PROJECTILE_FIRED'; enemyId: string }
+  | WaveEvent
+  | { type: 'MELEE'; didHit: boolean }
+  | { type: 'GRENADE_THROWN' }
+  | { type: 'GRENADE_EXPLODED'; position: Vec3 }
+  | { type: 'PICKUP_COLLECTED'; kind: PickupKind };
+
+export interface SimulationStep {
+  world: World;
+  events: SimulationEvent[];
+}
+
+/** Horizontal facing for a yaw, matching a camera rotated in YXZ order. */
+export const forwardFromYaw = (yaw: number): Vec3 => [-Math.sin(yaw), 0, -Math.cos(yaw)];
+
+const constrainEnemy = (map: ArenaMap, position: Vec3) => constrainToArena(map, position, ENEMY_COLLISION_RADIUS);
+
+/** A random point in one of the map's spawn zones; a ring around the player widens in later waves. */
+const pickSpawnPoint = (map: ArenaMap, player: Vec3, wave: number, rng: Rng): Vec3 => {
+  const zones = map.spawnZones;
+  const zone = zones.length === 1 ? zones[0] : zones[Math.floor(rng() * zones.length)];
+  const angle = rng() * Math.PI * 2;
+  if (zone.kind === 'AROUND_PLAYER') {
+    const radius = zone.minRadius + rng() * (zone.maxRadius - zone.minRadius) + Math.min(15, wave * 1.5);
+    return [player[0] + Math.cos(angle) * radius, PLAYER_HEIGHT, player[2] + Math.sin(angle) * radius];
+  }
+  const radius = Math.sqrt(rng()) * zone.radius;
+  return [zone.center[0] + Math.cos(angle) * radius, PLAYER_HEIGHT, zone.center[1] + Math.sin(angle) * radius];
+};
+
+export const createEnemy = (
+  id: string,
+  archetypeId: EnemyArchetypeId,
+  map: ArenaMap,
+  player: Vec3,
+  wave: number,
+  timeMs: number,
+  rng: Rng,
+): Target => {
+  const archetype = ENEMY_ARCHETYPES[archetypeId];
+  const position = constrainEnemy(map, pickSpawnPoint(map, player, wave, rng));
+  const targetPoint = constrainEnemy(map, [
+    position[0] + (rng() - 0.5) * 28,
+    PLAYER_HEIGHT,
+    position[2] + (rng() - 0.5) * 28,
+  ]);
+
+  return {
+    id,
+    archetype: archetype.id,
+    position,
+    health: archetype.maxHealth,
+    maxHealth: archetype.maxHealth,
+    lastHit: null,
+    state: EnemyAIState.PATROLLING,
+    targetPoint,
+    lastActionTime: timeMs,
+    strafeSeed: rng() * Math.PI * 2,
+    heading: headingToward(position, targetPoint),
+    aimStartedAt: null,
+    route: null,
+  };
+};
+
+/** Camera position at the map's player start. */
+export const getPlayerStart = (map: ArenaMap): Vec3 => {
+  const [x, z] = map.playerStart.position;
+  return [x, groundHeightAt(map, x, z, 0) + PLAYER_HEIGHT, z];
+};
+
+/** A fresh match: the player at the map's start, with the first wave's opening burst already out. */
+export const createWorld = (difficulty: DifficultyLevel, rng: Rng, map: ArenaMap = DEFAULT_ARENA_MAP): World => {
+  const start = getPlayerStart(map);
+  const { director, spawns } = stepWaveDirector(createWaveDirector(rng), 0, 0, difficulty, rng);
+  const enemies = spawns.map((archetype, index) => createEnemy(`enemy-${index}`, archetype, map, start, 1, 0, rng));
+
+  return {
+    timeMs: 0,
+    difficulty,
+    map,
+    player: { position: start, yaw: map.playerStart.yaw, pitch: 0 },
+    enemies,
+    grenades: [],
+    projectiles: [],
+    explosions: [],
+    pickups: [],
+    director,
+    pickupClockMs: 0,
+    kills: 0,
+    nextEntityId: enemies.length,
+    lastShotAt: Number.NEGATIVE_INFINITY,
+    triggerHeld: false,
+    lastMeleeAt: Number.NEGATIVE_INFINITY,
+    lastGrenadeAt: Number.NEGATIVE_INFINITY,
+    powerUps: { DAMAGE_BOOST: 0, SHIELD: 0 },
+  };
+};
+
+/** Milliseconds until melee or a grenade can be used again; 0 when it is ready. */
+export const getAbilityCooldownRemaining = (world: World, ability: SimulatedAbility) => {
+  const lastUsedAt = ability === 'melee' ? world.lastMeleeAt : world.lastGrenadeAt;
+  return Math.max(0, lastUsedAt + ABILITY_COOLDOWN_MS[ability] - world.timeMs);
+};
+
+/** Milliseconds until a power-up wears off; 0 when it is not active. */
+export const getPowerUpRemaining = (world: World, powerUp: PowerUpKind) =>
+  Math.max(0, world.powerUps[powerUp] - world.timeMs);
+
+/** Moves and turns the player; walls and crates stop them, while ramps and low ledges lift them. */
+const stepPlayer = (player: PlayerState, map: ArenaMap, hand: HandState, dtSeconds: number): PlayerState => {
+  const yaw = player.yaw + hand.look.yaw * dtSeconds;
+  const pitch = Math.min(LOOK_PITCH_LIMIT, Math.max(-LOOK_PITCH_LIMIT, player.pitch + hand.look.pitch * dtSeconds));
+  const forward = forwardFromYaw(yaw);
+  const right: Vec3 = [-forward[2], 0, forward[0]];
+  const speed =
+    BASE_MOVE_SPEED * dtSeconds * (hand.combat === CombatGesture.IRON_SIGHT ? IRON_SIGHT_SPEED_FACTOR : 1);
+
+  const moved = add(
+    add(player.position, scale(forward, hand.moveVector.y * speed)),
+    scale(right, hand.moveVector.x * speed),
+  );
+  const feet = player.position[1] - PLAYER_HEIGHT;
+  const [x, , z] = constrainToArena(map, moved, PLAYER_CAPSULE_RADIUS, feet);
+  return { position: [x, groundHeightAt(map, x, z, feet) + PLAYER_HEIGHT, z], yaw, pitch };
+};
+
+/**
+ * Advances the match by `dtSeconds`: player movement, waves, enemy AI and
+ * fire, weapons and abilities. Pure apart from drawing from `rng`, so the same world,
+ * input, step and seed always produce the same result.
+ */
+export const simulateStep = (world: World, input: SimulationInput, dtSeconds: number, rng: Rng): SimulationStep => {
+  const profile = DIFFICULTY_PROFILES[world.difficulty];
+  const timeMs = world.timeMs + dtSeconds * 1000;
+  const events: SimulationEvent[] = [];
+  const { hand } = input;
+  const { map } = world;
+
+  const player = stepPlayer(world.player, map, hand, dtSeconds);
+  let { kills, nextEntityId, lastShotAt, lastMeleeAt, lastGrenadeAt } = world;
+  let enemies = world.enemies;
+  let grenades = world.grenades;
+  let projectiles = world.projectiles;
+  let explosions = world.explosions;
+  let pickups = world.pickups;
+  let powerUps = world.powerUps;
+  const damageMultiplier = powerUps.DAMAGE_BOOST > timeMs ? DAMAGE_BOOST_MULTIPLIER : 1;
+
+  /** Reports damage to the player, most of it soaked while the shield lasts. */
+  const damagePlayer = (amount: number) => {
+    const taken = powerUps.SHIELD > timeMs ? Math.round(amount * SHIELD_DAMAGE_FACTOR) : amount;
+    if (taken > 0) events.push({ type: 'PLAYER_DAMAGED', amount: taken });
+  };
+
+  /** Drops a pickup at (x, z), resting on whatever the player could stand on there. */
+  const dropPickup = (x: number, z: number) => {
+    const [dropX, , dropZ] = constrainToArena(map, [x, 0, z], PLAYER_CAPSULE_RADIUS);
+    const position: Vec3 = [dropX, groundHeightAt(map, dropX, dropZ, 0), dropZ];
+    pickups = [...pickups, createPickup(`pickup-${nextEntityId}`, pickPickupKind(rng), position, timeMs)];
+    nextEntityId += 1;
+  };
+
+  const directed = stepWaveDirector(world.director, timeMs, enemies.length, world.difficulty, rng);
+  const { director } = directed;
+  const { wave } = director;
+  events.push(...directed.events);
+  if (directed.spawns.length > 0) {
+    const arrivals = directed.spawns.map((archetype, index) =>
+      createEnemy(`enemy-${nextEntityId + index}`, archetype, map, player.position, wave, timeMs, rng),
+    );
+    nextEntityId += arrivals.length;
+    enemies = [...enemies, ...arrivals];
+  }
+
+  const context = {
+    player: player.position,
+    wave,
+    timeMs,
+    dtSeconds,
+    difficulty: world.difficulty,
+    rng,
+    clampPosition: (position: Vec3) => constrainEnemy(map, position),
+    planner: createPathPlanner(getNavGrid(map), timeMs),
+  };
+  const stepped: Target[] = [];
+  enemies.forEach((enemy) => {
+    if (enemy.state === EnemyAIState.DEAD) {
+      stepped.push(enemy);
+      return;
+    }
+    const { enemy: next, contactDamage, shotDamage, detonated } = stepEnemy(enemy, context);
+    if (contactDamage > 0) damagePlayer(contactDamage);
+    const { projectileSpeed } = ENEMY_ARCHETYPES[next.archetype];
+    if (shotDamage > 0 && projectileSpeed !== undefined) {
+      // Rounds fly at the player's chest as it was when fired, so moving sideways dodges them.
+      const chest: Vec3 = [player.position[0], player.position[1] - PLAYER_CHEST_DROP, player.position[2]];
+      const id = `projectile-${nextEntityId}`;
+      nextEntityId += 1;
+      const projectile = createProjectile(id, next.id, next.position, chest, projectileSpeed, shotDamage, timeMs);
+      projectiles = [...projectiles, projectile];
+      events.push({ type: 'PROJECTILE_FIRED', enemyId: next.id });
+    }
+    if (!detonated) {
+      stepped.push(next);
+      return;
+    }
+    // Kamikazes are gone once they blow up and give no points.
+    explosions = [...explosions, { id: next.id, position: next.position, at: timeMs }];
+    events.push({ type: 'ENEMY_DETONATED', enemyId: next.id });
+  });
+  enemies = healAllies(stepped, dtSeconds);
+
+  /** Damages each drone once; those that drop to 0 health are removed and scored with the hit that finished them. */
+  const hitEnemies = (hits: readonly (EnemyHit & { enemyId: string })[]) => {
+    if (hits.length === 0) return;
+    const defeatedIds: string[] = [];
+    enemies = enemies.map((enemy) => {
+      const hit = hits.find((candidate) => candidate.enemyId === enemy.id);
+      if (!hit) return enemy;
+      const { enemyId, ...rest } = hit;
+      const details = { ...rest, damage: Math.round(rest.damage * damageMultiplier) };
+      const result = applyEnemyHit(enemy, details, timeMs);
+      events.push({ type: 'ENEMY_HIT', enemyId, hit: details });
+      if (result.defeated) {
+        defeatedIds.push(enemyId);
+        kills += 1;
+        const { scoreValue } = ENEMY_ARCHETYPES[enemy.archetype];
+        const points = scoreDefeat(scoreValue, profile.scoreMultiplier, wave, details);
+        events.push({ type: 'ENEMY_DEFEATED', enemyId, points, hit: details });
+        if (pickups.length < MAX_PICKUPS && rng() < PICKUP_DROP_CHANCE) dropPickup(enemy.position[0], enemy.position[2]);
+      }
+      return result.enemy;
+    });
+    if (defeatedIds.length === 0) return;
+    enemies = enemies.filter((enemy) => !defeatedIds.includes(enemy.id));
+  };
+
+  const distanceToPlayer = (enemy: Target) => distance(enemy.position, player.position);
+
+  const weapon = WEAPON_PROFILES[input.weapon];
+  const isFiring = hand.combat === CombatGesture.FIRE;
+  let triggerHeld = isFiring && world.triggerHeld;
+  if (
+    isFiring &&
+    input.canFire &&
+    timeMs - lastShotAt > weapon.fireCooldownMs &&
+    (weapon.fireMode === 'AUTO' || !triggerHeld)
+  ) {
+    lastShotAt = timeMs;
+    triggerHeld = true;
+    const aimed = input.aimedHit;
+    const target = aimed && enemies.find((enemy) => enemy.id === aimed.enemyId && enemy.state !== EnemyAIState.DEAD);
+    const blocked = Boolean(target && isShieldFacing(target, player.position));
+    if (target && blocked) events.push({ type: 'SHIELD_BLOCKED', enemyId: target.id });
+    if (aimed && target && !blocked) {
+      hitEnemies([
+        {
+          enemyId: target.id,
+          cause: 'SHOT',
+          damage: computeShotDamage(weapon, aimed.distance, aimed.weakSpot),
+          weakSpot: aimed.weakSpot,
+          distance: aimed.distance,
+        },
+      ]);
+    }
+    events.push({ type: 'SHOT', didHit: Boolean(target) && !blocked });
+  }
+
+  const forward = forwardFromYaw(player.yaw);
+  if (hand.combat === CombatGesture.MELEE && timeMs - lastMeleeAt >= ABILITY_COOLDOWN_MS.melee) {
+    lastMeleeAt = timeMs;
+    const target = findMeleeTarget(enemies, player.position, forward);
+    const blocked = Boolean(target && isShieldFacing(target, player.position));
+    if (target && blocked) events.push({ type: 'SHIELD_BLOCKED', enemyId: target.id });
+    if (target && !blocked) {
+      hitEnemies([
+        { enemyId: target.id, cause: 'MELEE', damage: MELEE_DAMAGE, weakSpot: false, distance: distanceToPlayer(target) },
+      ]);
+    }
+    events.push({ type: 'MELEE', didHit: Boolean(target) && !blocked });
+  }
+
+  if (hand.combat === CombatGesture.GRENADE && timeMs - lastGrenadeAt >= ABILITY_COOLDOWN_MS.grenade) {
+    lastGrenadeAt = timeMs;
+    grenades = [...grenades, createGrenadeThrow(`grenade-${nextEntityId}`, player.position, forward, timeMs)];
+    nextEntityId += 1;
+    events.push({ type: 'GRENADE_THROWN' });
+  }
+
+  if (projectiles.length > 0) {
+    const capsule = playerCapsule(player.position, player.position[1] - PLAYER_HEIGHT);
+    const spent: EnemyProjectile[] = [];
+    projectiles.forEach((projectile) => {
+      const fromMs = Math.max(world.timeMs, projectile.firedAt);
+      const from = projectilePositionAt(projectile, fromMs);
+      const cover = findCoverEntry(map, from, projectilePositionAt(projectile, timeMs));
+      // A round stops at the first wall or crate in its path, so it only hurts if it reaches the player before that.
+      const reachedMs = cover === null ? timeMs : fromMs + cover * (timeMs - fromMs);
+      if (projectileHitsCapsule(projectile, capsule, fromMs, reachedMs)) {
+        damagePlayer(projectile.damage);
+        spent.push(projectile);
+      } else if (cover !== null || isProjectileExpired(projectile, timeMs)) {
+        spent.push(projectile);
+      }
+    });
+    if (spent.length > 0) projectiles = projectiles.filter((projectile) => !spent.includes(projectile));
+  }
+
+  const fused = grenades.filter((grenade) => timeMs - grenade.thrownAt >= GRENADE_FUSE_MS);
+  if (fused.length > 0) {
+    grenades = grenades.filter((grenade) => !fused.includes(grenade));
+    fused.forEach((grenade) => {
+      const position = grenadePositionAt(grenade, GRENADE_FUSE_MS);
+      hitEnemies(
+        findBlastTargets(enemies, position).map((enemy) => ({
+          enemyId: enemy.id,
+          cause: 'GRENADE' as const,
+          damage: GRENADE_DAMAGE,
+          weakSpot: false,
+          distance: distanceToPlayer(enemy),
+        })),
+      );
+      explosions = [...explosions, { id: grenade.id, position, at: timeMs }];
+      events.push({ type: 'GRENADE_EXPLODED', position });
+    });
+  }
+
+  let pickupClockMs = world.pickupClockMs + dtSeconds * 1000;
+  if (pickupClockMs >= PICKUP_SPAWN_INTERVAL_MS) {
+    pickupClockMs = 0;
+    if (pickups.length < MAX_PICKUPS) {
+      const angle = rng() * Math.PI * 2;
+      const radius = Math.sqrt(rng()) * PICKUP_SPAWN_RADIUS;
+      dropPickup(player.position[0] + Math.cos(angle) * radius, player.position[2] + Math.sin(angle) * radius);
+    }
+  }
+
+  const feet = player.position[1] - PLAYER_HEIGHT;
+  const collected = pickups.filter((pickup) => isPickupInReach(pickup, player.position, feet));
+  collected.forEach(({ kind }) => {
+    events.push({ type: 'PICKUP_COLLECTED', kind });
+    if (isPowerUpKind(kind)) powerUps = { ...powerUps, [kind]: timeMs + (PICKUP_PROFILES[kind].durationMs ?? 0) };
+  });
+  if (collected.length > 0 || pickups.some((pickup) => isPickupExpired(pickup, timeMs))) {
+    pickups = pickups.filter((pickup) => !collected.includes(pickup) && !isPickupExpired(pickup, timeMs));
+  }
+
+  // Arrays keep their identity while nothing changes, so renderers can skip updates cheaply.
+  if (explosions.some((explosion) => timeMs - explosion.at >= EXPLOSION_DURATION_MS)) {
+    explosions = explosions.filter((explosion) => timeMs - explosion.at < EXPLOSION_DURATION_MS);
+  }
+
+  return {
+    world: {
+      ...world,
+      timeMs,
+      player,
+      enemies,
+      grenades,
+      projectiles,
+      explosions,
+      pickups,
+      director,
+      pickupClockMs,
+      kills,
+      nextEntityId,
+      lastShotAt,
+      triggerHeld,
+      lastMeleeAt,
+      lastGrenadeAt,
+      powerUps,
+    },
+    events,
+  };
+};
@@ -0,0 +1,32 @@
+import { Vec3 } from './combat-abilities';
+
+export const add = (a: Vec3, b: Vec3): Vec3 => [a[0] + b[0], a[1] + b[1], a[2] + b[2]];
+
+export const scale = (v: Vec3, factor: number): Vec3 => [v[0] * factor, v[1] * factor, v[2] * factor];
+
+export const distance = (a: Vec3, b: Vec3) => Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
+
+export const normalize = (v: Vec3): Vec3 => {
+  const length = Math.hypot(v[0], v[1], v[2]);
+  return length === 0 ? [0, 0, 0] : scale(v, 1 / length);
+};
+
+/** Unit vector from `from` to `to` on the ground plane. */
+export const horizontalDirection = (from: Vec3, to: Vec3): Vec3 => normalize([to[0] - from[0], 0, to[2] - from[2]]);
+
+/** Up × v: the horizontal perpendicular used for strafing and search sweeps. */
+export const perpendicular = (v: Vec3): Vec3 => [v[2], 0, -v[0]];
+
+/** Yaw that turns an object's local +z toward `to`. */
+export const headingToward = (from: Vec3, to: Vec3) => Math.atan2(to[0] - from[0], to[2] - from[2]);
+
+/** The direction an object with this heading faces, i.e. its local +z. */
+export const headingVector = (heading: number): Vec3 => [Math.sin(heading), 0, Math.cos(heading)];
+
+/** Signed smallest rotation from `from` to `to`, in (-π, π]. */
+export const headingDelta = (from: number, to: number) => {
+  const delta = (to - from) % (Math.PI * 2);
+  if (delta > Math.PI) return delta - Math.PI * 2;
+  if (delta <= -Math.PI) return delta + Math.PI * 2;
+  return delta;
+};
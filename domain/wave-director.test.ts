@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { BOSS_WAVE_INTERVAL, ENDLESS_WAVE, WAVE_INTERMISSION_MS, WAVE_TABLE } from '../config/gameConfig';
+import { createSeededRng } from './rng';
+import { buildWaveQueue, createWaveDirector, getMaxAlive, isBossWave, stepWaveDirector } from './wave-director';
+
+const count = (queue: string[], archetype: string) => queue.filter((entry) => entry === archetype).length;
+
+describe('wave director', () => {
+  it('sends exactly the scripted composition, with the boss last on boss waves', () => {
+    const queue = buildWaveQueue(3, createSeededRng(1));
+    expect(queue).toHaveLength(9);
+    expect(count(queue, 'DRONE')).toBe(WAVE_TABLE[2].enemies.DRONE);
+    expect(count(queue, 'SNIPER')).toBe(WAVE_TABLE[2].enemies.SNIPER);
+
+    const bossQueue = buildWaveQueue(BOSS_WAVE_INTERVAL, createSeededRng(1));
+    expect(bossQueue[bossQueue.length - 1]).toBe('BOSS');
+    expect(count(bossQueue, 'BOSS')).toBe(1);
+    expect(isBossWave(BOSS_WAVE_INTERVAL * 2)).toBe(true);
+    expect(isBossWave(BOSS_WAVE_INTERVAL + 1)).toBe(false);
+  });
+
+  it('grows waves past the end of the table', () => {
+    const first = buildWaveQueue(WAVE_TABLE.length + 1, createSeededRng(2));
+    const later = buildWaveQueue(WAVE_TABLE.length + 3, createSeededRng(2));
+    expect(first).toHaveLength(ENDLESS_WAVE.baseCount);
+    expect(later).toHaveLength(ENDLESS_WAVE.baseCount + 2 * ENDLESS_WAVE.perWave);
+  });
+
+  it('holds bursts back while the arena is at the cap', () => {
+    const rng = createSeededRng(3);
+    const director = createWaveDirector(rng);
+    const cap = getMaxAlive('EASY', 1);
+    expect(stepWaveDirector(director, 0, cap, 'EASY', rng).spawns).toEqual([]);
+    expect(stepWaveDirector(director, 0, cap - 1, 'EASY', rng).spawns).toHaveLength(1);
+  });
+
+  it('clears the wave, rests through the intermission and starts the next one', () => {
+    const rng = createSeededRng(4);
+    const empty = { ...createWaveDirector(rng), queue: [] };
+    expect(stepWaveDirector(empty, 1000, 1, 'CASUAL', rng).events).toEqual([]);
+
+    const cleared = stepWaveDirector(empty, 1000, 0, 'CASUAL', rng);
+    expect(cleared.events).toEqual([{ type: 'WAVE_CLEARED', wave: 1, nextWave: 2, bossIncoming: false }]);
+    expect(cleared.director.phase).toBe('INTERMISSION');
+
+    const resting = stepWaveDirector(cleared.director, 1000 + WAVE_INTERMISSION_MS - 1, 0, 'CASUAL', rng);
+    expect(resting.director).toBe(cleared.director);
+
+    const started = stepWaveDirector(cleared.director, 1000 + WAVE_INTERMISSION_MS, 0, 'CASUAL', rng);
+    expect(started.events).toEqual([{ type: 'WAVE_STARTED', wave: 2, boss: false }]);
+    expect(started.spawns).toHaveLength(WAVE_TABLE[1].burstSize);
+    expect(started.director.wave).toBe(2);
+  });
+});
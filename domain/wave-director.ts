@@ -0,0 +1,114 @@
+import {
+  BOSS_WAVE_INTERVAL,
+  DIFFICULTY_PROFILES,
+  ENDLESS_WAVE,
+  WAVE_INTERMISSION_MS,
+  WAVE_TABLE,
+} from '../config/gameConfig';
+import { DifficultyLevel, EnemyArchetypeId } from '../types';
+import { pickArchetype } from './enemy-archetypes';
+import { Rng } from './rng';
+
+export type WavePhase = 'COMBAT' | 'INTERMISSION';
+
+/** Where the match stands in its sequence of waves. */
+export interface WaveDirector {
+  wave: number;
+  phase: WavePhase;
+  /** Enemies of this wave not sent yet, in arrival order. */
+  queue: EnemyArchetypeId[];
+  /** Simulation time of the next burst, or of the end of the intermission. */
+  nextAt: number;
+}
+
+export type WaveEvent =
+  | { type: 'WAVE_STARTED'; wave: number; boss: boolean }
+  | { type: 'WAVE_CLEARED'; wave: number; nextWave: number; bossIncoming: boolean };
+
+export interface WaveDirectorStep {
+  director: WaveDirector;
+  /** Archetypes to bring into the arena this step. */
+  spawns: EnemyArchetypeId[];
+  events: WaveEvent[];
+}
+
+export const isBossWave = (wave: number) => wave % BOSS_WAVE_INTERVAL === 0;
+
+const shuffle = <T>(items: T[], rng: Rng) => {
+  const shuffled = [...items];
+  for (let index = shuffled.length - 1; index > 0; index -= 1) {
+    const swap = Math.floor(rng() * (index + 1));
+    [shuffled[index], shuffled[swap]] = [shuffled[swap], shuffled[index]];
+  }
+  return shuffled;
+};
+
+/** Everything the wave sends, in random order; a boss arrives with the last burst. */
+export const buildWaveQueue = (wave: number, rng: Rng): EnemyArchetypeId[] => {
+  const scripted = WAVE_TABLE[wave - 1];
+  const squad = scripted
+    ? (Object.entries(scripted.enemies) as [EnemyArchetypeId, number][]).flatMap(([archetype, count]) =>
+        Array.from({ length: count }, () => archetype),
+      )
+    : Array.from({ length: ENDLESS_WAVE.baseCount + (wave - WAVE_TABLE.length - 1) * ENDLESS_WAVE.perWave }, () =>
+        pickArchetype(wave, rng),
+      );
+  const queue = shuffle(squad, rng);
+  return isBossWave(wave) ? [...queue, 'BOSS'] : queue;
+};
+
+export const getBurstSize = (wave: number) => WAVE_TABLE[wave - 1]?.burstSize ?? ENDLESS_WAVE.burstSize;
+
+/** Enemies allowed in the arena at once; later waves allow more, and a boss brings its own slot. */
+export const getMaxAlive = (difficulty: DifficultyLevel, wave: number) =>
+  DIFFICULTY_PROFILES[difficulty].maxEnemies + Math.floor((wave - 1) / 2) + (isBossWave(wave) ? 1 : 0);
+
+const getBurstInterval = (difficulty: DifficultyLevel, wave: number) =>
+  Math.max(1100, DIFFICULTY_PROFILES[difficulty].spawnIntervalMs - Math.floor((wave - 1) * 110));
+
+/** A wave about to send its first burst at `timeMs`. */
+export const createWaveDirector = (rng: Rng, wave = 1, timeMs = 0): WaveDirector => ({
+  wave,
+  phase: 'COMBAT',
+  queue: buildWaveQueue(wave, rng),
+  nextAt: timeMs,
+});
+
+/**
+ * Advances the wave sequence to `timeMs`, with `alive` enemies in the arena.
+ * Bursts go out on the difficulty's spawn interval while the cap leaves room.
+ * Once the queue is empty and every enemy is down the wave is cleared, and
+ * after the intermission the next wave starts with a burst right away.
+ */
+export const stepWaveDirector = (
+  current: WaveDirector,
+  timeMs: number,
+  alive: number,
+  difficulty: DifficultyLevel,
+  rng: Rng,
+): WaveDirectorStep => {
+  let director = current;
+  const events: WaveEvent[] = [];
+
+  if (director.phase === 'INTERMISSION') {
+    if (timeMs < director.nextAt) return { director, spawns: [], events };
+    director = createWaveDirector(rng, director.wave + 1, timeMs);
+    events.push({ type: 'WAVE_STARTED', wave: director.wave, boss: isBossWave(director.wave) });
+  }
+
+  const { wave, queue } = director;
+  if (queue.length === 0) {
+    if (alive > 0) return { director, spawns: [], events };
+    events.push({ type: 'WAVE_CLEARED', wave, nextWave: wave + 1, bossIncoming: isBossWave(wave + 1) });
+    return { director: { ...director, phase: 'INTERMISSION', nextAt: timeMs + WAVE_INTERMISSION_MS }, spawns: [], events };
+  }
+
+  const room = getMaxAlive(difficulty, wave) - alive;
+  if (timeMs < director.nextAt || room <= 0) return { director, spawns: [], events };
+  const count = Math.min(getBurstSize(wave), room);
+  return {
+    director: { ...director, queue: queue.slice(count), nextAt: timeMs + getBurstInterval(difficulty, wave) },
+    spawns: queue.slice(0, count),
+    events,
+  };
+};
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { LOADOUTS, WEAPON_PROFILES } from '../config/gameConfig';
+import { createSeededRng } from './rng';
+import { canFireWeapon, createLoadoutAmmo, getActiveAmmo, getNextWeapon, sampleSpread } from './weapons';
+
+describe('weapons', () => {
+  it('loads a full magazine for every weapon in the loadout that has one', () => {
+    expect(createLoadoutAmmo('ASSAULT')).toEqual({ RIFLE: WEAPON_PROFILES.RIFLE.magazineSize });
+    expect(createLoadoutAmmo('MARKSMAN')).toEqual({
+      MARKSMAN: WEAPON_PROFILES.MARKSMAN.magazineSize,
+      SMG: WEAPON_PROFILES.SMG.magazineSize,
+    });
+  });
+
+  it('needs a round and no reload to fire, except for weapons that never run dry', () => {
+    expect(getActiveAmmo({ weapon: 'SIDEARM', ammo: {} })).toBeNull();
+    expect(canFireWeapon({ weapon: 'SIDEARM', ammo: {}, isReloading: true })).toBe(true);
+    expect(canFireWeapon({ weapon: 'RIFLE', ammo: { RIFLE: 0 }, isReloading: false })).toBe(false);
+    expect(canFireWeapon({ weapon: 'RIFLE', ammo: { RIFLE: 3 }, isReloading: true })).toBe(false);
+    expect(canFireWeapon({ weapon: 'RIFLE', ammo: { RIFLE: 3 }, isReloading: false })).toBe(true);
+  });
+
+  it('cycles through the loadout in slot order', () => {
+    const [first, second] = LOADOUTS.CLOSE_QUARTERS.weapons;
+    expect(getNextWeapon('CLOSE_QUARTERS', first)).toBe(second);
+    expect(getNextWeapon('CLOSE_QUARTERS', second)).toBe(first);
+  });
+
+  it('keeps spread inside the weapon cone', () => {
+    const rng = createSeededRng(7);
+    expect(sampleSpread(0, rng)).toEqual({ x: 0, y: 0 });
+    for (let sample = 0; sample < 200; sample += 1) {
+      const { x, y } = sampleSpread(WEAPON_PROFILES.SMG.spread, rng);
+      expect(Math.hypot(x, y)).toBeLessThanOrEqual(WEAPON_PROFILES.SMG.spread);
+    }
+  });
+});
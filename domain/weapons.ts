@@ -0,0 +1,36 @@
+import { LOADOUTS, WEAPON_PROFILES } from '../config/gameConfig';
+import { GameState, LoadoutId, WeaponId } from '../types';
+import { Rng } from './rng';
+
+/** Full magazines for every weapon in the loadout that has one. */
+export const createLoadoutAmmo = (loadout: LoadoutId): GameState['ammo'] =>
+  Object.fromEntries(
+    LOADOUTS[loadout].weapons.flatMap((weapon) => {
+      const { magazineSize } = WEAPON_PROFILES[weapon];
+      return magazineSize === null ? [] : [[weapon, magazineSize]];
+    }),
+  );
+
+/** Rounds left in the drawn weapon, or null when it never runs dry. */
+export const getActiveAmmo = (state: Pick<GameState, 'ammo' | 'weapon'>) =>
+  WEAPON_PROFILES[state.weapon].magazineSize === null ? null : (state.ammo[state.weapon] ?? 0);
+
+/** The drawn weapon has a round ready. */
+export const canFireWeapon = (state: Pick<GameState, 'ammo' | 'weapon' | 'isReloading'>) => {
+  const ammo = getActiveAmmo(state);
+  return ammo === null || (ammo > 0 && !state.isReloading);
+};
+
+/** The weapon after `current` in the loadout, wrapping around. */
+export const getNextWeapon = (loadout: LoadoutId, current: WeaponId) => {
+  const { weapons } = LOADOUTS[loadout];
+  return weapons[(weapons.indexOf(current) + 1) % weapons.length];
+};
+
+/** A random direction inside a cone of half-angle `spread`, as horizontal and vertical offsets in radians. */
+export const sampleSpread = (spread: number, rng: Rng) => {
+  if (spread <= 0) return { x: 0, y: 0 };
+  const radius = spread * Math.sqrt(rng());
+  const angle = rng() * Math.PI * 2;
+  return { x: radius * Math.cos(angle), y: radius * Math.sin(angle) };
+};
@@ -0,0 +1,25 @@
+import { useEffect, useMemo, useState } from 'react';
+import { DEFAULT_HAND_STATE } from '../config/gameConfig';
+import { INPUT_MODE_SOURCES, InputMode, InputSourceId, mergeHandStates } from '../domain/input-state';
+import { InputSource } from '../services/input-sources';
+import { HandState } from '../types';
+
+type SourceStates = Partial<Record<InputSourceId, HandState>>;
+
+/** Subscribes to the sources the mode uses and merges their latest states into one `HandState`. */
+export const useInputSources = (mode: InputMode, sources: Record<InputSourceId, InputSource>) => {
+  const [states, setStates] = useState<SourceStates>({});
+
+  useEffect(() => {
+    setStates({});
+    const unsubscribers = INPUT_MODE_SOURCES[mode].map((id) =>
+      sources[id].subscribe((state) => setStates((previous) => ({ ...previous, [id]: state }))),
+    );
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+  }, [mode, sources]);
+
+  return useMemo(() => {
+    const active = INPUT_MODE_SOURCES[mode].flatMap((id) => (states[id] ? [states[id]] : []));
+    return active.length ? mergeHandStates(active) : DEFAULT_HAND_STATE;
+  }, [mode, states]);
+};
@@ -0,0 +1,71 @@
+import { useEffect, useState } from 'react';
+import { RESUME_COUNTDOWN_SECONDS } from '../config/gameConfig';
+
+interface TrackingAutoPauseOptions {
+  isPlaying: boolean;
+  isPaused: boolean;
+  /** At least one hand is tracked; the grace period runs while this is false. */
+  anyHandTracked: boolean;
+  /** Both hands are tracked again, which starts the resume countdown. */
+  bothHandsTracked: boolean;
+  /** Milliseconds without hands before pausing; 0 disables auto-pause. */
+  graceMs: number;
+  onAutoPause: () => void;
+  onAutoResume: () => void;
+}
+
+/**
+ * Pauses the match after the hands have been out of frame for `graceMs` and,
+ * once both hands are back, resumes after a visible countdown. Manual pauses
+ * are never resumed automatically.
+ */
+export const useTrackingAutoPause = ({
+  isPlaying,
+  isPaused,
+  anyHandTracked,
+  bothHandsTracked,
+  graceMs,
+  onAutoPause,
+  onAutoResume,
+}: TrackingAutoPauseOptions) => {
+  const [isAutoPaused, setIsAutoPaused] = useState(false);
+  const [countdown, setCountdown] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (!isPlaying || anyHandTracked || graceMs <= 0) return;
+    const timeout = window.setTimeout(() => {
+      setIsAutoPaused(true);
+      onAutoPause();
+    }, graceMs);
+    return () => window.clearTimeout(timeout);
+  }, [anyHandTracked, graceMs, isPlaying, onAutoPause]);
+
+  // A manual resume, returning to the menu or game over ends the auto-pause.
+  useEffect(() => {
+    if (isPaused) return;
+    setIsAutoPaused(false);
+  }, [isPaused]);
+
+  useEffect(() => {
+    if (!isAutoPaused || !isPaused || !bothHandsTracked) {
+      setCountdown(null);
+      return;
+    }
+
+    let remaining = RESUME_COUNTDOWN_SECONDS;
+    setCountdown(remaining);
+    const interval = window.setInterval(() => {
+      remaining -= 1;
+      if (remaining > 0) {
+        setCountdown(remaining);
+        return;
+      }
+      window.clearInterval(interval);
+      setCountdown(null);
+      onAutoResume();
+    }, 1000);
+    return () => window.clearInterval(interval);
+  }, [bothHandsTracked, isAutoPaused, isPaused, onAutoResume]);
+
+  return { isAutoPaused, countdown };
+};
@@ -1,9 +1,12 @@
-
-import React from 'react';
+import React, { Suspense } from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
 import './styles.css';
 
+// Development scene for the enemy renderer; kept out of the main bundle.
+const EnemyBenchmark = React.lazy(() => import('./components/EnemyBenchmark'));
+const isBenchmark = new URLSearchParams(window.location.search).has('benchmark');
+
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element to mount to");
@@ -12,6 +15,12 @@ if (!rootElement) {
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    {isBenchmark ? (
+      <Suspense fallback={null}>
+        <EnemyBenchmark />
+      </Suspense>
+    ) : (
+      <App />
+    )}
   </React.StrictMode>
 );
@@ -0,0 +1,78 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createWorkerInference, InferenceWorkerRequest, InferenceWorkerResponse } from './hand-inference';
+
+/** Stands in for the inference worker; tests drive its replies and crashes by hand. */
+class FakeWorker {
+  static latest: FakeWorker | null = null;
+  onmessage: ((event: { data: InferenceWorkerResponse }) => void) | null = null;
+  onerror: ((event: { message: string }) => void) | null = null;
+  onmessageerror: (() => void) | null = null;
+  posted: InferenceWorkerRequest[] = [];
+  terminated = false;
+
+  constructor() {
+    FakeWorker.latest = this;
+  }
+
+  postMessage(message: InferenceWorkerRequest) {
+    this.posted.push(message);
+  }
+
+  terminate() {
+    this.terminated = true;
+  }
+}
+
+const video = {} as HTMLVideoElement;
+
+/** A started engine and its worker, with one frame already posted. */
+const startDetecting = async () => {
+  const starting = createWorkerInference();
+  const worker = FakeWorker.latest as FakeWorker;
+  worker.onmessage?.({ data: { type: 'ready' } });
+  const engine = await starting;
+  const frame = engine.detect(video, 1);
+  await vi.waitFor(() => expect(worker.posted.some((message) => message.type === 'frame')).toBe(true));
+  return { engine, worker, frame };
+};
+
+describe('createWorkerInference', () => {
+  beforeEach(() => {
+    vi.stubGlobal('window', globalThis);
+    vi.stubGlobal('Worker', FakeWorker);
+    vi.stubGlobal('createImageBitmap', async () => ({}));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    FakeWorker.latest = null;
+  });
+
+  it('resolves a frame with the results the worker sends back', async () => {
+    const { worker, frame } = await startDetecting();
+    worker.onmessage?.({ data: { type: 'results', timestamp: 1, inferenceMs: 12 } });
+    await expect(frame).resolves.toEqual({ inferenceMs: 12 });
+  });
+
+  it('rejects the frame in flight when the worker crashes, and every frame after it', async () => {
+    const { engine, worker, frame } = await startDetecting();
+    worker.onerror?.({ message: 'boom' });
+
+    await expect(frame).rejects.toThrow('boom');
+    expect(worker.terminated).toBe(true);
+    await expect(engine.detect(video, 2)).rejects.toThrow('boom');
+  });
+
+  it('treats an unreadable message as a crash', async () => {
+    const { worker, frame } = await startDetecting();
+    worker.onmessageerror?.();
+    await expect(frame).rejects.toThrow();
+    expect(worker.terminated).toBe(true);
+  });
+
+  it('fails to start when the worker crashes before it is ready', async () => {
+    const starting = createWorkerInference();
+    FakeWorker.latest?.onerror?.({ message: '' });
+    await expect(starting).rejects.toThrow('Falha no worker de rastreamento.');
+  });
+});
@@ -0,0 +1,160 @@
+import { HandLandmarkResults } from '../domain/landmark-recording';
+
+export type InferenceMode = 'worker' | 'main-thread';
+
+export interface InferenceResult extends HandLandmarkResults {
+  /** Frame the landmarks were detected on, when the engine hands it back. */
+  image?: CanvasImageSource;
+  inferenceMs: number;
+}
+
+export interface HandInferenceEngine {
+  mode: InferenceMode;
+  detect: (video: HTMLVideoElement, timestamp: number) => Promise<InferenceResult>;
+  close: () => void;
+}
+
+export type InferenceWorkerRequest =
+  | { type: 'init' }
+  | { type: 'frame'; bitmap: ImageBitmap; timestamp: number };
+
+export type InferenceWorkerResponse =
+  | { type: 'ready' }
+  | { type: 'error'; message: string }
+  | ({ type: 'results'; timestamp: number } & InferenceResult);
+
+const WORKER_INIT_TIMEOUT_MS = 15_000;
+
+const MEDIAPIPE_HANDS_OPTIONS = {
+  maxNumHands: 2,
+  modelComplexity: 1,
+  minDetectionConfidence: 0.5,
+  minTrackingConfidence: 0.5,
+};
+
+/** Worker inference needs bitmaps it can transfer and a canvas it can render WebGL into off the DOM. */
+export const supportsWorkerInference = () =>
+  typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined' && typeof createImageBitmap !== 'undefined';
+
+/**
+ * Runs detection in a dedicated worker. Frames are sent one at a time as
+ * transferred `ImageBitmap`s, so the render loop only pays for the bitmap copy.
+ */
+export const createWorkerInference = (): Promise<HandInferenceEngine> =>
+  new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./hand-inference.worker.ts', import.meta.url), { type: 'module' });
+    let pending: { resolve: (result: InferenceResult) => void; reject: (error: Error) => void } | null = null;
+    /** Set once the worker has crashed; every later frame fails with it. */
+    let failure: Error | null = null;
+
+    const initTimeout = window.setTimeout(() => {
+      worker.terminate();
+      reject(new Error('O worker de rastreamento não respondeu a tempo.'));
+    }, WORKER_INIT_TIMEOUT_MS);
+
+    const engine: HandInferenceEngine = {
+      mode: 'worker',
+      detect: async (video, timestamp) => {
+        if (failure) throw failure;
+        const bitmap = await createImageBitmap(video);
+        return new Promise<InferenceResult>((resolveFrame, rejectFrame) => {
+          pending = { resolve: resolveFrame, reject: rejectFrame };
+          const request: InferenceWorkerRequest = { type: 'frame', bitmap, timestamp };
+          worker.postMessage(request, [bitmap]);
+        });
+      },
+      close: () => {
+        pending?.reject(new Error('O worker de rastreamento foi encerrado.'));
+        pending = null;
+        worker.terminate();
+      },
+    };
+
+    worker.onmessage = (event: MessageEvent<InferenceWorkerResponse>) => {
+      const message = event.data;
+      if (message.type === 'ready') {
+        window.clearTimeout(initTimeout);
+        resolve(engine);
+        return;
+      }
+
+      if (message.type === 'error') {
+        window.clearTimeout(initTimeout);
+        if (pending) {
+          pending.reject(new Error(message.message));
+          pending = null;
+          return;
+        }
+        worker.terminate();
+        reject(new Error(message.message));
+        return;
+      }
+
+      const { type: _type, timestamp: _timestamp, ...result } = message;
+      pending?.resolve(result);
+      pending = null;
+    };
+
+    // A crash fails the start-up and any frame in flight, so the tracker can fall back to the main thread.
+    const fail = (error: Error) => {
+      window.clearTimeout(initTimeout);
+      worker.terminate();
+      failure = error;
+      pending?.reject(error);
+      pending = null;
+      reject(error);
+    };
+
+    worker.onerror = (event) => {
+      fail(new Error(event.message || 'Falha no worker de rastreamento.'));
+    };
+
+    worker.onmessageerror = () => {
+      fail(new Error('O worker de rastreamento enviou uma mensagem inválida.'));
+    };
+
+    const init: InferenceWorkerRequest = { type: 'init' };
+    worker.postMessage(init);
+  });
+
+/** The original pipeline: the CDN `Hands` solution running on the main thread. */
+export const createMainThreadInference = (): HandInferenceEngine => {
+  if (!window.Hands) {
+    throw new Error('MediaPipe Hands não foi carregado. Verifique o script no index.html.');
+  }
+
+  const hands = new window.Hands({
+    locateFile: (file: string) => `https://cdn.jsdelivr.net/npm/@mediapipe/hands/${file}`,
+  });
+  hands.setOptions(MEDIAPIPE_HANDS_OPTIONS);
+
+  let latest: HandLandmarkResults & { image?: CanvasImageSource } = {};
+  hands.onResults((results) => {
+    latest = results;
+  });
+
+  return {
+    mode: 'main-thread',
+    detect: async (video) => {
+      const startedAt = performance.now();
+      latest = {};
+      await hands.send({ image: video });
+      return { ...latest, inferenceMs: performance.now() - startedAt };
+    },
+    close: () => {
+      hands.close?.().catch(() => undefined);
+    },
+  };
+};
+
+/** Prefers the worker pipeline and falls back to the main thread when it is unavailable or fails to start. */
+export const createHandInference = async (): Promise<HandInferenceEngine> => {
+  if (supportsWorkerInference()) {
+    try {
+      return await createWorkerInference();
+    } catch (error) {
+      console.warn('Worker de rastreamento indisponível, usando a thread principal.', error);
+    }
+  }
+  return createMainThreadInference();
+};
@@ -0,0 +1,92 @@
+import type { HandednessEntry, HandLandmarkResults } from '../domain/landmark-recording';
+import type { InferenceWorkerRequest, InferenceWorkerResponse } from './hand-inference';
+
+const TASKS_VISION_VERSION = '0.10.14';
+const TASKS_VISION_URL = `https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@${TASKS_VISION_VERSION}`;
+const HAND_MODEL_URL =
+  'https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task';
+
+/** The slice of the tasks-vision API the worker touches; the bundle is loaded from the CDN at runtime. */
+interface HandLandmarkerResult {
+  landmarks: HandLandmarkResults['multiHandLandmarks'];
+  handedness: { categoryName: string; score: number }[][];
+}
+
+interface HandLandmarker {
+  detectForVideo: (frame: ImageBitmap, timestamp: number) => HandLandmarkerResult;
+}
+
+interface TasksVisionModule {
+  FilesetResolver: { forVisionTasks: (wasmPath: string) => Promise<unknown> };
+  HandLandmarker: {
+    createFromOptions: (fileset: unknown, options: Record<string, unknown>) => Promise<HandLandmarker>;
+  };
+}
+
+interface WorkerScope {
+  onmessage: ((event: MessageEvent<InferenceWorkerRequest>) => void) | null;
+  postMessage: (message: InferenceWorkerResponse) => void;
+}
+
+const scope = globalThis as unknown as WorkerScope;
+let landmarker: HandLandmarker | null = null;
+let lastTimestamp = -1;
+
+const post = (message: InferenceWorkerResponse) => scope.postMessage(message);
+
+const toHandedness = (categories: HandLandmarkerResult['handedness']): HandednessEntry[] =>
+  categories.map(([best]) => ({
+    label: best?.categoryName === 'Left' ? 'Left' : 'Right',
+    score: best?.score ?? 0,
+  }));
+
+const init = async () => {
+  const vision = (await import(/* @vite-ignore */ `${TASKS_VISION_URL}/vision_bundle.mjs`)) as TasksVisionModule;
+  const fileset = await vision.FilesetResolver.forVisionTasks(`${TASKS_VISION_URL}/wasm`);
+  landmarker = await vision.HandLandmarker.createFromOptions(fileset, {
+    baseOptions: { modelAssetPath: HAND_MODEL_URL, delegate: 'GPU' },
+    runningMode: 'VIDEO',
+    numHands: 2,
+    minHandDetectionConfidence: 0.5,
+    minTrackingConfidence: 0.5,
+  });
+};
+
+const detect = (bitmap: ImageBitmap, timestamp: number) => {
+  if (!landmarker) throw new Error('Modelo de rastreamento ainda não foi carregado.');
+  // detectForVideo requires strictly increasing timestamps.
+  const frameTimestamp = Math.max(timestamp, lastTimestamp + 1);
+  lastTimestamp = frameTimestamp;
+
+  const startedAt = performance.now();
+  const result = landmarker.detectForVideo(bitmap, frameTimestamp);
+  const inferenceMs = performance.now() - startedAt;
+
+  post({
+    type: 'results',
+    timestamp,
+    inferenceMs,
+    multiHandLandmarks: result.landmarks ?? [],
+    multiHandedness: toHandedness(result.handedness ?? []),
+  });
+};
+
+scope.onmessage = (event) => {
+  const message = event.data;
+  if (message.type === 'init') {
+    init()
+      .then(() => post({ type: 'ready' }))
+      .catch((error: unknown) =>
+        post({ type: 'error', message: error instanceof Error ? error.message : 'Falha ao carregar o modelo.' }),
+      );
+    return;
+  }
+
+  try {
+    detect(message.bitmap, message.timestamp);
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : 'Falha na detecção de mãos.' });
+  } finally {
+    message.bitmap.close();
+  }
+};
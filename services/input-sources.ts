@@ -0,0 +1,186 @@
+import { DEFAULT_HAND_STATE } from '../config/gameConfig';
+import {
+  gamepadToHandState,
+  handStatesEqual,
+  InputSourceId,
+  KeyboardMouseSnapshot,
+  keyboardMouseToHandState,
+} from '../domain/input-state';
+import { HandState } from '../types';
+
+type HandStateListener = (state: HandState) => void;
+
+/** Anything that can drive the player. `subscribe` starts the provider and returns its teardown. */
+export interface InputSource {
+  id: InputSourceId;
+  subscribe: (listener: HandStateListener) => () => void;
+}
+
+export interface PushInputSource extends InputSource {
+  push: (state: HandState) => void;
+}
+
+/**
+ * A source fed from outside, used for hand tracking where `HandTracker` owns
+ * the pipeline. New subscribers immediately receive the latest state.
+ */
+export const createPushInputSource = (id: InputSourceId): PushInputSource => {
+  const listeners = new Set<HandStateListener>();
+  let latest = DEFAULT_HAND_STATE;
+
+  return {
+    id,
+    push: (state) => {
+      latest = state;
+      listeners.forEach((listener) => listener(state));
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      listener(latest);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+};
+
+const KEY_BINDINGS: Partial<Record<string, keyof Omit<KeyboardMouseSnapshot, 'pointer' | 'fire' | 'ironSight'>>> = {
+  KeyW: 'forward',
+  KeyS: 'backward',
+  KeyA: 'left',
+  KeyD: 'right',
+  KeyQ: 'turnLeft',
+  KeyE: 'turnRight',
+  ArrowLeft: 'turnLeft',
+  ArrowRight: 'turnRight',
+  ArrowUp: 'lookUp',
+  ArrowDown: 'lookDown',
+  KeyR: 'reload',
+  KeyX: 'switchWeapon',
+  KeyF: 'melee',
+  KeyG: 'grenade',
+};
+
+const createKeyboardSnapshot = (): KeyboardMouseSnapshot => ({
+  forward: false,
+  backward: false,
+  left: false,
+  right: false,
+  turnLeft: false,
+  turnRight: false,
+  lookUp: false,
+  lookDown: false,
+  fire: false,
+  ironSight: false,
+  reload: false,
+  switchWeapon: false,
+  melee: false,
+  grenade: false,
+  pointer: null,
+});
+
+const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT' || target.isContentEditable);
+
+/** Only clicks on the 3D scene fire; clicks on menus and panels keep their usual meaning. */
+const isSceneTarget = (target: EventTarget | null) =>
+  target instanceof Element && target.closest('.game-canvas-shell') !== null;
+
+/**
+ * WASD moves, Q/E or the arrows turn, the mouse aims, left click fires, right
+ * click aims down sights, R reloads, X switches weapons, F strikes and G throws a grenade.
+ */
+export const createKeyboardMouseSource = (): InputSource => ({
+  id: 'KEYBOARD_MOUSE',
+  subscribe: (listener) => {
+    const snapshot = createKeyboardSnapshot();
+    let lastState: HandState | null = null;
+
+    const emit = () => {
+      const next = keyboardMouseToHandState(snapshot);
+      if (handStatesEqual(lastState, next)) return;
+      lastState = next;
+      listener(next);
+    };
+
+    const setKey = (event: KeyboardEvent, isDown: boolean) => {
+      const binding = KEY_BINDINGS[event.code];
+      if (!binding || (isDown && isTypingTarget(event.target))) return;
+      if (snapshot[binding] === isDown) return;
+      snapshot[binding] = isDown;
+      emit();
+    };
+
+    const onKeyDown = (event: KeyboardEvent) => setKey(event, true);
+    const onKeyUp = (event: KeyboardEvent) => setKey(event, false);
+    const onMouseMove = (event: MouseEvent) => {
+      snapshot.pointer = {
+        x: (event.clientX / window.innerWidth) * 2 - 1,
+        y: -((event.clientY / window.innerHeight) * 2 - 1),
+      };
+      emit();
+    };
+    const onMouseDown = (event: MouseEvent) => {
+      if (!isSceneTarget(event.target)) return;
+      if (event.button === 0) snapshot.fire = true;
+      if (event.button === 2) snapshot.ironSight = true;
+      emit();
+    };
+    const onMouseUp = (event: MouseEvent) => {
+      if (event.button === 0) snapshot.fire = false;
+      if (event.button === 2) snapshot.ironSight = false;
+      emit();
+    };
+    const onContextMenu = (event: MouseEvent) => {
+      if (isSceneTarget(event.target)) event.preventDefault();
+    };
+    // Keys held while the window loses focus would otherwise stay pressed.
+    const onBlur = () => {
+      Object.assign(snapshot, createKeyboardSnapshot(), { pointer: snapshot.pointer });
+      emit();
+    };
+
+    window.addEventListener('keydown', onKeyDown);
+    window.addEventListener('keyup', onKeyUp);
+    window.addEventListener('mousemove', onMouseMove);
+    window.addEventListener('mousedown', onMouseDown);
+    window.addEventListener('mouseup', onMouseUp);
+    window.addEventListener('contextmenu', onContextMenu);
+    window.addEventListener('blur', onBlur);
+    emit();
+
+    return () => {
+      window.removeEventListener('keydown', onKeyDown);
+      window.removeEventListener('keyup', onKeyUp);
+      window.removeEventListener('mousemove', onMouseMove);
+      window.removeEventListener('mousedown', onMouseDown);
+      window.removeEventListener('mouseup', onMouseUp);
+      window.removeEventListener('contextmenu', onContextMenu);
+      window.removeEventListener('blur', onBlur);
+    };
+  },
+});
+
+/** Polls the first connected pad every animation frame; the Gamepad API has no input events. */
+export const createGamepadSource = (): InputSource => ({
+  id: 'GAMEPAD',
+  subscribe: (listener) => {
+    let animationFrameId = 0;
+    let lastState: HandState | null = null;
+
+    const poll = () => {
+      const pads = typeof navigator.getGamepads === 'function' ? navigator.getGamepads() : [];
+      const pad = Array.from(pads).find((candidate) => candidate?.connected) ?? null;
+      const next = gamepadToHandState(pad);
+      if (!handStatesEqual(lastState, next)) {
+        lastState = next;
+        listener(next);
+      }
+      animationFrameId = requestAnimationFrame(poll);
+    };
+
+    animationFrameId = requestAnimationFrame(poll);
+    return () => cancelAnimationFrame(animationFrameId);
+  },
+});
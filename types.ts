@@ -14,6 +14,9 @@ export enum CombatGesture {
   FIRE = 'FIRE',
   IRON_SIGHT = 'IRON_SIGHT',
   RELOAD = 'RELOAD',
+  SWITCH_WEAPON = 'SWITCH_WEAPON',
+  MELEE = 'MELEE',
+  GRENADE = 'GRENADE',
 }
 
 export enum EnemyAIState {
@@ -27,9 +30,14 @@ export enum GameStatus {
   MENU = 'MENU',
   PLAYING = 'PLAYING',
   PAUSED = 'PAUSED',
+  /** A breather between waves; the match keeps running but no enemies arrive. */
+  INTERMISSION = 'INTERMISSION',
   GAMEOVER = 'GAMEOVER',
 }
 
+/** Which physical hand steers: right-handed players aim with the right hand and move with the left. */
+export type ControlScheme = 'RIGHT_HANDED' | 'LEFT_HANDED';
+
 export type DifficultyLevel = 'EASY' | 'CASUAL' | 'TACTICAL' | 'INSANE';
 
 export interface DifficultyProfile {
@@ -45,23 +53,153 @@ export interface DifficultyProfile {
 }
 
 export interface TrackerCalibration {
+  /** Bumped whenever stored thresholds change units; see `migrateTrackerCalibration`. */
+  calibrationVersion: number;
   movementCenterX: number;
   movementCenterY: number;
   movementDeadzone: number;
+  /** Finger thresholds are in hand-scale units (wrist → middle knuckle = 1). */
   fistStopThreshold: number;
   indexExtendedThreshold: number;
   fireCurlThreshold: number;
   openHandThreshold: number;
   smoothingFrames: number;
+  lookCenterX: number;
+  lookCenterY: number;
+  lookDeadzone: number;
+  lookSensitivity: number;
+  lookPitchSensitivity: number;
+  aimCenterX: number;
+  aimCenterY: number;
+  aimRange: number;
+  aimSmoothing: number;
+  /** One-Euro landmark filter: still-hand cutoff (Hz), speed gain and derivative cutoff (Hz). */
+  filterMinCutoff: number;
+  filterBeta: number;
+  filterDerivativeCutoff: number;
+  /** Frames a trigger pull needs to register and to be released. */
+  fireEnterFrames: number;
+  fireExitFrames: number;
+  /** Frames a movement direction needs to start and to stop, so the deadzone edge does not flicker. */
+  movementEnterFrames: number;
+  movementExitFrames: number;
+  /** Thumb tip → index tip gap, in hand-scale units, below which a pinch switches weapons. */
+  pinchThreshold: number;
+  /** Sideways wrist speed of a fist, in hand-scale units per second, that counts as a melee swipe. */
+  meleeSwipeSpeed: number;
+  /** Wrist gap between two fists, in hand-scale units, that readies a grenade. */
+  grenadeHandGap: number;
+}
+
+/** Camera turn rates in rad/s; positive yaw turns left, positive pitch looks up. */
+export interface LookVector {
+  yaw: number;
+  pitch: number;
+}
+
+/** Normalized analog movement; `y` is forward, `x` strafes toward RIGHT, `magnitude` is in [0, 1]. */
+export interface MovementVector {
+  x: number;
+  y: number;
+  magnitude: number;
+}
+
+/** Crosshair position in normalized device coordinates ([-1, 1], y up). */
+export interface AimPoint {
+  x: number;
+  y: number;
 }
 
 export interface HandState {
   movement: MovementGesture;
+  moveVector: MovementVector;
   combat: CombatGesture;
+  look: LookVector;
+  aim: AimPoint;
+  /** Movement hand is tracked (the physical left hand in the right-handed scheme). */
   leftHandPresent: boolean;
+  /** Combat hand is tracked (the physical right hand in the right-handed scheme). */
   rightHandPresent: boolean;
 }
 
+/** Wrist velocity of a tracked hand in hand-scale units per second; `y` grows downward like the image. */
+export interface HandMotion {
+  x: number;
+  y: number;
+}
+
+export type WeaponId = 'RIFLE' | 'SIDEARM' | 'SMG' | 'MARKSMAN';
+
+/** Automatic weapons keep firing while the trigger is held; semi-automatic ones fire once per pull. */
+export type FireMode = 'AUTO' | 'SEMI';
+
+export interface WeaponProfile {
+  id: WeaponId;
+  label: string;
+  fireMode: FireMode;
+  fireCooldownMs: number;
+  /** Rounds per magazine; null for weapons that never run dry or need reloading. */
+  magazineSize: number | null;
+  reloadMs: number;
+  /** Damage per body hit inside `falloffStart` metres. */
+  damage: number;
+  /** Damage fades linearly from `falloffStart` to `falloffEnd`, where it bottoms out at `minDamageFactor`. */
+  falloffStart: number;
+  falloffEnd: number;
+  minDamageFactor: number;
+  /** Half-angle in radians of the cone shots land in; 0 fires exactly at the crosshair. */
+  spread: number;
+}
+
+export type LoadoutId = 'ASSAULT' | 'CLOSE_QUARTERS' | 'MARKSMAN';
+
+/** The weapons carried into a match, picked in the menu. */
+export interface Loadout {
+  id: LoadoutId;
+  label: string;
+  description: string;
+  /** Switch order; the first one is drawn when the match starts. */
+  weapons: WeaponId[];
+}
+
+export type EnemyHitCause = 'SHOT' | 'MELEE' | 'GRENADE';
+
+/** How a drone was hit; travels with defeats so scoring and stats can tell weak-spot kills apart. */
+export interface EnemyHit {
+  cause: EnemyHitCause;
+  damage: number;
+  /** The ray struck the drone's eye. */
+  weakSpot: boolean;
+  /** Metres from the player when the hit landed. */
+  distance: number;
+}
+
+export type PickupKind = 'MEDKIT' | 'AMMO' | 'DAMAGE_BOOST' | 'SHIELD';
+
+/** Pickups whose effect lasts for a while instead of applying once. */
+export type PowerUpKind = Extract<PickupKind, 'DAMAGE_BOOST' | 'SHIELD'>;
+
+export interface PickupProfile {
+  kind: PickupKind;
+  label: string;
+  /** Marker colour in the arena and on the HUD. */
+  color: string;
+  /** Relative odds whenever a pickup drops or spawns. */
+  weight: number;
+  /** Medkit: health restored. */
+  heal?: number;
+  /** Power-ups: how long the effect lasts once collected. */
+  durationMs?: number;
+}
+
+/** When the weapon was last switched (epoch ms), for its cooldown. */
+export interface AbilityCooldowns {
+  weaponSwitch: number;
+}
+
+/** Abilities the simulation gates on its own clock, so their cooldowns stop while the match is paused. */
+export type SimulatedAbility = 'melee' | 'grenade';
+
 export interface MatchStats {
   shotsFired: number;
   shotsHit: number;
@@ -69,13 +207,14 @@ export interface MatchStats {
   highestWave: number;
   currentStreak: number;
   bestStreak: number;
+  weakSpotKills: number;
   sessionStartedAt: number | null;
   sessionEndedAt: number | null;
 }
 
 export interface GameState {
-  ammo: number;
-  maxAmmo: number;
+  /** Rounds left in each carried weapon's magazine; weapons without one have no entry. */
+  ammo: Partial<Record<WeaponId, number>>;
   score: number;
   health: number;
   status: GameStatus;
@@ -84,15 +223,103 @@ export interface GameState {
   isGameOver: boolean;
   wave: number;
   difficulty: DifficultyLevel;
+  loadout: LoadoutId;
+  weapon: WeaponId;
+  cooldowns: AbilityCooldowns;
+  /** Set while the match is between waves, and kept through a pause taken then. */
+  intermission: WaveIntermission | null;
   stats: MatchStats;
 }
 
+export type EnemyArchetypeId = 'DRONE' | 'KAMIKAZE' | 'SNIPER' | 'TANK' | 'SUPPORT' | 'BOSS';
+
+/** Spawn odds for an archetype: absent before `fromWave`, then growing by `perWave` up to `maxWeight`. */
+export interface SpawnWeight {
+  fromWave: number;
+  baseWeight: number;
+  perWave: number;
+  maxWeight: number;
+}
+
+/**
+ * Tuning for one kind of enemy. Ranges are metres before wave scaling; speed,
+ * damage and attack cooldown scale the difficulty profile's values.
+ */
+export interface EnemyArchetype {
+  id: EnemyArchetypeId;
+  label: string;
+  maxHealth: number;
+  /** Points for a defeat before difficulty, wave and weak-spot bonuses. */
+  scoreValue: number;
+  attackRange: number;
+  alertRange: number;
+  speedScale: number;
+  damageScale: number;
+  attackCooldownScale: number;
+  spawnWeight: SpawnWeight;
+  /** Metres per second of the rounds it fires; archetypes without it never shoot. */
+  projectileSpeed?: number;
+  /** Kamikaze: distance at which it detonates on the player. */
+  contactRadius?: number;
+  /** Sniper: how long the aiming laser shows before the shot lands. */
+  telegraphMs?: number;
+  /** Tank and boss: half-angle (radians) of the frontal shield and how fast they turn to face the player. */
+  shieldHalfAngle?: number;
+  turnRate?: number;
+  /** Support: health restored per second to allies within `healRadius` metres. */
+  healPerSecond?: number;
+  healRadius?: number;
+}
+
+/** A volume in an enemy's own frame (it faces +z), used for hit tests instead of its meshes. */
+export type ColliderShape =
+  | { kind: 'SPHERE'; center: [number, number, number]; radius: number }
+  | { kind: 'CAPSULE'; start: [number, number, number]; end: [number, number, number]; radius: number };
+
+/** Where shots land on an archetype: body volumes, plus the eye that takes weak-spot damage. */
+export interface EnemyHitbox {
+  body: ColliderShape[];
+  weakSpot: { center: [number, number, number]; radius: number };
+}
+
+/** One scripted wave: how many of each archetype it sends and how many arrive together. */
+export interface WaveDefinition {
+  enemies: Partial<Record<EnemyArchetypeId, number>>;
+  burstSize: number;
+}
+
+/** The wave just cleared and what comes next, shown while the intermission lasts. */
+export interface WaveIntermission {
+  clearedWave: number;
+  nextWave: number;
+  bossIncoming: boolean;
+}
+
+/** A path around the arena's obstacles, planned by `domain/navigation.ts`. */
+export interface EnemyRoute {
+  goal: [number, number, number];
+  /** Corners still to pass, ending at the goal; empty when no path was found. */
+  waypoints: [number, number, number][];
+  /** Simulation time of the search, which limits how often it is redone. */
+  plannedAt: number;
+}
+
 export interface Target {
   id: string;
+  archetype: EnemyArchetypeId;
   position: [number, number, number];
   health: number;
+  maxHealth: number;
+  /** Last damage taken, on the simulation clock; drives the hit flash. */
+  lastHit: { at: number; weakSpot: boolean } | null;
   state: EnemyAIState;
   targetPoint: [number, number, number];
   lastActionTime: number;
   strafeSeed: number;
+  /** Yaw the enemy faces (its local +z), used by the tank shield and the meshes. */
+  heading: number;
+  /** Sniper: simulation time the current aim started, or null when not aiming. */
+  aimStartedAt: number | null;
+  /** Path being followed while something blocks the straight line to the goal. */
+  route: EnemyRoute | null;
 }
@@ -0,0 +1,8 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    environment: 'node',
+    include: ['domain/**/*.test.ts', 'services/**/*.test.ts'],
+  },
+});